@@ -1,6 +1,8 @@
 import { Page } from '@playwright/test';
-import { ApiActions } from '../commons/api-actions';
+import { ApiActions, DEFAULT_RETRYABLE_STATUSES } from '../commons/api-actions';
+import { API_DEFINITION_CONTRACTS } from './response-contracts';
 import { loggers } from '../utils/logging/logger-factory';
+import { SpecBundler } from '../utils/api/spec-bundler';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -17,10 +19,13 @@ export class ApiDefinitionApi extends ApiActions {
 
   /**
    * Upload API specification file to CDN
+   * Specs split across files are bundled into a single temp file (same name) first
    */
   async uploadSpecFile(filePath: string): Promise<string> {
+    let uploadPath = filePath;
     try {
-      const fileBuffer = fs.readFileSync(filePath);
+      uploadPath = this.bundleIfNeeded(filePath);
+      const fileBuffer = fs.readFileSync(uploadPath);
       const fileName = path.basename(filePath);
       const contentType = this.getFileMimeType(fileName);
       const projectInfo = this.validateProjectInfo();
@@ -29,7 +34,7 @@ export class ApiDefinitionApi extends ApiActions {
 
       const response = await this.uploadFile(
         '/api/v2/apidefinitions/upload-spec-file',
-        filePath,
+        uploadPath,
         fileName,
         fileBuffer,
         {}, // No additional form data needed
@@ -39,7 +44,9 @@ export class ApiDefinitionApi extends ApiActions {
             'referer': `https://portal.document360.io/${projectInfo.projectId}/api-documentation`,
             'versiontype': '0'
           },
-          contentType
+          contentType,
+          // A repeated upload only stores another copy of the file, so gateway errors are retried too
+          retry: { postRetryableStatuses: DEFAULT_RETRYABLE_STATUSES }
         }
       );
 
@@ -47,7 +54,7 @@ export class ApiDefinitionApi extends ApiActions {
         result: { fileUrl: string };
         success: boolean;
         errors: string[];
-      }>(response, 'File upload');
+      }>(response, 'File upload', API_DEFINITION_CONTRACTS.uploadSpecFile);
 
       loggers.api.info(`✅ File uploaded successfully: ${uploadResponse.result.fileUrl}`);
       return uploadResponse.result.fileUrl;
@@ -55,7 +62,23 @@ export class ApiDefinitionApi extends ApiActions {
     } catch (error) {
       loggers.api.error(`❌ File upload failed for ${filePath}:`, error);
       throw error;
+    } finally {
+      if (uploadPath !== filePath) {
+        SpecBundler.removeBundle(uploadPath);
+      }
+    }
+  }
+
+  /**
+   * Bundle a multi-file specification (relative-file $refs) into one temp file, returning the path to upload
+   */
+  private bundleIfNeeded(filePath: string): string {
+    if (!SpecBundler.hasExternalRefs(filePath)) {
+      return filePath;
     }
+    const bundledPath = new SpecBundler().writeBundle(filePath);
+    loggers.api.info(`📦 Bundled multi-file spec ${path.basename(filePath)} into ${bundledPath}`);
+    return bundledPath;
   }
 
   /**
@@ -76,14 +99,14 @@ export class ApiDefinitionApi extends ApiActions {
       const boundary = '----WebKitFormBoundary' + Math.random().toString(36).substring(2);
       const formData = this.createApiDefinitionFormData(boundary, fileUrl, projectInfo);
 
-      const response = await this.request.post(`${this.baseUrl}/api/v2/apidefinitions`, {
-        headers: this.getCommonHeaders({
-          'content-type': `multipart/form-data; boundary=${boundary}`,
+      // A repeated create makes a second definition, so only the default POST statuses (429/503) are retried
+      const response = await this.post('/api/v2/apidefinitions', formData, {
+        headers: {
           'projectid': projectInfo.projectId,
           'referer': `https://portal.document360.io/${projectInfo.projectId}/api-documentation`,
           'versiontype': '0'
-        }),
-        data: formData
+        },
+        contentType: `multipart/form-data; boundary=${boundary}`
       });
 
       const apiResponse = await this.handleResponse<{
@@ -100,7 +123,7 @@ export class ApiDefinitionApi extends ApiActions {
         };
         success: boolean;
         errors: string[];
-      }>(response, 'API definition creation');
+      }>(response, 'API definition creation', API_DEFINITION_CONTRACTS.createApiDefinition);
 
       const result = {
         apiDefinitionId: apiResponse.result.apiDefinitionId,
@@ -158,11 +181,13 @@ export class ApiDefinitionApi extends ApiActions {
             'sec-fetch-site': 'same-origin',
             'user-agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/140.0.0.0 Safari/537.36',
             'versiontype': '0' // Use '0' as per your working curl command
-          }
+          },
+          // Publishing an already published definition is harmless, so gateway errors are retried too
+          retry: { postRetryableStatuses: DEFAULT_RETRYABLE_STATUSES }
         }
       );
 
-      await this.handleResponse(response, 'API definition publishing');
+      await this.handleResponse(response, 'API definition publishing', API_DEFINITION_CONTRACTS.publishApiDefinition);
       loggers.api.info(`✅ API definition published successfully for customer portal`);
 
     } catch (error) {
@@ -189,12 +214,10 @@ export class ApiDefinitionApi extends ApiActions {
         projectDocumentVersionId: projectDocumentVersionId
       };
 
-      const response = await this.request.post(`${this.baseUrl}/api/v2/apidefinitions/publish-articles`, {
+      const response = await this.post('/api/v2/apidefinitions/publish-articles', requestBody, {
         headers: {
           'accept': 'application/json, text/plain, */*',
           'accept-language': 'en-US,en;q=0.9',
-          'authorization': `Bearer ${this.getAuthToken()}`,
-          'content-type': 'application/json',
           'origin': 'https://portal.document360.io',
           'priority': 'u=1, i',
           'projectid': projectId,
@@ -209,19 +232,11 @@ export class ApiDefinitionApi extends ApiActions {
           'user-agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/140.0.0.0 Safari/537.36',
           'versiontype': '0'
         },
-        data: JSON.stringify(requestBody)
+        // Publishing an already published definition is harmless, so gateway errors are retried too
+        retry: { postRetryableStatuses: DEFAULT_RETRYABLE_STATUSES }
       });
 
-      if (!response.ok()) {
-        const errorText = await response.text();
-        throw new Error(`API definition publishing failed: ${response.status()} - ${errorText}`);
-      }
-
-      const publishResponse = await response.json();
-      
-      if (!publishResponse.success) {
-        throw new Error(`API definition publishing failed: ${publishResponse.errors?.join(', ') || 'Unknown error'}`);
-      }
+      await this.handleResponse(response, 'API definition publishing', API_DEFINITION_CONTRACTS.publishApiDefinition);
 
       loggers.api.info(`✅ API definition published successfully (exact curl method)`);
 
@@ -245,7 +260,7 @@ export class ApiDefinitionApi extends ApiActions {
         }
       });
 
-      const apiData = await this.handleResponse(response, 'Get API definition');
+      const apiData = await this.handleResponse(response, 'Get API definition', API_DEFINITION_CONTRACTS.getApiDefinition);
       return apiData;
 
     } catch (error) {
@@ -275,30 +290,6 @@ export class ApiDefinitionApi extends ApiActions {
     }
   }
 
-  /**
-   * Delete API definition
-   */
-  async deleteApiDefinition(apiDefinitionId: string): Promise<void> {
-    try {
-      const projectInfo = this.validateProjectInfo();
-      
-      loggers.api.info(`🗑️ Deleting API definition: ${apiDefinitionId}`);
-
-      const response = await this.delete(`/api/v2/apidefinitions/${apiDefinitionId}`, {
-        headers: {
-          'projectid': projectInfo.projectId
-        }
-      });
-
-      await this.handleResponse(response, 'API definition deletion');
-      loggers.api.info(`✅ API definition deleted successfully: ${apiDefinitionId}`);
-
-    } catch (error) {
-      loggers.api.error(`❌ Failed to delete API definition ${apiDefinitionId}:`, error);
-      throw error;
-    }
-  }
-
   /**
    * List all API definitions for the project
    */
@@ -317,7 +308,7 @@ export class ApiDefinitionApi extends ApiActions {
 
       const data = await this.handleResponse<{
         result: any[];
-      }>(response, 'List API definitions');
+      }>(response, 'List API definitions', API_DEFINITION_CONTRACTS.listApiDefinitions);
 
       return data.result || [];
 
@@ -445,39 +436,9 @@ export class ApiDefinitionApi extends ApiActions {
    */
   async deleteApiDefinition(apiDefinitionId: string): Promise<void> {
     try {
-      const projectInfo = this.validateProjectInfo();
-      
       loggers.api.info(`🗑️ Deleting API definition: ${apiDefinitionId}`);
 
-      const requestBody = {
-        apiDefinitionList: [apiDefinitionId],
-        projectDocumentVersionId: projectInfo.projectVersionId
-      };
-
-      const response = await this.request.post(`${this.baseUrl}/api/v2/apidefinitions/bulkdelete`, {
-        headers: {
-          'accept': 'application/json, text/plain, */*',
-          'accept-language': 'en-US,en;q=0.9',
-          'authorization': `Bearer ${this.getAuthToken()}`,
-          'content-type': 'application/json',
-          'origin': 'https://portal.document360.io',
-          'priority': 'u=1, i',
-          'projectid': projectInfo.projectId,
-          'referer': `https://portal.document360.io/${projectInfo.projectId}/api-documentation`,
-          'request-context': 'appId=cid-v1:4902addb-5aa7-47de-91d3-6476474b5e05',
-          'sec-ch-ua': '"Chromium";v="140", "Not=A?Brand";v="24", "Google Chrome";v="140"',
-          'sec-ch-ua-mobile': '?0',
-          'sec-ch-ua-platform': '"macOS"',
-          'sec-fetch-dest': 'empty',
-          'sec-fetch-mode': 'cors',
-          'sec-fetch-site': 'same-origin',
-          'user-agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/140.0.0.0 Safari/537.36',
-          'versiontype': '1'
-        },
-        data: JSON.stringify(requestBody)
-      });
-
-      await this.handleResponse(response, 'API definition deletion');
+      await this.bulkDeleteApiDefinitions([apiDefinitionId]);
       loggers.api.info(`✅ API definition deleted: ${apiDefinitionId}`);
 
     } catch (error) {
@@ -485,4 +446,40 @@ export class ApiDefinitionApi extends ApiActions {
       throw error;
     }
   }
+
+  /**
+   * Delete several API definitions in one bulkdelete call
+   */
+  async bulkDeleteApiDefinitions(apiDefinitionIds: string[], projectDocumentVersionId?: string): Promise<void> {
+    const projectInfo = this.validateProjectInfo();
+
+    const requestBody = {
+      apiDefinitionList: apiDefinitionIds,
+      projectDocumentVersionId: projectDocumentVersionId || projectInfo.projectVersionId
+    };
+
+    const response = await this.post('/api/v2/apidefinitions/bulkdelete', requestBody, {
+      headers: {
+        'accept': 'application/json, text/plain, */*',
+        'accept-language': 'en-US,en;q=0.9',
+        'origin': 'https://portal.document360.io',
+        'priority': 'u=1, i',
+        'projectid': projectInfo.projectId,
+        'referer': `https://portal.document360.io/${projectInfo.projectId}/api-documentation`,
+        'request-context': 'appId=cid-v1:4902addb-5aa7-47de-91d3-6476474b5e05',
+        'sec-ch-ua': '"Chromium";v="140", "Not=A?Brand";v="24", "Google Chrome";v="140"',
+        'sec-ch-ua-mobile': '?0',
+        'sec-ch-ua-platform': '"macOS"',
+        'sec-fetch-dest': 'empty',
+        'sec-fetch-mode': 'cors',
+        'sec-fetch-site': 'same-origin',
+        'user-agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/140.0.0.0 Safari/537.36',
+        'versiontype': '1'
+      },
+      // Deleting the same definitions twice is harmless, so gateway errors are retried too
+      retry: { postRetryableStatuses: DEFAULT_RETRYABLE_STATUSES }
+    });
+
+    await this.handleResponse(response, 'API definition deletion', API_DEFINITION_CONTRACTS.bulkDeleteApiDefinitions);
+  }
 }
@@ -1,5 +1,6 @@
 import { Page } from '@playwright/test';
 import { ApiActions } from '../commons/api-actions';
+import { AUTH_CONTRACTS } from './response-contracts';
 import { loggers } from '../utils/logging/logger-factory';
 
 /**
@@ -55,7 +56,7 @@ export class AuthApi extends ApiActions {
       loggers.api.debug('👤 Getting user profile');
       
       const response = await this.get('/api/v2/user/profile');
-      const profileData = await this.handleResponse(response, 'Get user profile');
+      const profileData = await this.handleResponse(response, 'Get user profile', AUTH_CONTRACTS.getUserProfile);
       
       loggers.api.info(`✅ User profile retrieved successfully`);
       return profileData;
@@ -74,7 +75,7 @@ export class AuthApi extends ApiActions {
       loggers.api.debug('🔐 Getting user permissions');
       
       const response = await this.get('/api/v2/user/permissions');
-      const permissionsData = await this.handleResponse(response, 'Get user permissions');
+      const permissionsData = await this.handleResponse(response, 'Get user permissions', AUTH_CONTRACTS.getUserPermissions);
       
       loggers.api.info(`✅ User permissions retrieved successfully`);
       return permissionsData;
@@ -110,7 +111,7 @@ export class AuthApi extends ApiActions {
         refresh_token: string;
         expires_in: number;
         token_type: string;
-      }>(response, 'Token refresh');
+      }>(response, 'Token refresh', AUTH_CONTRACTS.refreshToken);
 
       const result = {
         accessToken: tokenData.access_token,
@@ -138,7 +139,7 @@ export class AuthApi extends ApiActions {
       loggers.api.debug('👋 Logging out user');
       
       const response = await this.post('/api/v2/auth/logout', {});
-      await this.handleResponse(response, 'User logout');
+      await this.handleResponse(response, 'User logout', AUTH_CONTRACTS.logout);
       
       // Clear the auth token
       this.setAuthToken('');
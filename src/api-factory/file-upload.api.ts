@@ -1,5 +1,7 @@
 import { Page } from '@playwright/test';
 import { ApiActions } from '../commons/api-actions';
+import { ResponseContract } from '../commons/response-contract';
+import { FILE_UPLOAD_CONTRACTS } from './response-contracts';
 import { loggers } from '../utils/logging/logger-factory';
 import * as fs from 'fs';
 import * as path from 'path';
@@ -34,10 +36,10 @@ export class FileUploadApi extends ApiActions {
       loggers.api.info(`📤 Uploading file to CDN: ${fileName} (${fileSize} bytes)`);
 
       // Determine the upload endpoint based on type
-      const endpoint = this.getUploadEndpoint(uploadType);
+      const contract = this.getUploadContract(uploadType);
 
       const response = await this.uploadFile(
-        endpoint,
+        contract.path,
         filePath,
         fileName,
         fileBuffer,
@@ -56,7 +58,7 @@ export class FileUploadApi extends ApiActions {
         result: { fileUrl: string };
         success: boolean;
         errors: string[];
-      }>(response, 'File upload to CDN');
+      }>(response, 'File upload to CDN', contract);
 
       const result = {
         fileUrl: uploadResponse.result.fileUrl,
@@ -278,18 +280,18 @@ export class FileUploadApi extends ApiActions {
   }
 
   /**
-   * Get upload endpoint based on type
+   * Get the upload endpoint and its response contract based on type
    */
-  private getUploadEndpoint(uploadType: 'spec' | 'image' | 'document'): string {
+  private getUploadContract(uploadType: 'spec' | 'image' | 'document'): ResponseContract {
     switch (uploadType) {
       case 'spec':
-        return '/api/v2/apidefinitions/upload-spec-file';
+        return FILE_UPLOAD_CONTRACTS.uploadSpecFile;
       case 'image':
-        return '/api/v2/files/upload-image';
+        return FILE_UPLOAD_CONTRACTS.uploadImage;
       case 'document':
-        return '/api/v2/files/upload-document';
+        return FILE_UPLOAD_CONTRACTS.uploadDocument;
       default:
-        return '/api/v2/apidefinitions/upload-spec-file';
+        return FILE_UPLOAD_CONTRACTS.uploadSpecFile;
     }
   }
 
@@ -29,6 +29,22 @@ export { FileUploadApi } from './file-upload.api';
 // Export the base class for custom API implementations
 export { ApiActions } from '../commons/api-actions';
 
+// Response contracts checked by handleResponse
+export { API_DEFINITION_CONTRACTS, AUTH_CONTRACTS, FILE_UPLOAD_CONTRACTS } from './response-contracts';
+export { ResponseContract, ContractViolation, ContractViolationError, ResponseContractValidator } from '../commons/response-contract';
+
+// Typed errors thrown by handleResponse and the request methods
+export {
+  ApiError,
+  ApiErrorDetails,
+  AuthError,
+  QuotaExceededError,
+  ValidationError,
+  NotFoundError,
+  TransportError,
+  isTrialApiLimitMessage
+} from '../commons/api-errors';
+
 // Type definitions for common API responses
 export interface ApiResponse<T = any> {
   result: T;
@@ -0,0 +1,123 @@
+import { ResponseContract } from '../commons/response-contract';
+
+/**
+ * Response contracts of the Document360 endpoints used by the API factory, one per operation
+ * Checked at runtime by handleResponse; each schema requires the fields its API class reads
+ */
+
+/**
+ * The { success, result, errors } envelope of the portal API around a result schema
+ */
+function envelope(result: object, resultRequired: boolean = true): object {
+  return {
+    type: 'object',
+    required: resultRequired ? ['result'] : [],
+    properties: {
+      success: { type: 'boolean' },
+      errors: { type: ['array', 'null'] },
+      result
+    }
+  };
+}
+
+const nonEmptyString = { type: 'string', minLength: 1 };
+
+const fileUrlResult = {
+  type: 'object',
+  required: ['fileUrl'],
+  properties: { fileUrl: nonEmptyString }
+};
+
+export const API_DEFINITION_CONTRACTS: Record<string, ResponseContract> = {
+  uploadSpecFile: {
+    method: 'POST',
+    path: '/api/v2/apidefinitions/upload-spec-file',
+    schema: envelope(fileUrlResult)
+  },
+  createApiDefinition: {
+    method: 'POST',
+    path: '/api/v2/apidefinitions',
+    schema: envelope({
+      type: 'object',
+      required: ['apiDefinitionId', 'projectId', 'projectDocumentVersionId', 'categoriesCreated', 'articlesCreated'],
+      properties: {
+        apiDefinitionId: nonEmptyString,
+        projectId: nonEmptyString,
+        projectDocumentVersionId: nonEmptyString,
+        rootCategoryId: { type: 'string' },
+        categoriesCreated: { type: 'integer', minimum: 0 },
+        articlesCreated: { type: 'integer', minimum: 0 },
+        apiDefinitionsCount: { type: 'integer', minimum: 0 },
+        isApiDefinitionImported: { type: 'boolean' }
+      }
+    })
+  },
+  publishApiDefinition: {
+    method: 'POST',
+    path: '/api/v2/apidefinitions/publish-articles',
+    schema: envelope({}, false)
+  },
+  getApiDefinition: {
+    method: 'GET',
+    path: '/api/v2/apidefinitions/{apiDefinitionId}',
+    schema: envelope({ type: 'object' })
+  },
+  listApiDefinitions: {
+    method: 'GET',
+    path: '/api/v2/apidefinitions',
+    schema: envelope({ type: ['array', 'null'], items: { type: 'object' } }, false)
+  },
+  bulkDeleteApiDefinitions: {
+    method: 'POST',
+    path: '/api/v2/apidefinitions/bulkdelete',
+    schema: envelope({}, false)
+  }
+};
+
+export const AUTH_CONTRACTS: Record<string, ResponseContract> = {
+  getUserProfile: {
+    method: 'GET',
+    path: '/api/v2/user/profile',
+    schema: envelope({ type: 'object' })
+  },
+  getUserPermissions: {
+    method: 'GET',
+    path: '/api/v2/user/permissions',
+    schema: { type: 'object' }
+  },
+  // The identity server answers without the portal envelope
+  refreshToken: {
+    method: 'POST',
+    path: '/connect/token',
+    schema: {
+      type: 'object',
+      required: ['access_token', 'expires_in', 'token_type'],
+      properties: {
+        access_token: nonEmptyString,
+        refresh_token: { type: 'string' },
+        expires_in: { type: 'number', minimum: 0 },
+        token_type: nonEmptyString
+      }
+    }
+  },
+  logout: {
+    method: 'POST',
+    path: '/api/v2/auth/logout',
+    schema: envelope({}, false)
+  }
+};
+
+// One per upload type of FileUploadApi.uploadToCdn, spec files go through the API definition endpoint
+export const FILE_UPLOAD_CONTRACTS: Record<string, ResponseContract> = {
+  uploadSpecFile: API_DEFINITION_CONTRACTS.uploadSpecFile,
+  uploadImage: {
+    method: 'POST',
+    path: '/api/v2/files/upload-image',
+    schema: envelope(fileUrlResult)
+  },
+  uploadDocument: {
+    method: 'POST',
+    path: '/api/v2/files/upload-document',
+    schema: envelope(fileUrlResult)
+  }
+};
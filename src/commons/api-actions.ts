@@ -1,6 +1,46 @@
 import { Page, APIRequestContext, APIResponse } from '@playwright/test';
 import { loggers } from '../utils/logging/logger-factory';
 import { ConfigManager } from '../utils/config/config-manager';
+import { HttpRecorder } from '../utils/api/http-recorder';
+import { ContractViolationError, ResponseContract, ResponseContractValidator } from './response-contract';
+import { ApiError, ApiErrorDetails, TransportError } from './api-errors';
+
+/**
+ * Declarative retry policy for API requests
+ * Set per API class (retryPolicy / setRetryPolicy) or per call (the retry option of get, post, put, delete and uploadFile)
+ */
+export interface RetryPolicy {
+  // Total attempts including the first one; 1 disables retries
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Fraction of the backoff delay that is randomized (0 = fixed delays, 1 = anywhere between 0 and the delay)
+  jitter: number;
+  retryableStatuses: number[];
+  // Statuses retried for POST requests and uploads, which are not idempotent: a retried create may run twice
+  postRetryableStatuses: number[];
+  retryOnNetworkError: boolean;
+  // Wait as long as a Retry-After header asks (still capped at maxDelayMs) instead of the backoff delay
+  honorRetryAfter: boolean;
+}
+
+/**
+ * Per call retry setting: overrides of the class policy, or false to send the request once
+ */
+export type RetryOption = Partial<RetryPolicy> | false;
+
+/**
+ * Statuses worth another attempt: timeouts, rate limits and gateway/backend hiccups
+ */
+export const DEFAULT_RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+/**
+ * Statuses that mean a POST was rejected before it was processed, so sending it again cannot duplicate it
+ */
+export const DEFAULT_POST_RETRYABLE_STATUSES = [429, 503];
+
+// Response headers that may carry the backend request id, in order of preference
+const REQUEST_ID_HEADERS = ['request-id', 'x-request-id', 'x-correlation-id', 'x-ms-request-id'];
 
 /**
  * Base class for all API interactions
@@ -13,12 +53,41 @@ export abstract class ApiActions {
   protected configManager: ConfigManager;
   protected baseUrl: string;
   protected authToken: string = '';
+  protected retryPolicy: RetryPolicy;
+  // Method and path each response was requested with, for the endpoint of errors
+  private responseEndpoints: WeakMap<APIResponse, string> = new WeakMap();
 
   constructor(page: Page) {
     this.page = page;
-    this.request = page.request;
+    // Calls are recorded to or replayed from fixtures when API_RECORD_MODE is set
+    this.request = HttpRecorder.getInstance().wrap(page.request);
     this.configManager = ConfigManager.getInstance();
     this.baseUrl = this.configManager.get<string>('API_BASE_URL');
+    this.retryPolicy = {
+      maxAttempts: this.configManager.get<number>('API_RETRY_MAX_ATTEMPTS'),
+      baseDelayMs: this.configManager.get<number>('API_RETRY_BASE_DELAY'),
+      maxDelayMs: this.configManager.get<number>('API_RETRY_MAX_DELAY'),
+      jitter: 0.5,
+      retryableStatuses: DEFAULT_RETRYABLE_STATUSES,
+      postRetryableStatuses: DEFAULT_POST_RETRYABLE_STATUSES,
+      retryOnNetworkError: true,
+      honorRetryAfter: true
+    };
+  }
+
+  /**
+   * Override the retry policy for all requests of this API class
+   */
+  setRetryPolicy(policy: Partial<RetryPolicy>): void {
+    this.retryPolicy = { ...this.retryPolicy, ...policy };
+    loggers.api.debug(`🔁 Retry policy set for ${this.constructor.name}: ${this.retryPolicy.maxAttempts} attempts`);
+  }
+
+  /**
+   * Get the retry policy of this API class
+   */
+  getRetryPolicy(): RetryPolicy {
+    return { ...this.retryPolicy };
   }
 
   /**
@@ -33,7 +102,7 @@ export abstract class ApiActions {
    * Get authentication token
    */
   getAuthToken(): string {
-    return this.authToken || (globalThis as any).__capturedAuthToken || '';
+    return this.authToken || (globalThis as any).__capturedAuthToken || this.configManager.get<string>('API_AUTH_TOKEN') || '';
   }
 
   /**
@@ -71,6 +140,7 @@ export abstract class ApiActions {
     options: {
       headers?: Record<string, string>;
       params?: Record<string, string>;
+      retry?: RetryOption;
     } = {}
   ): Promise<APIResponse> {
     const url = `${this.baseUrl}${endpoint}`;
@@ -79,10 +149,10 @@ export abstract class ApiActions {
     loggers.api.debug(`📤 GET ${url}`);
 
     try {
-      const response = await this.request.get(url, {
+      const response = await this.sendWithRetry('GET', url, options.retry, () => this.request.get(url, {
         headers,
         params: options.params
-      });
+      }));
 
       loggers.api.debug(`📥 GET ${url} - Status: ${response.status()}`);
       return response;
@@ -101,6 +171,7 @@ export abstract class ApiActions {
     options: {
       headers?: Record<string, string>;
       contentType?: string;
+      retry?: RetryOption;
     } = {}
   ): Promise<APIResponse> {
     const url = `${this.baseUrl}${endpoint}`;
@@ -113,10 +184,10 @@ export abstract class ApiActions {
     loggers.api.debug(`📤 POST ${url}`);
 
     try {
-      const response = await this.request.post(url, {
+      const response = await this.sendWithRetry('POST', url, options.retry, () => this.request.post(url, {
         headers,
         data
-      });
+      }));
 
       loggers.api.debug(`📥 POST ${url} - Status: ${response.status()}`);
       return response;
@@ -135,6 +206,7 @@ export abstract class ApiActions {
     options: {
       headers?: Record<string, string>;
       contentType?: string;
+      retry?: RetryOption;
     } = {}
   ): Promise<APIResponse> {
     const url = `${this.baseUrl}${endpoint}`;
@@ -147,10 +219,10 @@ export abstract class ApiActions {
     loggers.api.debug(`📤 PUT ${url}`);
 
     try {
-      const response = await this.request.put(url, {
+      const response = await this.sendWithRetry('PUT', url, options.retry, () => this.request.put(url, {
         headers,
         data
-      });
+      }));
 
       loggers.api.debug(`📥 PUT ${url} - Status: ${response.status()}`);
       return response;
@@ -167,6 +239,7 @@ export abstract class ApiActions {
     endpoint: string,
     options: {
       headers?: Record<string, string>;
+      retry?: RetryOption;
     } = {}
   ): Promise<APIResponse> {
     const url = `${this.baseUrl}${endpoint}`;
@@ -175,9 +248,9 @@ export abstract class ApiActions {
     loggers.api.debug(`📤 DELETE ${url}`);
 
     try {
-      const response = await this.request.delete(url, {
+      const response = await this.sendWithRetry('DELETE', url, options.retry, () => this.request.delete(url, {
         headers
-      });
+      }));
 
       loggers.api.debug(`📥 DELETE ${url} - Status: ${response.status()}`);
       return response;
@@ -199,6 +272,7 @@ export abstract class ApiActions {
     options: {
       headers?: Record<string, string>;
       contentType?: string;
+      retry?: RetryOption;
     } = {}
   ): Promise<APIResponse> {
     const url = `${this.baseUrl}${endpoint}`;
@@ -214,10 +288,10 @@ export abstract class ApiActions {
     loggers.api.debug(`📤 UPLOAD ${url} - File: ${fileName}`);
 
     try {
-      const response = await this.request.post(url, {
+      const response = await this.sendWithRetry('UPLOAD', url, options.retry, () => this.request.post(url, {
         headers,
         data: formData
-      });
+      }));
 
       loggers.api.debug(`📥 UPLOAD ${url} - Status: ${response.status()}`);
       return response;
@@ -227,6 +301,94 @@ export abstract class ApiActions {
     }
   }
 
+  /**
+   * Send a request under the retry policy of this class merged with the per call option
+   * Retryable statuses and network errors are retried with jittered exponential backoff until the attempts run out;
+   * the last response is returned as is so handleResponse reports it. POST requests and uploads only retry postRetryableStatuses
+   */
+  private async sendWithRetry(
+    method: string,
+    url: string,
+    retry: RetryOption | undefined,
+    send: () => Promise<APIResponse>
+  ): Promise<APIResponse> {
+    const policy: RetryPolicy = retry === false
+      ? { ...this.retryPolicy, maxAttempts: 1 }
+      : { ...this.retryPolicy, ...retry };
+    const maxAttempts = Math.max(1, policy.maxAttempts);
+    const retryableStatuses = method === 'POST' || method === 'UPLOAD' ? policy.postRetryableStatuses : policy.retryableStatuses;
+
+    for (let attempt = 1; ; attempt++) {
+      let response: APIResponse;
+      try {
+        response = await send();
+      } catch (error) {
+        // Already classified as final, e.g. a request without a fixture in replay mode
+        if (error instanceof ApiError && !error.retryable) {
+          throw error;
+        }
+        if (!policy.retryOnNetworkError || attempt >= maxAttempts) {
+          const endpoint = this.toEndpoint(method, url);
+          throw new TransportError(`${endpoint} failed: ${error instanceof Error ? error.message : error}`, {
+            operation: endpoint,
+            endpoint,
+            cause: error
+          });
+        }
+
+        const delay = this.getBackoffDelay(attempt, policy);
+        loggers.api.warn(`⚠️ ${method} ${url} - Network error on attempt ${attempt}/${maxAttempts}, retrying in ${delay}ms:`, error);
+        await this.page.waitForTimeout(delay);
+        continue;
+      }
+
+      this.responseEndpoints.set(response, this.toEndpoint(method, url));
+      if (!retryableStatuses.includes(response.status())) {
+        if (attempt > 1) {
+          loggers.api.info(`✅ ${method} ${url} - Status: ${response.status()} on attempt ${attempt}/${maxAttempts}`);
+        }
+        return response;
+      }
+
+      if (attempt >= maxAttempts) {
+        if (maxAttempts > 1) {
+          loggers.api.warn(`⚠️ ${method} ${url} - Status: ${response.status()}, giving up after ${attempt} attempts`);
+        }
+        return response;
+      }
+
+      const retryAfter = policy.honorRetryAfter ? this.parseRetryAfter(response.headers()['retry-after']) : null;
+      const delay = retryAfter !== null ? Math.min(retryAfter, policy.maxDelayMs) : this.getBackoffDelay(attempt, policy);
+      loggers.api.warn(`⚠️ ${method} ${url} - Status: ${response.status()} on attempt ${attempt}/${maxAttempts}, ` +
+        `retrying in ${delay}ms${retryAfter !== null ? ' (Retry-After)' : ''}`);
+      await response.dispose();
+      await this.page.waitForTimeout(delay);
+    }
+  }
+
+  /**
+   * Exponential backoff capped at maxDelayMs, with the jitter fraction of it randomized
+   */
+  private getBackoffDelay(attempt: number, policy: RetryPolicy): number {
+    const delay = Math.min(policy.baseDelayMs * Math.pow(2, attempt - 1), policy.maxDelayMs);
+    const jitter = Math.min(Math.max(policy.jitter, 0), 1);
+    return Math.round(delay * (1 - jitter) + delay * jitter * Math.random());
+  }
+
+  /**
+   * Retry-After is either delay seconds or an HTTP date; returns milliseconds, or null when absent or unreadable
+   */
+  private parseRetryAfter(value?: string): number | null {
+    if (!value) {
+      return null;
+    }
+    if (/^\d+$/.test(value.trim())) {
+      return parseInt(value.trim()) * 1000;
+    }
+    const date = Date.parse(value);
+    return isNaN(date) ? null : Math.max(0, date - Date.now());
+  }
+
   /**
    * Create multipart form data
    */
@@ -263,34 +425,87 @@ export abstract class ApiActions {
 
   /**
    * Handle API response with common error checking
+   * Failures are thrown as typed ApiErrors (AuthError, QuotaExceededError, ValidationError, NotFoundError, TransportError);
+   * with a contract the body is also checked against the declared schema (ContractViolationError on mismatch)
    */
-  protected async handleResponse<T>(response: APIResponse, operation: string): Promise<T> {
+  protected async handleResponse<T>(response: APIResponse, operation: string, contract?: ResponseContract): Promise<T> {
+    const details: ApiErrorDetails = {
+      operation,
+      endpoint: this.getResponseEndpoint(response, contract),
+      status: response.status(),
+      requestId: this.getRequestId(response)
+    };
+
     if (!response.ok()) {
-      const errorText = await response.text();
-      const error = new Error(`${operation} failed: ${response.status()} - ${errorText}`);
-      loggers.api.error(`❌ ${operation} failed:`, error);
-      throw error;
+      const body = await response.text();
+      throw this.logApiError(ApiError.fromResponse({ ...details, status: response.status(), body }, this.getEnvelopeErrors(body)));
     }
 
+    let data: any;
     try {
-      const data = await response.json();
-      
-      if (data.success === false) {
-        const errorMessage = data.errors?.join(', ') || 'Unknown API error';
-        const error = new Error(`${operation} failed: ${errorMessage}`);
-        loggers.api.error(`❌ ${operation} failed:`, error);
-        throw error;
-      }
-
-      loggers.api.debug(`✅ ${operation} successful`);
-      return data;
+      data = await response.json();
     } catch (parseError) {
-      if (parseError instanceof Error && parseError.message.includes('failed:')) {
-        throw parseError; // Re-throw our custom errors
-      }
-      
       loggers.api.error(`❌ Failed to parse ${operation} response:`, parseError);
-      throw new Error(`Failed to parse ${operation} response`);
+      throw new TransportError(`Failed to parse ${operation} response`, { ...details, cause: parseError }, false);
+    }
+
+    if (data?.success === false) {
+      const errors: string[] = Array.isArray(data.errors) ? data.errors.map(String) : [];
+      throw this.logApiError(ApiError.fromResponse({ ...details, status: response.status(), body: JSON.stringify(data) }, errors));
+    }
+
+    const violations = contract ? ResponseContractValidator.validate(contract, data) : [];
+    if (violations.length > 0) {
+      throw this.logApiError(new ContractViolationError({ ...details, body: JSON.stringify(data) }, violations));
+    }
+
+    loggers.api.debug(`✅ ${operation} successful`);
+    return data;
+  }
+
+  private logApiError(error: ApiError): ApiError {
+    loggers.api.error(`❌ ${error.operation} failed (${error.name}, ${error.endpoint}${error.requestId ? `, request ${error.requestId}` : ''}):`, error);
+    return error;
+  }
+
+  /**
+   * Method and path the response was requested with; requests sent past get/post/put/delete fall back to the contract
+   */
+  private getResponseEndpoint(response: APIResponse, contract?: ResponseContract): string {
+    const tracked = this.responseEndpoints.get(response);
+    if (tracked) {
+      return tracked;
+    }
+    return contract ? ResponseContractValidator.describeEndpoint(contract, response.url()) : this.toPath(response.url());
+  }
+
+  private toEndpoint(method: string, url: string): string {
+    return `${method === 'UPLOAD' ? 'POST' : method} ${this.toPath(url)}`;
+  }
+
+  private toPath(url: string): string {
+    try {
+      return new URL(url).pathname;
+    } catch {
+      return url;
+    }
+  }
+
+  private getRequestId(response: APIResponse): string | undefined {
+    const headers = response.headers();
+    const header = REQUEST_ID_HEADERS.find(name => headers[name]);
+    return header ? headers[header] : undefined;
+  }
+
+  /**
+   * Messages of a { success: false, errors: [...] } body, if it is one
+   */
+  private getEnvelopeErrors(body: string): string[] {
+    try {
+      const data = JSON.parse(body);
+      return Array.isArray(data?.errors) ? data.errors.map(String) : [];
+    } catch {
+      return [];
     }
   }
 
@@ -338,6 +553,11 @@ export abstract class ApiActions {
       } catch (error) {
         lastError = error as Error;
         
+        if (error instanceof ApiError && !error.retryable) {
+          loggers.api.error(`❌ ${description} failed with ${error.name}, not retrying:`, lastError);
+          throw lastError;
+        }
+
         if (attempt === maxRetries) {
           loggers.api.error(`❌ ${description} failed after ${maxRetries} attempts:`, lastError);
           throw lastError;
@@ -387,6 +607,19 @@ export abstract class ApiActions {
    * Wait for authentication token to be available from intercepted API call
    */
   public async waitForAuthToken(timeoutMs: number = 15000): Promise<string | null> {
+    // Replayed calls never reach the portal, so there is no login to wait for
+    if (HttpRecorder.getInstance().isReplaying() && !this.getAuthToken()) {
+      this.setAuthToken('replay-token');
+      return 'replay-token';
+    }
+
+    // A configured token (mock server runs, CI) needs no browser login
+    const configuredToken = this.configManager.get<string>('API_AUTH_TOKEN');
+    if (configuredToken) {
+      this.setAuthToken(configuredToken);
+      return configuredToken;
+    }
+
     const startTime = Date.now();
     
     while (Date.now() - startTime < timeoutMs) {
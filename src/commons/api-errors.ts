@@ -0,0 +1,133 @@
+/**
+ * Typed errors of the API factory
+ * Every error carries where it happened and whether sending the request again can help, so callers can tell
+ * a trial-limit failure from an expired token without matching on messages
+ */
+
+/**
+ * Context of a failed API call
+ */
+export interface ApiErrorDetails {
+  operation: string;
+  // Method and path, e.g. POST /api/v2/apidefinitions
+  endpoint: string;
+  // Absent when no response was received
+  status?: number;
+  requestId?: string;
+  // Raw response body
+  body?: string;
+  cause?: unknown;
+}
+
+// The portal's exact wording of the trial limit of API definitions is not documented, so any mention of the
+// trial or a plan limit in a rejected request counts
+const TRIAL_API_LIMIT_PATTERN = /\btrial\b|upgrade your plan|plan limit|quota/i;
+
+/**
+ * Check if a portal error message is the trial limit of API definitions
+ */
+export function isTrialApiLimitMessage(message: string): boolean {
+  return TRIAL_API_LIMIT_PATTERN.test(message);
+}
+
+/**
+ * Base class of all API factory errors
+ */
+export abstract class ApiError extends Error {
+  readonly operation: string;
+  readonly endpoint: string;
+  readonly status?: number;
+  readonly requestId?: string;
+  readonly body?: string;
+  readonly retryable: boolean;
+
+  constructor(message: string, details: ApiErrorDetails, retryable: boolean) {
+    super(message);
+    this.name = new.target.name;
+    this.operation = details.operation;
+    this.endpoint = details.endpoint;
+    this.status = details.status;
+    this.requestId = details.requestId;
+    this.body = details.body;
+    this.retryable = retryable;
+    if (details.cause !== undefined) {
+      (this as { cause?: unknown }).cause = details.cause;
+    }
+  }
+
+  /**
+   * Classify a failed response: an error status, or a 2xx whose body reports success: false
+   * errors are the messages of the portal envelope, when the body has one
+   */
+  static fromResponse(details: ApiErrorDetails & { status: number }, errors: string[] = []): ApiError {
+    const { status, operation } = details;
+    const reason = errors.length > 0 ? errors.join(', ') : details.body || 'Unknown API error';
+    const message = status >= 200 && status < 300 ? `${operation} failed: ${reason}` : `${operation} failed: ${status} - ${reason}`;
+
+    if (status === 401 || status === 403) {
+      return new AuthError(message, details);
+    }
+    if (status === 429) {
+      return new QuotaExceededError(message, details, true);
+    }
+    if (status === 404 || status === 410) {
+      return new NotFoundError(message, details);
+    }
+    if (status === 408 || status >= 500) {
+      return new TransportError(message, details, status !== 501);
+    }
+    if ((errors.length > 0 ? errors : [reason]).some(isTrialApiLimitMessage)) {
+      return new QuotaExceededError(message, details, false);
+    }
+    return new ValidationError(message, details, errors);
+  }
+}
+
+/**
+ * Missing, expired or insufficient credentials (401, 403)
+ */
+export class AuthError extends ApiError {
+  constructor(message: string, details: ApiErrorDetails) {
+    super(message, details, false);
+  }
+}
+
+/**
+ * A plan or rate limit was hit: the trial limit of API definitions (not retryable) or a 429 rate limit (retryable)
+ */
+export class QuotaExceededError extends ApiError {
+  constructor(message: string, details: ApiErrorDetails, retryable: boolean) {
+    super(message, details, retryable);
+  }
+}
+
+/**
+ * The request was rejected as invalid (400, 409, 422, or success: false in the body)
+ */
+export class ValidationError extends ApiError {
+  // Messages reported by the portal
+  readonly errors: string[];
+
+  constructor(message: string, details: ApiErrorDetails, errors: string[] = []) {
+    super(message, details, false);
+    this.errors = errors;
+  }
+}
+
+/**
+ * The addressed resource does not exist (404, 410)
+ */
+export class NotFoundError extends ApiError {
+  constructor(message: string, details: ApiErrorDetails) {
+    super(message, details, false);
+  }
+}
+
+/**
+ * No usable response: network failures, timeouts, 5xx statuses and unreadable bodies
+ */
+export class TransportError extends ApiError {
+  constructor(message: string, details: ApiErrorDetails, retryable: boolean = true) {
+    super(message, details, retryable);
+  }
+}
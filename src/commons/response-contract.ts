@@ -0,0 +1,83 @@
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import { ApiError, ApiErrorDetails } from './api-errors';
+
+/**
+ * Declared shape of the JSON body an endpoint answers with
+ * Schemas list the fields the API classes read; extra fields are allowed so backend additions do not break runs
+ */
+export interface ResponseContract {
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  // Path template, for documentation and for errors when the response carries no URL
+  path: string;
+  schema: object;
+}
+
+/**
+ * A single field of a response that does not match its contract
+ */
+export interface ContractViolation {
+  // Dotted path of the field (result.apiDefinitionId, result[0].title); empty for the body itself
+  field: string;
+  message: string;
+}
+
+/**
+ * Thrown when a successful response does not match the contract of its endpoint
+ */
+export class ContractViolationError extends ApiError {
+  readonly violations: ContractViolation[];
+
+  constructor(details: ApiErrorDetails, violations: ContractViolation[]) {
+    super(`Contract violation in ${details.operation} response (${details.endpoint}): ` +
+      violations.map(violation => `${violation.field || 'body'} ${violation.message}`).join('; '), details, false);
+    this.violations = violations;
+  }
+}
+
+/**
+ * Runtime check of response bodies against their contracts (schemas are compiled once)
+ */
+export class ResponseContractValidator {
+  private static ajv = new Ajv({ allErrors: true, strict: false });
+  private static compiled: WeakMap<object, ValidateFunction> = new WeakMap();
+
+  /**
+   * Validate a response body, returning the violations (empty when it matches)
+   */
+  static validate(contract: ResponseContract, body: unknown): ContractViolation[] {
+    let validate = this.compiled.get(contract.schema);
+    if (!validate) {
+      validate = this.ajv.compile(contract.schema);
+      this.compiled.set(contract.schema, validate);
+    }
+
+    return validate(body) ? [] : (validate.errors || []).map(error => this.toViolation(error));
+  }
+
+  /**
+   * Method and path of the request, the path template when the URL is not known
+   */
+  static describeEndpoint(contract: ResponseContract, url?: string): string {
+    try {
+      return `${contract.method} ${url ? new URL(url).pathname : contract.path}`;
+    } catch {
+      return `${contract.method} ${contract.path}`;
+    }
+  }
+
+  private static toViolation(error: ErrorObject): ContractViolation {
+    const segments = error.instancePath.split('/').slice(1)
+      .map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+    if (error.keyword === 'required') {
+      segments.push(error.params.missingProperty);
+      return { field: this.toFieldPath(segments), message: 'is missing' };
+    }
+    return { field: this.toFieldPath(segments), message: error.message || 'is invalid' };
+  }
+
+  private static toFieldPath(segments: string[]): string {
+    return segments.reduce((field, segment) => /^\d+$/.test(segment)
+      ? `${field}[${segment}]`
+      : field ? `${field}.${segment}` : segment, '');
+  }
+}
@@ -0,0 +1,49 @@
+import { LintRule, LintSeverity } from '../utils/api/spec-linter';
+import { toJsonPointer } from '../utils/api/spec-source-map';
+
+// Project Lint Rules - team rules run by the pre-import lint gate on top of the built-in rules
+
+/**
+ * Long summaries are cut off in the API reference navigation
+ */
+const MAX_SUMMARY_LENGTH = 80;
+
+export const PROJECT_LINT_RULES: LintRule[] = [
+  {
+    id: 'd360-summary-length',
+    description: `Operation summaries should fit the navigation (${MAX_SUMMARY_LENGTH} characters)`,
+    severity: LintSeverity.WARNING,
+    check({ parser, report }) {
+      for (const { path, method, operation } of parser.getOperations()) {
+        if (operation.summary && operation.summary.length > MAX_SUMMARY_LENGTH) {
+          report({
+            message: `Summary of ${method.toUpperCase()} ${path} is ${operation.summary.length} characters long`,
+            pointer: toJsonPointer('paths', path, method, 'summary'),
+            path,
+            method
+          });
+        }
+      }
+    }
+  },
+  {
+    id: 'd360-declared-tags',
+    description: 'Operation tags should be declared in the top-level tags list so their categories get a description',
+    severity: LintSeverity.INFO,
+    check({ parser, report }) {
+      const declared = new Set(parser.getTags().map(tag => tag.name));
+      for (const { path, method, operation } of parser.getOperations()) {
+        (operation.tags || []).forEach((tag, index) => {
+          if (!declared.has(tag)) {
+            report({
+              message: `Tag '${tag}' of ${method.toUpperCase()} ${path} is not declared in the top-level tags`,
+              pointer: toJsonPointer('paths', path, method, 'tags', String(index)),
+              path,
+              method
+            });
+          }
+        });
+      }
+    }
+  }
+];
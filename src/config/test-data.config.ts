@@ -1,3 +1,5 @@
+import { ApiOperation, HttpMethod, SchemaObject, SecurityScheme } from '../utils/api/openapi-model';
+
 // Test Data Configuration and Constants
 export const TEST_DATA_CONFIG = {
   // API spec file from environment variable with fallback
@@ -29,7 +31,10 @@ export interface TestDataInterface {
     description?: string; 
   }>;
   endpointPaths: string[];
-  endpoints: Array<{ path: string; methods: string[] }>;
+  endpoints: Array<{ path: string; methods: HttpMethod[] }>;
+  operations: ApiOperation[];
+  schemas: { [name: string]: SchemaObject };
+  securitySchemes: { [name: string]: SecurityScheme };
 }
 
 // Test Configuration Constants - Now loaded from environment variables
@@ -0,0 +1,447 @@
+import * as crypto from 'crypto';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { ApiSpecParserFactory } from '../utils/api/api-spec-parser';
+import { ConfigManager } from '../utils/config/config-manager';
+import { loggers } from '../utils/logging/logger-factory';
+
+/**
+ * Options interface for Document360MockServer configuration
+ */
+export interface Document360MockServerOptions {
+  // 0 picks a free port
+  port?: number;
+  // API definitions a trial project may hold at once
+  trialApiLimit?: number;
+  username?: string;
+  password?: string;
+  projectId?: string;
+  projectVersionId?: string;
+  maxUploadBytes?: number;
+}
+
+/**
+ * A spec file uploaded with upload-spec-file
+ */
+export interface MockUploadedFile {
+  fileUrl: string;
+  fileName: string;
+  content: string;
+  uploadedAt: string;
+}
+
+/**
+ * An API definition held by the mock server
+ */
+export interface MockApiDefinition {
+  apiDefinitionId: string;
+  projectId: string;
+  projectDocumentVersionId: string;
+  rootCategoryId: string;
+  title: string;
+  fileUrl: string;
+  categoriesCreated: number;
+  articlesCreated: number;
+  isPublished: boolean;
+  createdAt: string;
+}
+
+interface MockRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  headers: http.IncomingHttpHeaders;
+  body: Buffer;
+}
+
+interface MockResponse {
+  status: number;
+  body: any;
+  contentType?: string;
+}
+
+const DEFAULT_MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+const TOKEN_LIFETIME_SECONDS = 3600;
+
+// Permissions of the mock user: everything the seeder and the API factory do
+const MOCK_USER_PERMISSIONS = ['apidefinitions.read', 'apidefinitions.create', 'apidefinitions.publish', 'apidefinitions.delete', 'files.upload'];
+
+/**
+ * Local stand-in for the Document360 portal and identity endpoints used by the API factory and seeder
+ * Keeps uploads, API definitions and tokens in memory and enforces the portal rules the framework runs into:
+ * bearer tokens on /api/v2, readable spec files, the upload size limit and the trial limit of 3 API definitions
+ */
+export class Document360MockServer {
+  private server: http.Server | null = null;
+  private baseUrl: string = '';
+  private options: Required<Document360MockServerOptions>;
+  private uploads: Map<string, MockUploadedFile> = new Map();
+  private apiDefinitions: Map<string, MockApiDefinition> = new Map();
+  private accessTokens: Set<string> = new Set();
+  private refreshTokens: Set<string> = new Set();
+
+  constructor(options: Document360MockServerOptions = {}) {
+    const configManager = ConfigManager.getInstance();
+    this.options = {
+      port: options.port ?? configManager.get<number>('MOCK_SERVER_PORT'),
+      trialApiLimit: options.trialApiLimit ?? configManager.get<number>('MOCK_SERVER_TRIAL_API_LIMIT'),
+      username: options.username ?? configManager.get<string>('USERNAME'),
+      password: options.password ?? configManager.get<string>('PASSWORD'),
+      projectId: options.projectId ?? configManager.get<string>('PROJECT_ID'),
+      projectVersionId: options.projectVersionId ?? configManager.get<string>('PROJECT_VERSION_ID'),
+      maxUploadBytes: options.maxUploadBytes ?? DEFAULT_MAX_UPLOAD_BYTES
+    };
+  }
+
+  /**
+   * Start listening on localhost and return the base URL
+   */
+  async start(): Promise<string> {
+    if (this.server) {
+      return this.baseUrl;
+    }
+
+    const server = http.createServer((request, response) => {
+      // Errors past the routes (reading the body, writing the response) still get an answer
+      this.handle(request, response).catch(error => {
+        loggers.setup.error(`❌ Mock server failed on ${request.method} ${request.url}:`, error);
+        if (!response.headersSent) {
+          response.writeHead(500, { 'content-type': 'application/json; charset=utf-8' });
+        }
+        response.end(JSON.stringify(this.failure(500, error instanceof Error ? error.message : String(error)).body));
+      });
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port, '127.0.0.1', () => resolve());
+    });
+
+    this.server = server;
+    this.baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    loggers.setup.info(`🧪 Document360 mock server listening on ${this.baseUrl}`);
+    return this.baseUrl;
+  }
+
+  /**
+   * Stop the server; state is kept until reset
+   */
+  async stop(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+
+    const server = this.server;
+    this.server = null;
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    loggers.setup.info('🧪 Document360 mock server stopped');
+  }
+
+  /**
+   * Get the base URL (empty until started)
+   */
+  getBaseUrl(): string {
+    return this.baseUrl;
+  }
+
+  /**
+   * Forget all uploads, API definitions and tokens
+   */
+  reset(): void {
+    this.uploads.clear();
+    this.apiDefinitions.clear();
+    this.accessTokens.clear();
+    this.refreshTokens.clear();
+  }
+
+  /**
+   * Get the API definitions currently held
+   */
+  getApiDefinitions(): MockApiDefinition[] {
+    return [...this.apiDefinitions.values()].map(definition => ({ ...definition }));
+  }
+
+  /**
+   * Issue an access token directly, as the password grant would
+   */
+  issueAccessToken(): string {
+    return this.issueTokens().access_token;
+  }
+
+  private async handle(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of request) {
+      chunks.push(chunk as Buffer);
+    }
+
+    const url = new URL(request.url || '/', this.baseUrl || 'http://127.0.0.1');
+    const mockRequest: MockRequest = {
+      method: (request.method || 'GET').toUpperCase(),
+      path: url.pathname.replace(/\/+$/, '') || '/',
+      query: url.searchParams,
+      headers: request.headers,
+      body: Buffer.concat(chunks)
+    };
+
+    let result: MockResponse;
+    try {
+      result = this.route(mockRequest);
+    } catch (error) {
+      loggers.setup.error(`❌ Mock server failed on ${mockRequest.method} ${mockRequest.path}:`, error);
+      result = this.failure(500, error instanceof Error ? error.message : String(error));
+    }
+
+    loggers.setup.debug(`🧪 ${mockRequest.method} ${mockRequest.path} - Status: ${result.status}`);
+    const body = Buffer.isBuffer(result.body) || typeof result.body === 'string' ? result.body : JSON.stringify(result.body);
+    response.writeHead(result.status, {
+      'content-type': result.contentType || 'application/json; charset=utf-8',
+      'request-id': crypto.randomUUID()
+    });
+    response.end(mockRequest.method === 'HEAD' ? undefined : body);
+  }
+
+  private route(request: MockRequest): MockResponse {
+    const { method, path } = request;
+
+    if (method === 'POST' && path === '/connect/token') {
+      return this.token(request);
+    }
+    if ((method === 'GET' || method === 'HEAD') && path.startsWith('/cdn/')) {
+      return this.downloadFile(path);
+    }
+    if (!path.startsWith('/api/v2/')) {
+      return this.failure(404, `No route for ${method} ${path}`);
+    }
+    if (!this.isAuthorized(request)) {
+      return this.failure(401, 'Unauthorized');
+    }
+
+    if (method === 'GET' && path === '/api/v2/user/profile') {
+      return this.success({
+        userId: 'mock-user',
+        emailId: this.options.username,
+        firstName: 'Mock',
+        lastName: 'User',
+        projectId: this.options.projectId
+      });
+    }
+    if (method === 'GET' && path === '/api/v2/user/permissions') {
+      return this.success({ userId: 'mock-user', permissions: MOCK_USER_PERMISSIONS });
+    }
+    if (method === 'POST' && path === '/api/v2/auth/logout') {
+      return this.logout(request);
+    }
+    if (method === 'POST' && path === '/api/v2/apidefinitions/upload-spec-file') {
+      return this.uploadSpecFile(request);
+    }
+    if (method === 'POST' && path === '/api/v2/apidefinitions/publish-articles') {
+      return this.publishArticles(request);
+    }
+    if (method === 'POST' && path === '/api/v2/apidefinitions/bulkdelete') {
+      return this.bulkDelete(request);
+    }
+    if (method === 'POST' && path === '/api/v2/apidefinitions') {
+      return this.createApiDefinition(request);
+    }
+    if (method === 'GET' && path === '/api/v2/apidefinitions') {
+      return this.success(this.getApiDefinitions());
+    }
+
+    const definitionMatch = /^\/api\/v2\/apidefinitions\/([^/]+)$/.exec(path);
+    if (definitionMatch && (method === 'GET' || method === 'DELETE')) {
+      const definition = this.apiDefinitions.get(definitionMatch[1]);
+      if (!definition) {
+        return this.failure(404, `API definition ${definitionMatch[1]} not found`);
+      }
+      if (method === 'DELETE') {
+        this.apiDefinitions.delete(definition.apiDefinitionId);
+      }
+      return this.success(method === 'GET' ? definition : true);
+    }
+
+    return this.failure(404, `No route for ${method} ${path}`);
+  }
+
+  /**
+   * Password, refresh token and client credentials grants, answered like the identity server (no success envelope)
+   */
+  private token(request: MockRequest): MockResponse {
+    const fields = this.readFields(request);
+    const grantType = fields.grant_type;
+
+    if (grantType === 'password' && (fields.username !== this.options.username || fields.password !== this.options.password)) {
+      return { status: 400, body: { error: 'invalid_grant', error_description: 'Invalid username or password' } };
+    }
+    if (grantType === 'refresh_token' && !this.refreshTokens.delete(fields.refresh_token)) {
+      return { status: 400, body: { error: 'invalid_grant', error_description: 'Invalid refresh token' } };
+    }
+    if (!['password', 'refresh_token', 'client_credentials'].includes(grantType)) {
+      return { status: 400, body: { error: 'unsupported_grant_type' } };
+    }
+
+    return { status: 200, body: this.issueTokens() };
+  }
+
+  /**
+   * Revoke the bearer token of the request (only authorized requests reach this route)
+   */
+  private logout(request: MockRequest): MockResponse {
+    this.accessTokens.delete(this.getBearerToken(request)!);
+    return this.success(true);
+  }
+
+  private uploadSpecFile(request: MockRequest): MockResponse {
+    const file = this.readMultipart(request).find(part => part.fileName);
+    if (!file) {
+      return this.failure(400, 'No spec file in the request');
+    }
+    if (file.content.length > this.options.maxUploadBytes) {
+      return this.failure(413, `File size exceeds the upload limit of ${this.options.maxUploadBytes} bytes`);
+    }
+
+    let content: string;
+    try {
+      content = new TextDecoder('utf-8', { fatal: true }).decode(file.content);
+    } catch {
+      return this.failure(400, `${file.fileName} is not valid UTF-8`);
+    }
+
+    const fileUrl = `${this.baseUrl}/cdn/${crypto.randomUUID()}/${encodeURIComponent(file.fileName!)}`;
+    this.uploads.set(fileUrl, { fileUrl, fileName: file.fileName!, content, uploadedAt: new Date().toISOString() });
+    return this.success({ fileUrl, fileName: file.fileName, fileSize: file.content.length });
+  }
+
+  private createApiDefinition(request: MockRequest): MockResponse {
+    const fields = Object.fromEntries(this.readMultipart(request).map(part => [part.name, part.content.toString('utf8')]));
+    const upload = this.uploads.get(fields.url);
+    if (!upload) {
+      return this.failure(400, `Unknown spec file url: ${fields.url}`);
+    }
+
+    if (this.apiDefinitions.size >= this.options.trialApiLimit) {
+      return this.failure(400, `This trial project already has ${this.options.trialApiLimit} API definitions, upgrade your plan to add more`);
+    }
+
+    let parsed: { title: string; categories: number; articles: number };
+    try {
+      const parser = ApiSpecParserFactory.createFromContent(upload.content);
+      parsed = { title: parser.getApiTitle(), categories: parser.getTags().length, articles: parser.getOperations().length };
+    } catch (error) {
+      return this.failure(400, `Invalid API definition: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const definition: MockApiDefinition = {
+      apiDefinitionId: crypto.randomUUID(),
+      projectId: this.options.projectId,
+      projectDocumentVersionId: fields.projectVersionId || this.options.projectVersionId,
+      rootCategoryId: crypto.randomUUID(),
+      title: parsed.title,
+      fileUrl: upload.fileUrl,
+      // The root category of the API plus one per tag
+      categoriesCreated: parsed.categories + 1,
+      articlesCreated: parsed.articles,
+      isPublished: false,
+      createdAt: new Date().toISOString()
+    };
+    this.apiDefinitions.set(definition.apiDefinitionId, definition);
+
+    return this.success({
+      isSuccess: true,
+      projectId: definition.projectId,
+      projectDocumentVersionId: definition.projectDocumentVersionId,
+      rootCategoryId: definition.rootCategoryId,
+      categoriesCreated: definition.categoriesCreated,
+      articlesCreated: definition.articlesCreated,
+      apiDefinitionsCount: this.apiDefinitions.size,
+      apiDefinitionId: definition.apiDefinitionId,
+      isApiDefinitionImported: fields.isApiDefinitionImported === 'true'
+    });
+  }
+
+  private publishArticles(request: MockRequest): MockResponse {
+    const { apiDefinitionId } = this.readFields(request);
+    const definition = this.apiDefinitions.get(apiDefinitionId);
+    if (!definition) {
+      return this.failure(404, `API definition ${apiDefinitionId} not found`);
+    }
+
+    definition.isPublished = true;
+    return this.success(true);
+  }
+
+  private bulkDelete(request: MockRequest): MockResponse {
+    const { apiDefinitionList } = this.readFields(request);
+    if (!Array.isArray(apiDefinitionList) || apiDefinitionList.length === 0) {
+      return this.failure(400, 'apiDefinitionList is required');
+    }
+
+    // Ids that are already gone are skipped, cleanup may run after a test deleted its own API
+    const deletedCount = apiDefinitionList.filter((id: string) => this.apiDefinitions.delete(id)).length;
+    return this.success({ deletedCount });
+  }
+
+  private downloadFile(path: string): MockResponse {
+    const upload = [...this.uploads.values()].find(file => new URL(file.fileUrl).pathname === path);
+    return upload
+      ? { status: 200, body: upload.content, contentType: 'application/octet-stream' }
+      : { status: 404, body: 'Not found', contentType: 'text/plain' };
+  }
+
+  private isAuthorized(request: MockRequest): boolean {
+    const token = this.getBearerToken(request);
+    return !!token && this.accessTokens.has(token);
+  }
+
+  private getBearerToken(request: MockRequest): string | undefined {
+    return /^Bearer (.+)$/.exec(request.headers.authorization || '')?.[1];
+  }
+
+  private issueTokens(): { access_token: string; refresh_token: string; expires_in: number; token_type: string; scope: string } {
+    const accessToken = `mock-access-${crypto.randomBytes(24).toString('hex')}`;
+    const refreshToken = `mock-refresh-${crypto.randomBytes(24).toString('hex')}`;
+    this.accessTokens.add(accessToken);
+    this.refreshTokens.add(refreshToken);
+    return { access_token: accessToken, refresh_token: refreshToken, expires_in: TOKEN_LIFETIME_SECONDS, token_type: 'Bearer', scope: 'openid profile' };
+  }
+
+  /**
+   * Read a JSON or form encoded body (the API factory sends JSON even with a form content type)
+   */
+  private readFields(request: MockRequest): Record<string, any> {
+    const text = request.body.toString('utf8');
+    try {
+      const parsed = JSON.parse(text);
+      return typeof parsed === 'string' ? JSON.parse(parsed) : parsed;
+    } catch {
+      return Object.fromEntries(new URLSearchParams(text));
+    }
+  }
+
+  private readMultipart(request: MockRequest): Array<{ name: string; fileName?: string; content: Buffer }> {
+    const boundary = /boundary=(?:"([^"]+)"|([^;]+))/i.exec(request.headers['content-type'] || '');
+    if (!boundary) {
+      return [];
+    }
+
+    const delimiter = `--${boundary[1] || boundary[2]}`;
+    return request.body.toString('binary').split(delimiter).slice(1)
+      .filter(part => !part.startsWith('--'))
+      .map(part => {
+        const separator = part.indexOf('\r\n\r\n');
+        const headers = part.substring(0, separator);
+        const content = part.substring(separator + 4).replace(/\r\n$/, '');
+        return {
+          name: /name="([^"]*)"/.exec(headers)?.[1] || '',
+          fileName: /filename="([^"]*)"/.exec(headers)?.[1],
+          content: Buffer.from(content, 'binary')
+        };
+      });
+  }
+
+  private success(result: any): MockResponse {
+    return { status: 200, body: { success: true, result, errors: [] } };
+  }
+
+  private failure(status: number, message: string): MockResponse {
+    return { status, body: { success: false, result: null, errors: [message] } };
+  }
+}
@@ -1,5 +1,6 @@
 import { Locator, Page } from "@playwright/test";
 import { UIActions } from "../../commons/ui-actions";
+import { SpecBundler } from "../../utils/api/spec-bundler";
 
 export class NewApiCreationModal extends UIActions {
 
@@ -39,6 +40,20 @@ export class NewApiCreationModal extends UIActions {
     await this.uploadApiDefinitionButton.click();
   }
 
+  // Upload a spec file from the device; specs split across files are bundled into one temp file first
+  async uploadSpecFile(filePath: string) {
+    if (!SpecBundler.hasExternalRefs(filePath)) {
+      await this.uploadFromMyDeviceButton.setInputFiles(filePath);
+      return;
+    }
+    const bundledPath = new SpecBundler().writeBundle(filePath);
+    try {
+      await this.uploadFromMyDeviceButton.setInputFiles(bundledPath);
+    } finally {
+      SpecBundler.removeBundle(bundledPath);
+    }
+  }
+
   async clickOnNewApiReferenceButton() {
     await this.newApiReferenceButton.click();
   }
@@ -2,6 +2,13 @@ import { Locator, Page, expect } from '@playwright/test';
 import { UIActions } from '../../commons/ui-actions';
 import { ToastMessage } from '../components/toast-message.component';
 import { escapeTextForSelector, createSafeTextSelector, createMultipleSelectors } from '../../commons/locator-utils';
+import { SpecChangeset } from '../../utils/api/spec-diff';
+import { ExampleGenerator } from '../../utils/api/example-generator';
+import { toJsonPointer } from '../../utils/api/spec-source-map';
+import { ApiSpecParser } from '../../utils/api/api-spec-parser';
+import { ApiOperation, ContactObject, LicenseObject, Parameter, SchemaVariant, SecurityScheme, ServerObject } from '../../utils/api/openapi-model';
+import { TestDataInterface } from '../../config/test-data.config';
+import { loggers } from '../../utils/logging/logger-factory';
 
 export class ApiDocPage extends UIActions {
 
@@ -211,6 +218,45 @@ export class ApiDocPage extends UIActions {
         return this.page.locator(`.accordion-item:has(.api-code-title:has-text("${code}")) .api-schema-property:has(.name:has-text("${propertyName}"))`);
     }
 
+    getResponseSchemaVariantOption(code: string, variantName: string) {
+        return this.page.locator(`.accordion-item:has(.api-code-title:has-text("${code}")) :is(.schema-variant-tab, [role="tab"], .dropdown-item):has-text("${variantName}")`).first();
+    }
+
+    getVisibleResponseSchemaProperty(code: string, propertyName: string) {
+        // Properties shared by several variants are rendered once per variant, only the selected one is visible
+        return this.getResponseSchemaProperty(code, propertyName).filter({ visible: true }).first();
+    }
+
+    getResponseCodeSample(code: string) {
+        return this.page.locator(`.api-response-sample:has(.api-code-title:has-text("${code}")) pre, .accordion-item:has(.api-code-title:has-text("${code}")) .code-sample pre`).first();
+    }
+
+    getRequestCodeSample() {
+        return this.page.locator('.api-request-sample pre, .request-body-sample pre').first();
+    }
+
+    getCodeSampleTab(label: string) {
+        return this.page.locator(`.api-request-sample .nav-link:has-text("${label}"), .api-request-sample button:has-text("${label}")`).first();
+    }
+
+    getApiLogo(url: string) {
+        return this.page.locator(`img[src="${url}"]`).first();
+    }
+
+    /**
+     * Category folder an operation is listed under: its first tag, the first path segment for untagged operations
+     */
+    getOperationCategory(path: string, tags?: string[]): string | undefined {
+        return tags?.[0] || path.split('/')[1] || undefined;
+    }
+
+    /**
+     * Title of an operation in the category tree: its summary, else its operationId, else its path
+     */
+    getOperationLabel(path: string, operation: { summary?: string; operationId?: string }): string {
+        return operation.summary || operation.operationId || path;
+    }
+
     async expandCategoryFolder(categoryName: string) {
         const categoryFolder = this.getCategoryFolder(categoryName);
         if (await categoryFolder.isVisible()) {
@@ -275,11 +321,11 @@ export class ApiDocPage extends UIActions {
         }
     }
 
-    async validateSecuritySection(apiSpecParser: any, endpoint: any, method: string): Promise<boolean> {
+    async validateSecuritySection(apiSpecParser: ApiSpecParser, apiOperation: ApiOperation): Promise<boolean> {
         const securitySection = this.getSecuritySection();
         if (await securitySection.isVisible()) {
             
-            const endpointSecurity = apiSpecParser.getEndpointSecurity(endpoint.path, method);
+            const endpointSecurity = apiSpecParser.getEndpointSecurity(apiOperation.path, apiOperation.method);
             const securitySchemes = apiSpecParser.getSecuritySchemes();
             
             if (endpointSecurity.length > 0) {
@@ -303,7 +349,7 @@ export class ApiDocPage extends UIActions {
         }
     }
 
-    private async validateSecurityScheme(schemeName: string, schemeInfo: any, scopes: any): Promise<void> {
+    private async validateSecurityScheme(schemeName: string, schemeInfo: SecurityScheme, scopes: string[]): Promise<void> {
         
         if (schemeInfo.type === 'oauth2') {
             await this.validateOAuthSecurity(schemeName, schemeInfo, scopes);
@@ -314,7 +360,7 @@ export class ApiDocPage extends UIActions {
         }
     }
 
-    private async validateOAuthSecurity(schemeName: string, schemeInfo: any, scopes: any[]): Promise<void> {
+    private async validateOAuthSecurity(schemeName: string, schemeInfo: SecurityScheme, scopes: string[]): Promise<void> {
         // Validate OAuth security type
         const oauthType = this.getOAuthSecurityType();
         if (await oauthType.isVisible()) {
@@ -343,7 +389,7 @@ export class ApiDocPage extends UIActions {
         }
     }
 
-    private async validateApiKeySecurity(schemeName: string, schemeInfo: any): Promise<void> {
+    private async validateApiKeySecurity(schemeName: string, schemeInfo: SecurityScheme): Promise<void> {
         // Validate API Key security type
         const apiKeyType = this.getApiKeySecurityType();
         if (await apiKeyType.isVisible()) {
@@ -354,7 +400,7 @@ export class ApiDocPage extends UIActions {
         const apiKeyLocation = this.getApiKeyLocation();
         if (await apiKeyLocation.isVisible()) {
             const displayedLocation = await apiKeyLocation.textContent();
-            if (displayedLocation && displayedLocation.includes(schemeInfo.in)) {
+            if (displayedLocation && schemeInfo.in && displayedLocation.includes(schemeInfo.in)) {
             } else {
             }
         }
@@ -363,7 +409,7 @@ export class ApiDocPage extends UIActions {
         const apiKeyName = this.getApiKeyName();
         if (await apiKeyName.isVisible()) {
             const displayedName = await apiKeyName.textContent();
-            if (displayedName && displayedName.includes(schemeInfo.name)) {
+            if (displayedName && schemeInfo.name && displayedName.includes(schemeInfo.name)) {
             } else {
             }
         }
@@ -380,11 +426,11 @@ export class ApiDocPage extends UIActions {
         }
     }
 
-    private async validateHttpSecurity(schemeName: string, schemeInfo: any): Promise<void> {
+    private async validateHttpSecurity(schemeName: string, schemeInfo: SecurityScheme): Promise<void> {
     }
 
-    async validateParametersSection(apiSpecParser: any, endpoint: any, method: string): Promise<boolean> {
-        const parameters = apiSpecParser.getEndpointParameters(endpoint.path, method);
+    async validateParametersSection(apiSpecParser: ApiSpecParser, apiOperation: ApiOperation): Promise<boolean> {
+        const parameters = apiSpecParser.getEndpointParameters(apiOperation.path, apiOperation.method);
         if (parameters.length > 0) {
             const paramSection = this.getParametersSection();
             if (await paramSection.isVisible()) {
@@ -399,15 +445,15 @@ export class ApiDocPage extends UIActions {
         return false;
     }
 
-    async validateResponsesSection(apiSpecParser: any, endpoint: any, method: string): Promise<boolean> {
-        const responses = apiSpecParser.getEndpointResponses(endpoint.path, method);
+    async validateResponsesSection(apiSpecParser: ApiSpecParser, apiOperation: ApiOperation): Promise<boolean> {
+        const responses = apiSpecParser.getEndpointResponses(apiOperation.path, apiOperation.method);
         const responseKeys = Object.keys(responses);
         if (responseKeys.length > 0) {
             const responsesSection = this.getResponsesSection();
             if (await responsesSection.isVisible()) {
                 
                 for (const responseCode of responseKeys.slice(0, 2)) { // Check first 2 responses
-                    await this.validateSingleResponse(apiSpecParser, endpoint, method, responseCode);
+                    await this.validateSingleResponse(apiSpecParser, apiOperation, responseCode);
                 }
                 return true;
             }
@@ -419,7 +465,7 @@ export class ApiDocPage extends UIActions {
     /**
      * Validate complete introduction section - comprehensive introduction validation
      */
-    async validateCompleteIntroductionSection(testData: any): Promise<void> {
+    async validateCompleteIntroductionSection(testData: TestDataInterface): Promise<void> {
         
         // Navigate to introduction section
         await this.clickOnIntroduction();
@@ -457,21 +503,219 @@ export class ApiDocPage extends UIActions {
 
     /**
      * Validate complete API documentation display - comprehensive endpoint validation
+     * Every category is expanded; the pages of its operations are only validated with validateOperations,
+     * which is opt-in until the Category 2 suite has been run with it against the portal
      */
-    async validateCompleteApiDocumentation(apiSpecParser: any, testData: any, page: any): Promise<void> {
+    async validateCompleteApiDocumentation(apiSpecParser: ApiSpecParser, testData: TestDataInterface, page: Page, options: { validateOperations?: boolean } = {}): Promise<void> {
         
         // Extract categories from endpoint paths
-        const categories = [...new Set(testData.endpointPaths.map((path: string) => path.split('/')[1]).filter(Boolean))];
+        const categories = [...new Set(testData.endpointPaths.map(path => path.split('/')[1]).filter(Boolean))];
         
         // Validate each category and its operations
         for (const category of categories) {
-            await this.validateCategoryOperations(category as string, testData, apiSpecParser, page);
+            await this.validateCategoryOperations(category, apiSpecParser, page, options.validateOperations ?? false);
         }
         
         // Take final screenshot
         await this.takeValidationScreenshot('complete-api-documentation');
     }
 
+    /**
+     * Re-validate only the operations touched by a re-import - changed/added operations are validated
+     * against the updated spec, removed operations must no longer be listed in their category
+     */
+    async validateChangedOperations(apiSpecParser: ApiSpecParser, changeset: SpecChangeset, page: Page): Promise<void> {
+        
+        for (const operation of changeset.affectedOperations) {
+            const category = this.getOperationCategory(operation.path, operation.tags);
+            if (category) {
+                await this.expandCategoryFolder(category);
+            }
+            
+            if (operation.removed) {
+                await expect(this.getOperationLink(this.getOperationLabel(operation.path, operation))).toHaveCount(0);
+            } else {
+                const changedOperation = apiSpecParser.getOperation(operation.path, operation.method);
+                if (changedOperation) {
+                    await this.validateSingleOperation({ ...operation, operation: changedOperation }, apiSpecParser, page);
+                }
+            }
+        }
+        
+        // Take final screenshot
+        await this.takeValidationScreenshot('changed-operations-validation');
+    }
+
+    /**
+     * Validate that the Document360 vendor extensions of the specification render as intended:
+     * hidden operations are left out of the category tree, x-codeSamples show up as request samples
+     * and the x-logo image is displayed
+     */
+    async validateVendorExtensions(apiSpecParser: ApiSpecParser, page: Page): Promise<void> {
+        
+        // 1. Validate hidden operations are not listed
+        await this.validateHiddenOperations(apiSpecParser);
+        
+        // 2. Validate code samples of the visible operations
+        for (const apiOperation of apiSpecParser.getOperations()) {
+            const summary = apiOperation.operation.summary;
+            if (!summary || apiSpecParser.isOperationHidden(apiOperation.path, apiOperation.method)) {
+                continue;
+            }
+            if (apiSpecParser.getCodeSamples(apiOperation.path, apiOperation.method).length > 0 && await this.validateOperationInCategory(summary)) {
+                await this.navigateToOperationDetails(summary, page);
+                await this.validateCodeSampleExtensions(apiSpecParser, apiOperation);
+            }
+        }
+        
+        // 3. Validate the logo
+        await this.validateLogoExtension(apiSpecParser);
+        
+        // Take final screenshot
+        await this.takeValidationScreenshot('vendor-extensions-validation');
+    }
+
+    /**
+     * Validate the variant selectors of every polymorphic response schema (oneOf/anyOf or discriminator mapping)
+     * Returns the number of responses whose variants were validated
+     */
+    async validatePolymorphicResponses(apiSpecParser: ApiSpecParser, page: Page): Promise<number> {
+        let validatedResponses = 0;
+        
+        for (const apiOperation of apiSpecParser.getOperations()) {
+            const { path, method, operation } = apiOperation;
+            const polymorphicResponses = Object.keys(apiSpecParser.getEndpointResponses(path, method))
+                .map(responseCode => ({ responseCode, mediaType: this.getResponseSchemaMediaType(apiSpecParser, apiOperation, responseCode) }))
+                .filter(({ responseCode, mediaType }) => {
+                    const responseSchema = apiSpecParser.getResponseSchema(path, method, responseCode, mediaType);
+                    return apiSpecParser.getSchemaVariants(responseSchema.type === 'array' ? responseSchema.items : responseSchema).length > 0;
+                });
+            if (polymorphicResponses.length === 0) {
+                continue;
+            }
+            
+            const category = this.getOperationCategory(path, operation.tags);
+            if (category) {
+                await this.expandCategoryFolder(category);
+            }
+            const label = this.getOperationLabel(path, operation);
+            await expect(this.getOperationLink(label), this.expectedFrom(apiSpecParser, 'paths', path, method)).toBeVisible();
+            await this.navigateToOperationDetails(label, page);
+            
+            for (const { responseCode, mediaType } of polymorphicResponses) {
+                await this.validateResponseSchemaVariants(apiSpecParser, apiOperation, responseCode, mediaType);
+                validatedResponses++;
+            }
+        }
+        
+        // Take final screenshot
+        await this.takeValidationScreenshot('polymorphic-responses-validation');
+        return validatedResponses;
+    }
+
+    /**
+     * Validate that operations marked x-hidden or x-internal are absent from their category
+     */
+    async validateHiddenOperations(apiSpecParser: ApiSpecParser): Promise<void> {
+        const expandedCategories = new Set<string>();
+        
+        for (const { path, method, operation } of apiSpecParser.getHiddenOperations()) {
+            const category = this.getOperationCategory(path, operation.tags);
+            if (category && !expandedCategories.has(category)) {
+                await this.expandCategoryFolder(category);
+                expandedCategories.add(category);
+            }
+            
+            await expect(this.getOperationLink(this.getOperationLabel(path, operation)), this.expectedFrom(apiSpecParser, 'paths', path, method))
+                .toHaveCount(0);
+        }
+    }
+
+    /**
+     * Validate the x-codeSamples of the open operation - each sample has a language tab showing its source
+     * Returns false when the operation declares no code samples
+     */
+    async validateCodeSampleExtensions(apiSpecParser: ApiSpecParser, apiOperation: ApiOperation): Promise<boolean> {
+        const { path, method } = apiOperation;
+        const codeSamples = apiSpecParser.getCodeSamples(path, method);
+        if (codeSamples.length === 0) {
+            return false;
+        }
+        
+        const extensionName = 'x-codeSamples' in apiSpecParser.getOperationExtensions(path, method) ? 'x-codeSamples' : 'x-code-samples';
+        for (const [index, codeSample] of codeSamples.entries()) {
+            const source = this.expectedFrom(apiSpecParser, 'paths', path, method, extensionName, String(index));
+            await this.getCodeSampleTab(codeSample.label || codeSample.lang).click();
+            
+            // Code blocks are re-indented by the highlighter, so only the first line is compared
+            const firstLine = codeSample.source.split('\n').map(line => line.trim()).find(Boolean) || '';
+            await expect(this.getRequestCodeSample(), source).toContainText(firstLine);
+        }
+        return true;
+    }
+
+    /**
+     * Validate the x-logo image of the info object
+     * Returns false when the specification declares no logo
+     */
+    async validateLogoExtension(apiSpecParser: ApiSpecParser): Promise<boolean> {
+        const logo = apiSpecParser.getLogo();
+        if (!logo) {
+            return false;
+        }
+        
+        const logoElement = this.getApiLogo(logo.url);
+        const source = this.expectedFrom(apiSpecParser, 'info', 'x-logo');
+        await expect(logoElement, source).toBeVisible();
+        if (logo.altText) {
+            await expect(logoElement, source).toHaveAttribute('alt', logo.altText);
+        }
+        return true;
+    }
+
+    /**
+     * Measure how long the category tree takes to list the operations of each category, then check every
+     * (non-hidden) operation of the specification is listed. Times are in milliseconds
+     */
+    async measureCategoryTreeRendering(apiSpecParser: ApiSpecParser): Promise<{ categories: number; operations: number; renderTime: number; slowestCategory: string; slowestCategoryTime: number }> {
+        const visibleOperations = apiSpecParser.getOperations()
+            .filter(({ path, method }) => !apiSpecParser.isOperationHidden(path, method))
+            .map(apiOperation => ({
+                ...apiOperation,
+                category: this.getOperationCategory(apiOperation.path, apiOperation.operation.tags),
+                label: this.getOperationLabel(apiOperation.path, apiOperation.operation)
+            }));
+        const categories = [...new Set(visibleOperations.map(({ category }) => category))]
+            .filter((category): category is string => Boolean(category));
+        
+        let renderTime = 0;
+        let slowestCategory = '';
+        let slowestCategoryTime = 0;
+        for (const category of categories) {
+            const categoryOperations = visibleOperations.filter(operation => operation.category === category);
+            const categoryFolder = this.getCategoryFolder(category);
+            await categoryFolder.waitFor({ state: 'visible' });
+            
+            // Time from expanding the category until its last operation is listed
+            const startTime = Date.now();
+            await categoryFolder.click();
+            await this.getOperationLink(categoryOperations[categoryOperations.length - 1].label).waitFor({ state: 'visible' });
+            const categoryTime = Date.now() - startTime;
+            
+            renderTime += categoryTime;
+            if (categoryTime > slowestCategoryTime) {
+                slowestCategory = category;
+                slowestCategoryTime = categoryTime;
+            }
+            
+            for (const { path, method, label } of categoryOperations) {
+                await expect(this.getOperationLink(label), this.expectedFrom(apiSpecParser, 'paths', path, method)).toBeVisible();
+            }
+        }
+        
+        return { categories: categories.length, operations: visibleOperations.length, renderTime, slowestCategory, slowestCategoryTime };
+    }
+
     // Private helper methods for comprehensive validation
 
     private async validateApiTitle(apiTitle: string): Promise<void> {
@@ -506,7 +750,7 @@ export class ApiDocPage extends UIActions {
         }
     }
 
-    private async validateContactInformation(contactInfo?: any): Promise<void> {
+    private async validateContactInformation(contactInfo?: ContactObject): Promise<void> {
         if (contactInfo?.name) {
             await expect(this.contactName).toBeVisible();
             await expect(this.contactName).toContainText(contactInfo.name);
@@ -525,7 +769,7 @@ export class ApiDocPage extends UIActions {
         }
     }
 
-    private async validateLicenseInformation(licenseInfo?: any): Promise<void> {
+    private async validateLicenseInformation(licenseInfo?: LicenseObject): Promise<void> {
         if (licenseInfo?.name) {
             await expect(this.liscenseName).toBeVisible();
             await expect(this.liscenseName).toContainText(licenseInfo.name);
@@ -538,7 +782,7 @@ export class ApiDocPage extends UIActions {
         }
     }
 
-    private async validateServerInformation(servers: any[]): Promise<void> {
+    private async validateServerInformation(servers: ServerObject[]): Promise<void> {
         if (servers.length > 0) {
             
             const maxServers = Math.min(servers.length, 3); // Limit to 3 servers for performance
@@ -559,7 +803,7 @@ export class ApiDocPage extends UIActions {
         }
     }
 
-    private async validateServerVariables(servers: any[]): Promise<void> {
+    private async validateServerVariables(servers: ServerObject[]): Promise<void> {
         const serversWithVariables = servers.filter(server => server.variables && Object.keys(server.variables).length > 0);
         if (serversWithVariables.length > 0) {
             
@@ -571,27 +815,28 @@ export class ApiDocPage extends UIActions {
         }
     }
 
-    private async validateCategoryOperations(category: string, testData: any, apiSpecParser: any, page: any): Promise<void> {
+    private async validateCategoryOperations(category: string, apiSpecParser: ApiSpecParser, page: Page, validateOperations: boolean): Promise<void> {
         if (await this.isCategoryFolderVisible(category)) {
             await this.expandCategoryFolder(category);
+            if (!validateOperations) {
+                return;
+            }
             
-            // Get operations for this category
-            const categoryOperations = testData.endpoints.filter((endpoint: any) => 
-                endpoint.path.startsWith(`/${category}`)
+            // Get operations for this category (hidden operations are not rendered)
+            const categoryOperations = apiSpecParser.getOperations().filter(apiOperation => 
+                apiOperation.path.startsWith(`/${category}`) && !apiSpecParser.isOperationHidden(apiOperation.path, apiOperation.method)
             );
             
             // Validate each operation in the category
-            for (const endpoint of categoryOperations) {
-                for (const method of endpoint.methods) {
-                    await this.validateSingleOperation(endpoint, method, apiSpecParser, page);
-                }
+            for (const apiOperation of categoryOperations) {
+                await this.validateSingleOperation(apiOperation, apiSpecParser, page);
             }
         } else {
         }
     }
 
-    private async validateSingleOperation(endpoint: any, method: string, apiSpecParser: any, page: any): Promise<void> {
-        const summary = apiSpecParser.getEndpointSummary(endpoint.path, method);
+    private async validateSingleOperation(apiOperation: ApiOperation, apiSpecParser: ApiSpecParser, page: Page): Promise<void> {
+        const summary = apiOperation.operation.summary;
         if (!summary) return;
         
         
@@ -605,39 +850,39 @@ export class ApiDocPage extends UIActions {
             await this.navigateToOperationDetails(summary, page);
             
             // 4. Validate operation content
-            await this.validateOperationContent(endpoint, method, apiSpecParser);
+            await this.validateOperationContent(apiOperation, apiSpecParser);
         } else {
         }
     }
 
-    private async navigateToOperationDetails(summary: string, page: any): Promise<void> {
+    private async navigateToOperationDetails(summary: string, page: Page): Promise<void> {
         const operationLink = this.getOperationLink(summary);
         await operationLink.click();
         await page.waitForTimeout(1000); // Wait for page to load
     }
 
-    private async validateOperationContent(endpoint: any, method: string, apiSpecParser: any): Promise<void> {
+    private async validateOperationContent(apiOperation: ApiOperation, apiSpecParser: ApiSpecParser): Promise<void> {
         // Validate endpoint path
-        await this.validateEndpointPath(endpoint.path);
+        await this.validateEndpointPath(apiOperation.path);
         
         // Validate endpoint description
-        const description = apiSpecParser.getEndpointDescription(endpoint.path, method);
+        const description = apiOperation.operation.description;
         if (description) {
             await this.validateEndpointDescriptionContent(description);
         } else {
         }
         
         // Validate security section
-        await this.validateSecuritySection(apiSpecParser, endpoint, method);
+        await this.validateSecuritySection(apiSpecParser, apiOperation);
         
         // Validate parameters section
-        await this.validateParametersSection(apiSpecParser, endpoint, method);
+        await this.validateParametersSection(apiSpecParser, apiOperation);
         
         // Validate responses section
-        await this.validateResponsesSection(apiSpecParser, endpoint, method);
+        await this.validateResponsesSection(apiSpecParser, apiOperation);
     }
 
-    private async validateScopes(scopes: any[]): Promise<void> {
+    private async validateScopes(scopes: string[]): Promise<void> {
         const scopesTitle = this.getScopesTitle();
         if (await scopesTitle.isVisible()) {
             const scopesTitleText = await scopesTitle.textContent();
@@ -657,7 +902,7 @@ export class ApiDocPage extends UIActions {
         }
     }
 
-    private async validateSingleParameter(param: any): Promise<void> {
+    private async validateSingleParameter(param: Parameter): Promise<void> {
         const paramName = param.name;
         
         // Validate parameter name
@@ -674,7 +919,8 @@ export class ApiDocPage extends UIActions {
         const paramTypeElement = this.getParameterType(paramName);
         if (await paramTypeElement.isVisible()) {
             const displayedType = await paramTypeElement.textContent();
-            const expectedType = param.schema?.type || 'unknown';
+            // OpenAPI 3.1 schemas may declare a type array such as [string, null]
+            const expectedType = [param.schema?.type || 'unknown'].flat()[0];
             
             if (displayedType && displayedType.includes(expectedType)) {
             } else {
@@ -694,24 +940,27 @@ export class ApiDocPage extends UIActions {
         }
     }
 
-    private async validateSingleResponse(apiSpecParser: any, endpoint: any, method: string, responseCode: string): Promise<void> {
+    private async validateSingleResponse(apiSpecParser: ApiSpecParser, apiOperation: ApiOperation, responseCode: string): Promise<void> {
+        const { path, method } = apiOperation;
         
-        const responseElement = this.responseCode(endpoint.path, method, responseCode);
+        const responseElement = this.responseCode(path, method, responseCode);
         if (await responseElement.isVisible()) {
             
             // Validate response description
-            const responseDesc = apiSpecParser.getResponseDescription(endpoint.path, method, responseCode);
+            const responseDesc = apiSpecParser.getResponseDescription(path, method, responseCode);
             if (responseDesc) {
                 const descElement = this.getResponseDescription(responseCode);
                 if (await descElement.isVisible()) {
                     const displayedDesc = await descElement.textContent();
-                    if (displayedDesc && displayedDesc.includes(responseDesc)) {
+                    if (!displayedDesc || !displayedDesc.includes(responseDesc)) {
+                        loggers.validation.warn(`Response ${responseCode} description differs, ` +
+                            this.expectedFrom(apiSpecParser, 'paths', path, method, 'responses', responseCode, 'description'));
                     }
                 }
             }
             
             // Validate response headers
-            const responseHeaders = apiSpecParser.getResponseHeaders(endpoint.path, method, responseCode);
+            const responseHeaders = apiSpecParser.getResponseHeaders(path, method, responseCode);
             const headerNames = Object.keys(responseHeaders);
             if (headerNames.length > 0) {
                 const headersContainer = this.getResponseHeaders(responseCode);
@@ -720,25 +969,128 @@ export class ApiDocPage extends UIActions {
             }
             
             // Validate response schema
-            const mediaTypes = apiSpecParser.getResponseMediaTypes(endpoint.path, method, responseCode);
+            const mediaTypes = apiSpecParser.getResponseMediaTypes(path, method, responseCode);
             if (mediaTypes.length > 0) {
                 const schemaContainer = this.getResponseSchemaContainer(responseCode);
                 if (await schemaContainer.isVisible()) {
                     
-                    const defaultMediaType = mediaTypes.includes('application/json') ? 'application/json' : mediaTypes[0];
-                    const responseSchema = apiSpecParser.getResponseSchema(endpoint.path, method, responseCode, defaultMediaType);
+                    const defaultMediaType = this.getResponseSchemaMediaType(apiSpecParser, apiOperation, responseCode);
+                    const responseSchema = apiSpecParser.getResponseSchema(path, method, responseCode, defaultMediaType);
                     
-                    if (responseSchema.type === 'array' && responseSchema.items?.properties) {
-                        const properties = Object.keys(responseSchema.items.properties);
+                    // With a dereferenced parser, object schemas from components expose their properties too
+                    const schemaProperties = apiSpecParser.flattenSchema(responseSchema.type === 'array'
+                        ? responseSchema.items
+                        : responseSchema).properties;
+
+                    if (schemaProperties) {
+                        const properties = Object.keys(schemaProperties);
                         
+                        const propertiesPointer = responseSchema.type === 'array' ? ['items', 'properties'] : ['properties'];
                         for (const propName of properties.slice(0, 3)) {
                             const propElement = this.getResponseSchemaProperty(responseCode, propName);
-                            if (await propElement.isVisible()) {
+                            if (!(await propElement.isVisible())) {
+                                loggers.validation.warn(`Response ${responseCode} property ${propName} is not rendered, ` + this.expectedFrom(apiSpecParser,
+                                    'paths', path, method, 'responses', responseCode, 'content', defaultMediaType, 'schema', ...propertiesPointer, propName));
                             }
                         }
                     }
                 }
+
+            }
+        }
+    }
+
+    /**
+     * Media type whose schema the portal renders for a response: application/json when declared, else the first one
+     */
+    private getResponseSchemaMediaType(apiSpecParser: ApiSpecParser, apiOperation: ApiOperation, responseCode: string): string {
+        const mediaTypes = apiSpecParser.getResponseMediaTypes(apiOperation.path, apiOperation.method, responseCode);
+        return mediaTypes.includes('application/json') ? 'application/json' : mediaTypes[0];
+    }
+
+    /**
+     * Validate the rendered JSON response sample against the example generated from the specification
+     * Opt-in, not part of validateSingleResponse; returns false when no sample is rendered for the response code
+     */
+    async validateResponseCodeSample(apiSpecParser: ApiSpecParser, apiOperation: ApiOperation, responseCode: string): Promise<boolean> {
+        const expected = ExampleGenerator.forParser(apiSpecParser)
+            .generateResponseExample(apiSpecParser, apiOperation.path, apiOperation.method, responseCode);
+        return this.compareRenderedSample(this.getResponseCodeSample(responseCode), expected,
+            this.expectedFrom(apiSpecParser, 'paths', apiOperation.path, apiOperation.method, 'responses', responseCode, 'content', 'application/json'));
+    }
+
+    /**
+     * Select a variant of a polymorphic response schema (oneOf/anyOf or discriminator mapping)
+     * Returns false when the variant selector is not rendered
+     */
+    async selectResponseSchemaVariant(code: string, variant: SchemaVariant): Promise<boolean> {
+        const variantOption = this.getResponseSchemaVariantOption(code, variant.name);
+        if (await variantOption.isVisible()) {
+            await variantOption.click();
+            await this.page.waitForTimeout(500); // Wait for the schema to re-render
+            return true;
+        }
+        return false;
+    }
+
+    /**
+     * Validate each variant of a polymorphic response schema - the variant can be selected and shows its properties
+     * Fails when the schema has variants but the portal renders no selector for them; returns false when it is not polymorphic
+     */
+    async validateResponseSchemaVariants(apiSpecParser: ApiSpecParser, apiOperation: ApiOperation, responseCode: string, mediaType: string = 'application/json'): Promise<boolean> {
+        const { path, method } = apiOperation;
+        const responseSchema = apiSpecParser.getResponseSchema(path, method, responseCode, mediaType);
+        const isArray = responseSchema.type === 'array';
+        const variants = apiSpecParser.getSchemaVariants(isArray ? responseSchema.items : responseSchema);
+        if (variants.length === 0) {
+            return false;
+        }
+        
+        const schemaPointer = ['paths', path, method, 'responses', responseCode, 'content', mediaType, 'schema', ...(isArray ? ['items'] : [])];
+        for (const variant of variants) {
+            const source = this.expectedFrom(apiSpecParser, ...schemaPointer, ...variant.pointer);
+            await expect(this.getResponseSchemaVariantOption(responseCode, variant.name), source).toBeVisible();
+            await this.selectResponseSchemaVariant(responseCode, variant);
+            
+            for (const propName of Object.keys(variant.properties)) {
+                await expect(this.getVisibleResponseSchemaProperty(responseCode, propName), `${source} (${variant.name}.${propName})`).toBeVisible();
             }
         }
+        return true;
+    }
+
+    /**
+     * Validate the rendered JSON request sample against the example generated from the specification
+     * Opt-in like validateResponseCodeSample; returns false when no sample is rendered for the operation
+     */
+    async validateRequestCodeSample(apiSpecParser: ApiSpecParser, apiOperation: ApiOperation): Promise<boolean> {
+        const expected = ExampleGenerator.forParser(apiSpecParser)
+            .generateRequestExample(apiSpecParser, apiOperation.path, apiOperation.method);
+        return this.compareRenderedSample(this.getRequestCodeSample(), expected,
+            this.expectedFrom(apiSpecParser, 'paths', apiOperation.path, apiOperation.method, 'requestBody', 'content', 'application/json'));
+    }
+
+    /**
+     * Assertion message pointing at the spec line an expectation was read from (e.g. "expected from comprehensive-api.yaml:212")
+     */
+    private expectedFrom(apiSpecParser: ApiSpecParser, ...pointerTokens: string[]): string {
+        return `expected from ${apiSpecParser.formatSourceLocation(toJsonPointer(...pointerTokens))}`;
+    }
+
+    private async compareRenderedSample(sampleElement: Locator, expected: any, source: string): Promise<boolean> {
+        if (expected === undefined || !(await sampleElement.isVisible())) {
+            return false;
+        }
+
+        const renderedText = (await sampleElement.textContent()) || '';
+        let rendered: any;
+        try {
+            rendered = JSON.parse(renderedText);
+        } catch {
+            throw new Error(`Rendered code sample is not valid JSON: ${renderedText.substring(0, 200)}`);
+        }
+
+        expect(ExampleGenerator.compareShape(expected, rendered), source).toEqual([]);
+        return true;
     }
 }
\ No newline at end of file
@@ -1,6 +1,16 @@
 import { Locator, Page, expect } from '@playwright/test';
 import { UIActions } from '../../commons/ui-actions';
 import { escapeTextForSelector, createSafeTextSelector } from '../../commons/locator-utils';
+import { ApiSpecParser } from '../../utils/api/api-spec-parser';
+import { ContactObject, EffectiveOperation, LicenseObject, SchemaObject, ServerObject } from '../../utils/api/openapi-model';
+import {
+    CrossFormatReport,
+    RenderedDocDiff,
+    RenderedDocTree,
+    RenderedOperation,
+    RenderedTreeNode
+} from '../../utils/api/rendered-doc-diff';
+import { TestDataInterface } from '../../config/test-data.config';
 
 export class CustomerPortalPage extends UIActions {
 
@@ -85,6 +95,7 @@ export class CustomerPortalPage extends UIActions {
     readonly getParameterByName: (paramName: string) => Locator;
     readonly getResponseByStatusCode: (statusCode: string) => Locator;
     readonly getSchemaPropertyByName: (propertyName: string) => Locator;
+    readonly getBodyParameterByName: (propertyName: string) => Locator;
     readonly getOAuthScopeByName: (scopeName: string) => Locator;
 
     constructor(page: Page) {
@@ -174,6 +185,7 @@ export class CustomerPortalPage extends UIActions {
         this.getParameterByName = (paramName: string) => this.page.locator(`.api-parameter:has(.api-parameter-name:has-text("${paramName}"))`);
         this.getResponseByStatusCode = (statusCode: string) => this.page.locator(`.api-status:has(.api-code:has-text("${statusCode}"))`);
         this.getSchemaPropertyByName = (propertyName: string) => this.page.locator(`.api-schema-property:has(.name:has-text("${propertyName}"))`);
+        this.getBodyParameterByName = (propertyName: string) => this.bodyParametersSection.locator(`.api-schema-property:has(.name:has-text("${propertyName}"))`);
         this.getOAuthScopeByName = (scopeName: string) => this.page.locator(`.scope-element:has(.oauth-value:has-text("${scopeName}"))`);
     }
 
@@ -303,7 +315,7 @@ export class CustomerPortalPage extends UIActions {
     }
 
     // Validation methods - same validation logic as Category 2 but for customer portal
-    async validateCompleteIntroductionSection(testData: any): Promise<void> {
+    async validateCompleteIntroductionSection(testData: TestDataInterface): Promise<void> {
         // Navigate to introduction section
         await this.clickOnIntroduction();
         
@@ -329,16 +341,20 @@ export class CustomerPortalPage extends UIActions {
         await this.takeValidationScreenshot('customer-portal-introduction-validation');
     }
 
-    async validateCompleteApiDocumentation(apiSpecParser: any, testData: any, page: Page): Promise<void> {
+    /**
+     * Every category is expanded; the pages of its operations are only validated with validateOperations,
+     * which is opt-in until the Category 3 suite has been run with it against the portal
+     */
+    async validateCompleteApiDocumentation(apiSpecParser: ApiSpecParser, testData: TestDataInterface, page: Page, options: { validateOperations?: boolean } = {}): Promise<void> {
         // Wait for API documentation section to be visible
         await this.apiDocumentationSection.waitFor({ state: 'visible' });
         
         // Extract categories from endpoint paths
-        const categories = [...new Set(testData.endpointPaths.map((path: string) => path.split('/')[1]).filter(Boolean))];
+        const categories = [...new Set(testData.endpointPaths.map(path => path.split('/')[1]).filter(Boolean))];
         
         // Validate each category and its operations
         for (const category of categories) {
-            await this.validateCategoryOperations(category as string, testData, apiSpecParser, page);
+            await this.validateCategoryOperations(category, apiSpecParser, page, options.validateOperations ?? false);
         }
         
         // Take screenshot for validation
@@ -367,13 +383,39 @@ export class CustomerPortalPage extends UIActions {
     }
 
     // Cross-format consistency validation
-    async validateCrossFormatConsistency(yamlContent: any, jsonContent: any): Promise<boolean> {
-        // Compare title, version, and description
-        const titleMatch = yamlContent.title === jsonContent.title;
-        const versionMatch = yamlContent.version === jsonContent.version;
-        const descriptionMatch = yamlContent.description === jsonContent.description;
-        
-        return titleMatch && versionMatch && descriptionMatch;
+    async validateCrossFormatConsistency(yamlTree: RenderedDocTree, jsonTree: RenderedDocTree): Promise<CrossFormatReport> {
+        const report = RenderedDocDiff.compare(yamlTree, jsonTree, 'yaml', 'json');
+        expect(report.comparedOperations, 'no operation was rendered from both imports').toBeGreaterThan(0);
+        return report;
+    }
+
+    /**
+     * Scrape the rendered documentation of the published API: tree nodes and every operation page
+     * With apiTitle, only the subtree of that API is scraped when the portal lists several APIs
+     */
+    async scrapeDocumentationTree(apiTitle?: string): Promise<RenderedDocTree> {
+        await this.documentationNavigation.first().waitFor({ state: 'visible' });
+        await this.expandAllCategories();
+
+        const nodes = this.selectApiSubtree(await this.getTreeNodes(), apiTitle);
+        const tree: RenderedDocTree = { nodes, operations: [] };
+
+        const baseUrl = this.page.url();
+        for (const node of nodes.filter(treeNode => treeNode.href)) {
+            await this.page.goto(new URL(node.href, baseUrl).toString(), { waitUntil: 'networkidle' });
+
+            const operation = await this.scrapeOperation(node.label);
+            if (operation) {
+                tree.operations.push(operation);
+            } else if (await this.apiTitle.first().isVisible()) {
+                // The introduction article carries the API title and version
+                tree.title = tree.title ?? ((await this.apiTitle.first().textContent()) || '').trim();
+                if (await this.apiVersion.first().isVisible()) {
+                    tree.version = tree.version ?? ((await this.apiVersion.first().textContent()) || '').trim();
+                }
+            }
+        }
+        return tree;
     }
 
     // Quality validation methods
@@ -493,7 +535,7 @@ export class CustomerPortalPage extends UIActions {
         }
     }
 
-    async validateApiParameters(): Promise<void> {
+    async validateApiParameters(effectiveOperation?: EffectiveOperation): Promise<void> {
         
         // Validate query parameters
         if (await this.queryParametersSection.isVisible()) {
@@ -508,11 +550,33 @@ export class CustomerPortalPage extends UIActions {
         }
         
         // Validate body parameters
-        if (await this.bodyParametersSection.isVisible()) {
+        if (effectiveOperation?.requestBody) {
+            await this.validateBodyParameters(effectiveOperation);
+        } else if (await this.bodyParametersSection.isVisible()) {
             const bodyParamCount = await this.bodyParametersSection.locator('.api-schema-property').count();
         }
     }
 
+    /**
+     * Validate the rendered request body against the operation's request body schema
+     * The JSON media type is preferred, as that is the one the portal renders first
+     */
+    async validateBodyParameters(effectiveOperation: EffectiveOperation): Promise<void> {
+        const mediaTypes = effectiveOperation.requestBody?.mediaTypes || [];
+        if (mediaTypes.length === 0) {
+            return;
+        }
+        
+        await expect(this.bodyParametersSection).toBeVisible();
+        
+        const bodyMediaType = mediaTypes.find(media => media.mediaType === 'application/json') || mediaTypes[0];
+        const propertyNames = this.getBodyPropertyNames(bodyMediaType.schema);
+        
+        for (const propertyName of propertyNames.slice(0, 3)) { // Limit to first 3 for performance
+            await expect(this.getBodyParameterByName(propertyName).first()).toBeVisible();
+        }
+    }
+
     async validateApiResponses(): Promise<void> {
         
         if (await this.apiResponseSection.isVisible()) {
@@ -538,7 +602,7 @@ export class CustomerPortalPage extends UIActions {
         }
     }
 
-    async validateCompleteApiEndpoint(expectedMethod: string, expectedPath: string): Promise<void> {
+    async validateCompleteApiEndpoint(expectedMethod: string, expectedPath: string, effectiveOperation?: EffectiveOperation): Promise<void> {
         
         // Wait for API endpoint container to be visible
         await this.apiEndpointContainer.waitFor({ state: 'visible' });
@@ -550,7 +614,7 @@ export class CustomerPortalPage extends UIActions {
         await this.validateApiSecuritySection();
         
         // Validate parameters
-        await this.validateApiParameters();
+        await this.validateApiParameters(effectiveOperation);
         
         // Validate responses
         await this.validateApiResponses();
@@ -588,7 +652,7 @@ export class CustomerPortalPage extends UIActions {
         }
     }
 
-    private async validateContactInformation(contactInfo?: any): Promise<void> {
+    private async validateContactInformation(contactInfo?: ContactObject): Promise<void> {
         if (contactInfo?.name) {
             await expect(this.contactName).toBeVisible();
             await expect(this.contactName).toContainText(contactInfo.name);
@@ -605,7 +669,7 @@ export class CustomerPortalPage extends UIActions {
         }
     }
 
-    private async validateLicenseInformation(licenseInfo?: any): Promise<void> {
+    private async validateLicenseInformation(licenseInfo?: LicenseObject): Promise<void> {
         if (licenseInfo?.name) {
             await expect(this.licenseName).toBeVisible();
             await expect(this.licenseName).toContainText(licenseInfo.name);
@@ -617,7 +681,7 @@ export class CustomerPortalPage extends UIActions {
         }
     }
 
-    private async validateServerInformation(servers: any[]): Promise<void> {
+    private async validateServerInformation(servers: ServerObject[]): Promise<void> {
         if (servers && servers.length > 0) {
             
             const maxServers = Math.min(servers.length, 3); // Limit to 3 servers for performance
@@ -640,33 +704,36 @@ export class CustomerPortalPage extends UIActions {
         }
     }
 
-    private async validateCategoryOperations(category: string, testData: any, apiSpecParser: any, page: Page): Promise<void> {
+    private async validateCategoryOperations(category: string, apiSpecParser: ApiSpecParser, page: Page, validateOperations: boolean): Promise<void> {
         
         // First, try to expand the category if it exists
         await this.expandCategory(category);
         
         // Look for the category in the tree view
         const categoryLink = this.page.locator(`a.data-title[aria-label="${category}"]`);
-        if (await categoryLink.isVisible()) {
+        if (await categoryLink.isVisible() && validateOperations) {
             
             // Get operations for this category
-            const categoryOperations = testData.endpoints.filter((endpoint: any) => 
-                endpoint.path.startsWith(`/${category}`)
+            const categoryPaths = apiSpecParser.getEndpointPaths().filter(path => 
+                path.startsWith(`/${category}`)
             );
             
             
             // Validate each operation in the category
-            for (const endpoint of categoryOperations.slice(0, 2)) { // Limit to first 2 for performance
-                for (const method of endpoint.methods.slice(0, 1)) { // Limit to first method
-                    await this.validateSingleOperation(endpoint, method, apiSpecParser);
+            for (const path of categoryPaths.slice(0, 2)) { // Limit to first 2 for performance
+                const [firstMethod] = apiSpecParser.getEndpointMethods(path); // Limit to first method
+                const effectiveOperation = firstMethod && apiSpecParser.getEffectiveOperation(path, firstMethod);
+                if (effectiveOperation) {
+                    await this.validateSingleOperation(effectiveOperation);
                 }
             }
         } else {
         }
     }
 
-    private async validateSingleOperation(endpoint: any, method: string, apiSpecParser: any): Promise<void> {
-        const summary = apiSpecParser.getEndpointSummary(endpoint.path, method);
+    private async validateSingleOperation(effectiveOperation: EffectiveOperation): Promise<void> {
+        const { path, method, operation } = effectiveOperation;
+        const summary = operation.summary;
         if (!summary) return;
         
         
@@ -687,7 +754,7 @@ export class CustomerPortalPage extends UIActions {
                     if (titleText?.includes(summary)) {
                         
                         // Now validate the complete API endpoint using the new methods
-                        await this.validateCompleteApiEndpoint(method, endpoint.path);
+                        await this.validateCompleteApiEndpoint(method, path, effectiveOperation);
                     }
                 }
                 
@@ -696,4 +763,90 @@ export class CustomerPortalPage extends UIActions {
         } else {
         }
     }
+
+    private async expandAllCategories(): Promise<void> {
+        const collapsedArrow = this.documentationNavigation.first().locator('.tree-arrow i.fa-angle-right').first();
+        // Expanding a category can reveal collapsed sub categories, so expand until none are left
+        for (let expanded = 0; expanded < 200 && await collapsedArrow.isVisible(); expanded++) {
+            await collapsedArrow.click();
+            await this.page.waitForTimeout(300);
+        }
+    }
+
+    private async getTreeNodes(): Promise<RenderedTreeNode[]> {
+        return this.documentationNavigation.first().locator('a.data-title').evaluateAll(links => links.map(link => {
+            let depth = -1;
+            for (let parent = link.parentElement; parent; parent = parent.parentElement) {
+                if (parent.classList.contains('node')) {
+                    depth++;
+                }
+            }
+            return {
+                label: (link.getAttribute('aria-label') || link.textContent || '').trim(),
+                depth: Math.max(depth, 0),
+                href: link.getAttribute('href') || ''
+            };
+        }));
+    }
+
+    private selectApiSubtree(nodes: RenderedTreeNode[], apiTitle?: string): RenderedTreeNode[] {
+        const rootIndex = apiTitle ? nodes.findIndex(node => node.label === apiTitle) : -1;
+        if (rootIndex === -1) {
+            return nodes;
+        }
+
+        const root = nodes[rootIndex];
+        const subtree: RenderedTreeNode[] = [root];
+        for (const node of nodes.slice(rootIndex + 1)) {
+            if (node.depth <= root.depth) {
+                break;
+            }
+            subtree.push(node);
+        }
+        return subtree;
+    }
+
+    /**
+     * Read an operation page; returns null for articles without an HTTP method (introduction, categories)
+     */
+    private async scrapeOperation(title: string): Promise<RenderedOperation | null> {
+        if (!(await this.apiHttpMethod.first().isVisible())) {
+            return null;
+        }
+
+        const textOf = async (locator: Locator): Promise<string | undefined> =>
+            await locator.first().isVisible() ? ((await locator.first().textContent()) || '').trim() : undefined;
+
+        return {
+            title,
+            method: (await textOf(this.apiHttpMethod)) || '',
+            path: (await textOf(this.apiUrl)) || '',
+            description: await textOf(this.apiEndpointDescription),
+            // Parameters are listed in a section per location ("Query parameters", "Path parameters", ...)
+            parameters: await this.page.locator('.api-parameter').evaluateAll(elements => elements.map(element => ({
+                name: element.querySelector('.api-parameter-name')?.textContent?.trim() || '',
+                in: element.closest('.api-parameter-container')?.querySelector('.api-header')?.textContent?.trim().split(/\s+/)[0].toLowerCase() || undefined,
+                type: element.querySelector('.api-parameter-data-type')?.textContent?.trim() || undefined,
+                description: element.querySelector('.description')?.textContent?.trim() || undefined
+            }))),
+            requestBodyProperties: await this.bodyParametersSection.locator('.api-schema-property .name').allTextContents()
+                .then(names => names.map(name => name.trim())),
+            responses: await this.page.locator('.accordion-item:has(.api-code-title), .api-status').evaluateAll(elements => elements.map(element => ({
+                code: element.querySelector('.api-code-title, .api-code')?.textContent?.trim() || '',
+                description: element.querySelector('.api-code-desc, .description')?.textContent?.trim() || undefined,
+                properties: Array.from(element.querySelectorAll('.api-schema-property .name')).map(name => name.textContent?.trim() || '')
+            })))
+        };
+    }
+
+    private getBodyPropertyNames(schema?: SchemaObject): string[] {
+        if (!schema) {
+            return [];
+        }
+        if (schema.type === 'array') {
+            return this.getBodyPropertyNames(schema.items);
+        }
+        const composedNames = (schema.allOf || []).flatMap(part => this.getBodyPropertyNames(part));
+        return [...new Set([...Object.keys(schema.properties || {}), ...composedNames])];
+    }
 }
@@ -3,6 +3,8 @@ import fs from 'fs';
 import dotenv from 'dotenv';
 import { LoginPage } from '../page-factory/pages/login.page';
 import { ConfigManager } from '../utils/config/config-manager';
+import { Document360MockServer } from '../mock-server/document360-mock-server';
+import { loggers } from '../utils/logging/logger-factory';
 
 // Load environment variables
 dotenv.config();
@@ -15,6 +17,11 @@ async function globalSetup() {
   const username = configManager.get<string>('USERNAME');
   const password = configManager.get<string>('PASSWORD');
 
+  // 0. Offline runs talk to the local stand-in, there is no portal to log in to
+  if (configManager.get<boolean>('MOCK_SERVER_ENABLED')) {
+    return startMockServer(storageFile);
+  }
+
   const browser = await chromium.launch({ headless: false, slowMo: 1000 });
   const page = await browser.newPage();
 
@@ -43,6 +50,28 @@ async function globalSetup() {
   await browser.close();
 }
 
+/**
+ * Start the Document360 mock server for the run and hand its URL and a token to the workers through the environment
+ * An explicit API_BASE_URL points at a stand-in started elsewhere: it is used as is, with the API_AUTH_TOKEN given for it
+ * Returns the teardown that stops the server started here
+ */
+async function startMockServer(storageFile: string): Promise<(() => Promise<void>) | undefined> {
+  // Projects load the storage state file, an empty one is enough without a portal session
+  if (!fs.existsSync(storageFile)) {
+    fs.writeFileSync(storageFile, JSON.stringify({ cookies: [], origins: [] }));
+  }
+
+  if (process.env.API_BASE_URL) {
+    loggers.setup.info(`🧪 Using the Document360 stand-in at ${process.env.API_BASE_URL}`);
+    return undefined;
+  }
+
+  const mockServer = new Document360MockServer();
+  process.env.API_BASE_URL = await mockServer.start();
+  process.env.API_AUTH_TOKEN = mockServer.issueAccessToken();
+  return () => mockServer.stop();
+}
+
 async function performFreshLogin(page: any, targetURL: string, username: string, password: string) {
   const configManager = ConfigManager.getInstance();
   const baseURL = configManager.get<string>('API_BASE_URL');
@@ -1,6 +1,6 @@
-import { test } from '@playwright/test';
+import { test, expect, Page } from '@playwright/test';
 import { ApiDataSeeder } from '../../../utils/data-seeding/api-data-seeder';
-import { getTestDataProvider } from '../../../utils/data/test-data-provider';
+import { getTestDataProvider, TestDataFile } from '../../../utils/data/test-data-provider';
 import { ApiDocPage } from '../../../page-factory/pages/api-doc.page';
 import { ConfigManager } from '../../../utils/config/config-manager';
 
@@ -78,4 +78,102 @@ test.describe('Category 2: UI Content Validation Tests (API-Seeded)', () => {
     // Category 2: Delete API definition (bulk delete)
     await apiSeeder.cleanup();
   });
-});
\ No newline at end of file
+});
+
+// Rendering tests seed their own spec: the shared hooks open the portal before and delete the seeded definitions after each test
+test.describe('Category 2: Rendering Tests (API-Seeded)', () => {
+  let apiSeeder: ApiDataSeeder;
+  let apiDocPage: ApiDocPage;
+
+  const testDataProvider = getTestDataProvider();
+
+  // Seed a spec, then reload until its API documentation is listed; returns how long seeding took (ms)
+  const seedAndOpen = async (page: Page, testDataFile: TestDataFile, timeout: number = 30000): Promise<number> => {
+    const seedStartTime = Date.now();
+    await apiSeeder.seedForCategory2(testDataFile);
+    const seedTime = Date.now() - seedStartTime;
+
+    await page.reload();
+    await page.waitForLoadState('domcontentloaded');
+    await page.waitForSelector(`text=${testDataFile.expectedTitle}`, { timeout });
+    return seedTime;
+  };
+
+  test.beforeEach(async ({ page }) => {
+    apiSeeder = new ApiDataSeeder(page);
+    apiDocPage = new ApiDocPage(page);
+
+    await apiSeeder.setupAuthInterceptor();
+    const configManager = ConfigManager.getInstance();
+    await page.goto(configManager.get<string>('BASE_URL'));
+    await page.waitForLoadState('domcontentloaded');
+  });
+
+  test.afterEach(async () => {
+    await apiSeeder.cleanup();
+  });
+
+  test.describe('Vendor Extension Rendering', () => {
+    test.setTimeout(60000); // 60 seconds per test
+
+    test('TC-012: Validate Document360 Vendor Extensions Rendering @api-content @api-seeded', async ({ page }) => {
+      const testDataFile = testDataProvider.getTestDataByKey('VENDOR_EXTENSIONS');
+      if (!testDataFile) {
+        throw new Error('Vendor extensions test data not found');
+      }
+
+      await seedAndOpen(page, testDataFile);
+
+      // Hidden operations, code samples and logo are read from the x-* extensions of the spec
+      const apiSpecParser = await apiSeeder.getApiSpecParser(testDataFile);
+      await apiDocPage.validateVendorExtensions(apiSpecParser, page);
+    });
+  });
+
+  test.describe('Polymorphic Schema Rendering', () => {
+    test.setTimeout(60000); // 60 seconds per test
+
+    test('TC-014: Validate oneOf and Discriminator Variant Selectors @api-content @api-seeded', async ({ page }) => {
+      // The Pet schema of the comprehensive spec maps petType to the Dog and Cat variants
+      const testDataFile = testDataProvider.getTestDataByKey('COMPREHENSIVE');
+      if (!testDataFile) {
+        throw new Error('Comprehensive test data not found');
+      }
+
+      await seedAndOpen(page, testDataFile);
+
+      const apiSpecParser = await apiSeeder.getApiSpecParser(testDataFile);
+      const validatedResponses = await apiDocPage.validatePolymorphicResponses(apiSpecParser, page);
+      expect(validatedResponses).toBeGreaterThan(0);
+    });
+  });
+
+  test.describe('Category Tree Rendering at Scale', () => {
+    // Large generated specs take longer to import and render
+    test.setTimeout(300000); // 5 minutes per test
+
+    const scaleSizes = [
+      { tags: 20, operationsPerTag: 15, schemaDepth: 4, parameterCount: 5 }
+    ];
+
+    for (const size of scaleSizes) {
+      test(`TC-013: Measure Import and Category Tree Rendering - ${size.tags * size.operationsPerTag} Operations @api-content @api-seeded @scale`, async ({ page }) => {
+        const testDataFile = testDataProvider.registerSyntheticSpec(size);
+
+        // Import time: upload and create the API definition
+        const importTime = await seedAndOpen(page, testDataFile, 60000);
+
+        const apiSpecParser = await apiSeeder.getApiSpecParser(testDataFile);
+        const rendering = await apiDocPage.measureCategoryTreeRendering(apiSpecParser);
+        test.info().annotations.push({
+          type: 'scale',
+          description: `${rendering.operations} operations in ${rendering.categories} categories: import ${importTime}ms, ` +
+            `tree ${rendering.renderTime}ms (slowest ${rendering.slowestCategory} ${rendering.slowestCategoryTime}ms)`
+        });
+
+        expect(rendering.operations).toBe(testDataFile.expectedOperations);
+        expect(rendering.slowestCategoryTime).toBeLessThan(5000); // 5 seconds max to list one category
+      });
+    }
+  });
+});
@@ -0,0 +1,151 @@
+import { test, expect } from '@playwright/test';
+import { Document360MockServer } from '../../../mock-server/document360-mock-server';
+import { HttpRecorder } from '../../../utils/api/http-recorder';
+import { ApiFactory, AuthError, QuotaExceededError, TransportError } from '../../../api-factory';
+import { ApiDataSeeder } from '../../../utils/data-seeding/api-data-seeder';
+import { getTestDataProvider } from '../../../utils/data/test-data-provider';
+import { ConfigManager } from '../../../utils/config/config-manager';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// Calls are recorded against an in-process mock server and replayed with it stopped, so no portal is needed
+test.describe('Category 4: HTTP Record and Replay Tests', () => {
+  const username = 'recorder@example.com';
+  const password = 'recorder-password';
+  let mockServer: Document360MockServer;
+  let baseUrl: string;
+  let fixturesDir: string;
+
+  test.beforeEach(async () => {
+    mockServer = new Document360MockServer({ port: 0, username, password });
+    baseUrl = await mockServer.start();
+    fixturesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'd360-http-fixtures-'));
+  });
+
+  test.afterEach(async () => {
+    await mockServer.stop();
+    fs.rmSync(fixturesDir, { recursive: true, force: true });
+  });
+
+  test('TC-018: Match Requests Regardless of Origin, Query Order and Multipart Boundary @factory', async () => {
+    const recorder = new HttpRecorder({ mode: 'record', fixturesDir });
+    const multipartBody = (boundary: string) =>
+      `--${boundary}\r\nContent-Disposition: form-data; name="fileUrl"\r\n\r\n${baseUrl}/cdn/spec.yaml\r\n--${boundary}--\r\n`;
+
+    const recorded = recorder.normalizeRequest('POST', `${baseUrl}/api/v2/apidefinitions?b=2&a=1`, {
+      data: multipartBody('----WebKitFormBoundaryAbc123')
+    });
+    const replayed = recorder.normalizeRequest('post', 'https://portal.document360.io/api/v2/apidefinitions?a=1&b=2', {
+      data: multipartBody('----WebKitFormBoundaryXyz789')
+    });
+    expect(replayed).toEqual(recorded);
+    expect(recorder.getFixturePath(replayed)).toBe(recorder.getFixturePath(recorded));
+
+    // A different field value is a different request
+    const otherBody = recorder.normalizeRequest('POST', `${baseUrl}/api/v2/apidefinitions?a=1&b=2`, {
+      data: multipartBody('----WebKitFormBoundaryAbc123').replace('spec.yaml', 'other.yaml')
+    });
+    expect(recorder.getFixturePath(otherBody)).not.toBe(recorder.getFixturePath(recorded));
+  });
+
+  test('TC-019: Redact Credentials From Recorded Fixtures @factory', async ({ request }) => {
+    const recorder = new HttpRecorder({ mode: 'record', fixturesDir });
+    const context = recorder.wrap(request);
+
+    const response = await context.post(`${baseUrl}/connect/token`, { form: { grant_type: 'password', username, password } });
+    expect(response.status()).toBe(200);
+    const { access_token: accessToken } = await response.json();
+
+    const fixtures = fs.readdirSync(fixturesDir).map(file => fs.readFileSync(path.join(fixturesDir, file), 'utf8'));
+    expect(fixtures).toHaveLength(1);
+    expect(fixtures[0]).not.toContain(password);
+    expect(fixtures[0]).not.toContain(accessToken);
+    expect(fixtures[0]).toContain('<redacted>');
+
+    // Secrets are redacted before matching too, so the replayed call may carry another password
+    recorder.setMode('replay');
+    const replayed = await context.post(`${baseUrl}/connect/token`, { form: { grant_type: 'password', username, password: 'another-password' } });
+    expect(replayed.status()).toBe(200);
+    expect((await replayed.json()).access_token).toBe('<redacted>');
+  });
+
+  test('TC-020: Replay Repeated Requests in Recorded Order @factory', async ({ request }) => {
+    const recorder = new HttpRecorder({ mode: 'record', fixturesDir });
+    const context = recorder.wrap(request);
+    const headers = { Authorization: `Bearer ${mockServer.issueAccessToken()}` };
+
+    // The same request before and after logout: first answered, then refused
+    expect((await context.get(`${baseUrl}/api/v2/user/profile`, { headers })).status()).toBe(200);
+    expect((await context.post(`${baseUrl}/api/v2/auth/logout`, { headers })).status()).toBe(200);
+    expect((await context.get(`${baseUrl}/api/v2/user/profile`, { headers })).status()).toBe(401);
+
+    await mockServer.stop();
+    recorder.setMode('replay');
+
+    // Responses come back in recorded order, the last one repeating
+    const statuses: number[] = [];
+    for (let call = 0; call < 3; call++) {
+      statuses.push((await context.get(`${baseUrl}/api/v2/user/profile`, { headers })).status());
+    }
+    expect(statuses).toEqual([200, 401, 401]);
+
+    // A request that was never recorded fails at once instead of being retried
+    const miss = await context.get(`${baseUrl}/api/v2/apidefinitions`, { headers }).catch(error => error);
+    expect(miss).toBeInstanceOf(TransportError);
+    expect(miss.retryable).toBe(false);
+  });
+});
+
+// The API classes against the mock server global setup starts, run with MOCK_SERVER_ENABLED=true
+test.describe('Category 4: API Factory Tests Against the Mock Server', () => {
+  const configManager = ConfigManager.getInstance();
+  let apiSeeder: ApiDataSeeder;
+
+  test.skip(!configManager.get<boolean>('MOCK_SERVER_ENABLED'), 'Needs the mock server (MOCK_SERVER_ENABLED=true)');
+
+  test.beforeEach(async ({ page }) => {
+    apiSeeder = new ApiDataSeeder(page);
+  });
+
+  test.afterEach(async () => {
+    await apiSeeder.cleanup();
+  });
+
+  test('TC-021: Seed and Clean Up an API Definition @factory', async ({ page }) => {
+    const testDataFile = getTestDataProvider().getTestDataByKey('SIMPLE_YAML');
+    if (!testDataFile) throw new Error('Simple YAML test data not found');
+    const apiDefinition = new ApiFactory(page).createApiDefinitionApi();
+
+    const apiDefinitionId = await apiSeeder.seedForCategory2(testDataFile);
+    expect((await apiDefinition.getApiDefinition(apiDefinitionId)).result.apiDefinitionId).toBe(apiDefinitionId);
+    expect((await apiDefinition.listApiDefinitions()).map(definition => definition.apiDefinitionId)).toContain(apiDefinitionId);
+
+    await apiSeeder.cleanup();
+    expect(apiSeeder.getCreatedApiDefinitions()).toEqual([]);
+    expect((await apiDefinition.listApiDefinitions()).map(definition => definition.apiDefinitionId)).not.toContain(apiDefinitionId);
+  });
+
+  test('TC-022: Refuse Seeding Past the Trial API Definition Limit @factory', async () => {
+    const testDataFile = getTestDataProvider().getTestDataByKey('SIMPLE_YAML');
+    if (!testDataFile) throw new Error('Simple YAML test data not found');
+    const trialApiLimit = configManager.get<number>('MOCK_SERVER_TRIAL_API_LIMIT');
+
+    // Definitions left by other tests only bring the limit closer
+    let error: unknown;
+    for (let seeded = 0; seeded <= trialApiLimit && !error; seeded++) {
+      error = await apiSeeder.seedForCategory2(testDataFile).then(() => undefined, seedError => seedError);
+    }
+    expect(error).toBeInstanceOf(QuotaExceededError);
+    expect((error as QuotaExceededError).retryable).toBe(false);
+    expect(apiSeeder.getCreatedApiDefinitions().length).toBeLessThanOrEqual(trialApiLimit);
+  });
+
+  test('TC-023: Reject an Invalid Auth Token @factory', async ({ page }) => {
+    const apiDefinition = new ApiFactory(page, 'invalid-token').createApiDefinitionApi();
+
+    const error = await apiDefinition.listApiDefinitions().catch(listError => listError);
+    expect(error).toBeInstanceOf(AuthError);
+    expect(error.status).toBe(401);
+  });
+});
@@ -6,6 +6,11 @@ import { ToastMessage } from '../../../page-factory/components/toast-message.com
 import { ConfigManager } from '../../../utils/config/config-manager';
 import { ApiDataSeeder } from '../../../utils/data-seeding/api-data-seeder';
 import { getTestDataProvider, TestDataFile } from '../../../utils/data/test-data-provider';
+import { ApiSpecParserFactory } from '../../../utils/api/api-spec-parser';
+import { SpecStructureValidator } from '../../../utils/api/spec-structure-validator';
+import { SpecMutator } from '../../../utils/api/spec-mutator';
+import { AsyncApiParser } from '../../../utils/api/asyncapi-parser';
+import { SpecCanonicalizer } from '../../../utils/api/spec-canonicalizer';
 import path from 'path';
 
 test.describe('Category 1: API Import Functionality Tests', () => {
@@ -48,7 +53,8 @@ test.describe('Category 1: API Import Functionality Tests', () => {
   const stableTestData = [
     testDataProvider.getTestDataByKey('SIMPLE_YAML'),
     testDataProvider.getTestDataByKey('SIMPLE_JSON'),
-    testDataProvider.getTestDataByKey('COMPREHENSIVE')
+    testDataProvider.getTestDataByKey('COMPREHENSIVE'),
+    testDataProvider.getTestDataByKey('MULTI_FILE')
   ].filter(Boolean); // Remove any null values
 
   for (const testData of stableTestData) {
@@ -61,7 +67,7 @@ test.describe('Category 1: API Import Functionality Tests', () => {
       await header.clickOnNewApiButton();
       await expect(newApiModal.uploadApiDefinitionButton).toBeVisible();
       
-      await newApiModal.uploadFromMyDeviceButton.setInputFiles(filePath);
+      await newApiModal.uploadSpecFile(filePath);
 
       await newApiModal.clickOnNewApiReferenceButton();
 
@@ -76,10 +82,41 @@ test.describe('Category 1: API Import Functionality Tests', () => {
     });
   }
 
+  // Postman and Insomnia collections are converted to OpenAPI, then imported through the same flow
+  for (const testData of testDataProvider.getCollectionTestData()) {
+    test(`TC-001-${testData.sourceFormat!.toUpperCase()}: Import Converted ${testData.sourceFormat} Collection - ${testData.expectedTitle} @import`, async ({ page }) => {
+      const fidelity = testDataProvider.measureConversionFidelity(testData);
+      expect(fidelity.report.skipped).toEqual([]);
+      expect(fidelity.ratio).toBe(1);
+
+      const filePath = testDataProvider.getImportFilePath(testData);
+      
+      await header.clickOnCreateButton();
+      await header.clickOnNewApiButton();
+      await expect(newApiModal.uploadApiDefinitionButton).toBeVisible();
+      
+      await newApiModal.uploadFromMyDeviceButton.setInputFiles(filePath);
+
+      await newApiModal.clickOnNewApiReferenceButton();
+
+      await newApiModal.clickOnCancelButton();
+      
+      await expect(page).toHaveURL(/api-documentation/);
+      
+      await apiDocPage.getApiTitle(testData.expectedTitle).waitFor({ state: 'visible', timeout: 10000 });
+      await expect(apiDocPage.getApiTitle(testData.expectedTitle)).toBeVisible({ timeout: 10000 });
+      await apiDocPage.takeValidationScreenshot(`${testData.sourceFormat}-collection-import-success`);
+    });
+  }
+
   test('TC-004: Import from URL - Should successfully import API documentation from external URL @import', async ({ page }) => {
     const configManager = ConfigManager.getInstance();
     const apiUrl = configManager.get<string>('PETSTORE_API_URL');
     
+    // Fetch (or replay from cache) the same spec the portal imports, to derive expectations
+    const apiSpecParser = ApiSpecParserFactory.createFromUrl(apiUrl);
+    const expectedTitle = (await apiSpecParser.parseApiSpecAsync()).info.title;
+    
     await header.clickOnCreateButton();
     await header.clickOnNewApiButton();
     await expect(newApiModal.uploadApiDefinitionButton).toBeVisible();
@@ -94,8 +131,8 @@ test.describe('Category 1: API Import Functionality Tests', () => {
     await expect(page).toHaveURL(/api-documentation/);
     
     // Add retry mechanism for API title visibility with increased timeout
-    await apiDocPage.getApiTitle('Swagger Petstore').waitFor({ state: 'visible', timeout: 10000 });
-    await expect(apiDocPage.getApiTitle('Swagger Petstore')).toBeVisible({ timeout: 10000 });
+    await apiDocPage.getApiTitle(expectedTitle).waitFor({ state: 'visible', timeout: 10000 });
+    await expect(apiDocPage.getApiTitle(expectedTitle)).toBeVisible({ timeout: 10000 });
     await apiDocPage.takeValidationScreenshot('url-import-success');
   });
 
@@ -116,6 +153,11 @@ test.describe('Category 1: API Import Functionality Tests', () => {
   test('TC-005B: Import Error Handling - Invalid YAML Structure - Should handle malformed YAML gracefully @import', async ({ page }) => {
     const invalidYamlPath = path.join(__dirname, '../../../../test-data/invalid-apis/empty/invalid-yaml.yaml');
     
+    // The fixture must fail meta-schema validation, with each problem located in the source file
+    const structure = SpecStructureValidator.validateFile(invalidYamlPath);
+    expect(structure.valid).toBe(false);
+    expect(SpecStructureValidator.formatDiagnostics(structure)).toContainEqual(expect.stringMatching(/:\d+:\d+ \/paths\/~1invalid\/get - missing required property 'responses'$/));
+    
     await header.clickOnCreateButton();
     await header.clickOnNewApiButton();
     await expect(newApiModal.uploadApiDefinitionButton).toBeVisible();
@@ -131,6 +173,11 @@ test.describe('Category 1: API Import Functionality Tests', () => {
   test('TC-005C: Import Error Handling - Invalid JSON Structure - Should handle malformed JSON gracefully @import', async ({ page }) => {
     const invalidJsonPath = path.join(__dirname, '../../../../test-data/invalid-apis/malformed/invalid-json-structure.json');
     
+    // The fixture must fail meta-schema validation, with each problem located in the source file
+    const structure = SpecStructureValidator.validateFile(invalidJsonPath);
+    expect(structure.valid).toBe(false);
+    expect(SpecStructureValidator.formatDiagnostics(structure)).toContainEqual(expect.stringMatching(/:\d+:\d+ \/paths\/~1invalid\/get - missing required property 'responses'$/));
+    
     await header.clickOnCreateButton();
     await header.clickOnNewApiButton();
     await expect(newApiModal.uploadApiDefinitionButton).toBeVisible();
@@ -145,6 +192,7 @@ test.describe('Category 1: API Import Functionality Tests', () => {
 
   test('TC-005D: Import Error Handling - Empty File - Should handle empty files gracefully @import', async ({ page }) => {
     const emptyFilePath = path.join(__dirname, '../../../../test-data/invalid-apis/empty/empty-file.yaml');
+    expect(SpecStructureValidator.validateFile(emptyFilePath).diagnostics[0].message).toBe('Document is empty');
     
     await header.clickOnCreateButton();
     await header.clickOnNewApiButton();
@@ -158,6 +206,38 @@ test.describe('Category 1: API Import Functionality Tests', () => {
     await expect(toastMessage.errorToast).toContainText('API Spec file upload failed. Please try again.');
   });
 
+  // Negative fixtures generated from a valid spec, one per mutation
+  for (const mutation of SpecMutator.getMutations()) {
+    test(`TC-005E-${mutation}: Import Error Handling - Mutated Spec - Should reject ${mutation} @import`, async ({ page }) => {
+      const [mutant] = testDataProvider.registerMutants('SIMPLE_YAML', [mutation]);
+      const expectedError = mutant.expectedError!;
+      
+      try {
+        // The mutant must be rejected by the local checks at the expected stage
+        const localError = new SpecMutator().checkLocally(mutant.file);
+        expect(localError?.stage).toBe(expectedError.stage);
+        expect(localError?.message).toMatch(expectedError.messagePattern);
+        
+        await header.clickOnCreateButton();
+        await header.clickOnNewApiButton();
+        await expect(newApiModal.uploadApiDefinitionButton).toBeVisible();
+        
+        await newApiModal.uploadFromMyDeviceButton.setInputFiles(mutant.file);
+        
+        // Only the rejection is asserted: the portal refuses some files at upload (error toast, as for the empty file of TC-005D)
+        // and others once the document is read (alert, as for TC-005B/C), and which one a mutant gets is not documented
+        const uploadRejected = await toastMessage.errorToast.waitFor({ state: 'visible', timeout: 10000 }).then(() => true, () => false);
+        if (!uploadRejected) {
+          await newApiModal.clickOnNewApiReferenceButton();
+          await expect(newApiModal.alertMessage.or(toastMessage.errorToast).first()).toBeVisible();
+        }
+        await apiDocPage.takeValidationScreenshot(`mutant-${mutation}-error`);
+      } finally {
+        SpecMutator.removeMutant(mutant.file);
+      }
+    });
+  }
+
   test('TC-006: Import Error Handling - Invalid URL - Should handle invalid or inaccessible URLs gracefully @import', async ({ page }) => {
     const configManager = ConfigManager.getInstance();
     const invalidUrl = configManager.get<string>('INVALID_API_URL');
@@ -176,3 +256,111 @@ test.describe('Category 1: API Import Functionality Tests', () => {
   });
 
 });
+
+// The portal does not import AsyncAPI documents, so event-driven test data is checked against the parsed channel model only
+test.describe('Category 1: AsyncAPI Channel Model Tests', () => {
+  const testDataProvider = getTestDataProvider();
+  let eventDrivenTestData: TestDataFile[] = [];
+
+  test.beforeAll(async () => {
+    eventDrivenTestData = await testDataProvider.getTestDataCombinations('event-driven');
+  });
+
+  for (const testData of testDataProvider.getAsyncApiTestData()) {
+    test(`TC-015: Parse AsyncAPI Document - ${testData.expectedTitle} v${testData.expectedVersion} @import`, async () => {
+      expect(eventDrivenTestData.map(data => data.file)).toContain(testData.file);
+
+      const asyncApiParser = AsyncApiParser.fromFile(testDataProvider.getTestDataPath(testData.file));
+      expect(asyncApiParser.getApiTitle()).toBe(testData.expectedTitle);
+      expect(asyncApiParser.getApiVersion()).toBe(testData.expectedVersion);
+      expect(asyncApiParser.getChannelAddresses()).toEqual(testData.expectedChannels);
+
+      const operations = asyncApiParser.getOperations();
+      expect(operations).toHaveLength(testData.expectedOperations!);
+
+      // Every operation sends or receives messages declared on its channel
+      for (const operation of operations) {
+        const channelMessages = asyncApiParser.getChannelMessages(operation.channel).map(message => message.name);
+        expect(operation.messages.length, `${operation.operationId} has no messages`).toBeGreaterThan(0);
+        for (const message of operation.messages) {
+          expect(channelMessages, `${operation.operationId} message ${message.name}`).toContain(message.name);
+          expect(asyncApiParser.getMessagePayload(message.name), `${message.name} payload`).toBeDefined();
+        }
+      }
+    });
+  }
+});
+
+// Swagger 2.0 documents are normalized to OpenAPI 3 before anything reads them, so the normalized model is checked directly
+test.describe('Category 1: Swagger 2.0 Normalization Tests', () => {
+  const testDataProvider = getTestDataProvider();
+
+  test('TC-016: Normalize Swagger 2.0 Document @import', async () => {
+    const testData = testDataProvider.getTestDataByKey('SWAGGER_2');
+    if (!testData) {
+      throw new Error('Swagger 2.0 test data not found');
+    }
+
+    const apiSpecParser = ApiSpecParserFactory.createFromFile(testDataProvider.getTestDataPath(testData.file));
+    expect(apiSpecParser.getApiTitle()).toBe(testData.expectedTitle);
+    expect(apiSpecParser.isNormalizedFromSwagger2()).toBe(true);
+    expect(apiSpecParser.getServers().map(server => server.url)).toEqual(['https://clinic.example.com/v1']);
+
+    // A path-level body parameter becomes the requestBody of every operation that does not declare its own
+    const replaceBody = apiSpecParser.getEndpointRequestBody('/pets/{petId}', 'put');
+    expect(replaceBody?.content?.['application/json']?.schema).toEqual({ $ref: '#/components/schemas/Pet' });
+    const updateBody = apiSpecParser.getEndpointRequestBody('/pets/{petId}', 'patch');
+    expect(updateBody?.content?.['application/json']?.schema).toEqual({ $ref: '#/components/schemas/PetPatch' });
+
+    // Path-level form fields are merged with the operation's, which win on a name clash
+    const photoSchema: any = apiSpecParser.getEndpointRequestBody('/pets/{petId}/photos', 'post')?.content?.['multipart/form-data']?.schema;
+    expect(Object.keys(photoSchema.properties).sort()).toEqual(['caption', 'photo']);
+    expect(photoSchema.properties.caption.maxLength).toBe(80);
+    expect(photoSchema.properties.photo).toMatchObject({ type: 'string', format: 'binary' });
+    expect(apiSpecParser.getEndpointParameters('/pets/{petId}/photos', 'post').map(param => param.in)).toEqual(['path']);
+
+    // Schema keywords are converted, example and default data is left as written
+    const schemas: any = apiSpecParser.getSchemas();
+    expect(schemas.Pet.discriminator).toEqual({ propertyName: 'petType' });
+    expect(schemas.Pet.properties.nickname.nullable).toBe(true);
+    expect(schemas.Visit.example.attachment).toEqual({ type: 'file', $ref: 'scans/2024-01-05.pdf', discriminator: 'xray' });
+    expect(schemas.Visit.properties.attachment.default).toEqual({ type: 'file', $ref: 'scans/latest.pdf' });
+    expect(schemas.Visit.properties.attachment['x-attachment-hint']).toEqual({ discriminator: 'kind' });
+  });
+});
+
+// Duplicate fixtures and repeated uploads are detected by canonical form, which is checked here without the portal
+test.describe('Category 1: Spec Canonical Form Tests', () => {
+  const testDataProvider = getTestDataProvider();
+
+  test('TC-017: Strip Vendor Extensions Without Dropping x- Names @import', async () => {
+    const testData = testDataProvider.getTestDataByKey('VENDOR_EXTENSIONS');
+    if (!testData) {
+      throw new Error('Vendor extensions test data not found');
+    }
+
+    const spec: any = ApiSpecParserFactory.createFromFile(testDataProvider.getTestDataPath(testData.file)).parseApiSpec();
+    const copy = (): any => JSON.parse(JSON.stringify(spec));
+    const canonicalizer = new SpecCanonicalizer();
+    const withoutExtensions = new SpecCanonicalizer({ stripExtensions: true });
+
+    // Specs that only differ in vendor extensions are equivalent once extensions are stripped
+    const withoutLogo = copy();
+    delete withoutLogo.info['x-logo'];
+    expect(canonicalizer.equivalent(spec, withoutLogo)).toBe(false);
+    expect(withoutExtensions.equivalent(spec, withoutLogo)).toBe(true);
+
+    // Headers and properties named x-... are part of the API, not extensions
+    const withHeader = (name: string): any => {
+      const document = copy();
+      document.paths['/invoices'].get.responses['200'].headers = { [name]: { schema: { type: 'string' } } };
+      return document;
+    };
+    expect(withoutExtensions.equivalent(withHeader('x-request-id'), withHeader('x-correlation-id'))).toBe(false);
+
+    const withTraceProperty = copy();
+    withTraceProperty.components.schemas.Invoice.properties['x-trace'] = { type: 'string' };
+    expect(withoutExtensions.equivalent(spec, withTraceProperty)).toBe(false);
+    expect(withoutExtensions.canonicalize(withTraceProperty).components.schemas.Invoice).not.toHaveProperty('x-entity');
+  });
+});
@@ -3,6 +3,7 @@ import { CustomerPortalPage } from '../../../page-factory/pages/customer-portal.
 import { ApiDataSeeder } from '../../../utils/data-seeding/api-data-seeder';
 import { ConfigManager } from '../../../utils/config/config-manager';
 import { getTestDataProvider, TestDataFile } from '../../../utils/data/test-data-provider';
+import { RenderedDocDiff, RenderedDocTree } from '../../../utils/api/rendered-doc-diff';
 
 test.describe('Category 3: Customer Portal Validation Tests (API-Seeded)', () => {
   // Configure longer timeouts for customer portal tests (headless mode can be slower)
@@ -106,3 +107,53 @@ test.describe('Category 3: Customer Portal Validation Tests (API-Seeded)', () =>
     await apiSeeder.cleanup();
   });
 });
+
+test.describe('Category 3: Cross-Format Consistency Tests (API-Seeded)', () => {
+  // Two imports, each published and scraped page by page
+  test.setTimeout(300000);
+  let customerPortalPage: CustomerPortalPage;
+  let apiSeeder: ApiDataSeeder;
+  let configManager: ConfigManager;
+
+  const testDataProvider = getTestDataProvider();
+
+  test.beforeEach(async ({ page }) => {
+    customerPortalPage = new CustomerPortalPage(page);
+    apiSeeder = new ApiDataSeeder(page);
+    configManager = ConfigManager.getInstance();
+
+    await apiSeeder.setupAuthInterceptor();
+    await page.goto(configManager.get<string>('BASE_URL'));
+    await page.waitForLoadState('domcontentloaded');
+  });
+
+  test(`TC-011: Validate YAML and JSON Imports Render Identically - YAML API Specification @cp @api-seeded @cross-format`, async ({ page }) => {
+    const yamlTestData = testDataProvider.getTestDataByKey('YAML_API');
+    if (!yamlTestData) {
+      throw new Error('YAML format test data not found');
+    }
+    // The JSON upload is written from the same YAML document, so both describe the same API
+    const jsonTestData = testDataProvider.getFormatVariant(yamlTestData, 'json');
+
+    // Import, publish and scrape one format at a time, so both trees carry the same title
+    const renderedTrees: RenderedDocTree[] = [];
+    for (const testDataFile of [yamlTestData, jsonTestData]) {
+      await apiSeeder.seedForCategory3(testDataFile);
+
+      await customerPortalPage.navigateToCustomerPortal(configManager.get<string>('CUSTOMER_PORTAL_URL'));
+      await customerPortalPage.clickOnApiDocumentation();
+      renderedTrees.push(await customerPortalPage.scrapeDocumentationTree(testDataFile.expectedTitle));
+
+      await apiSeeder.cleanup();
+      await page.goto(configManager.get<string>('BASE_URL'));
+      await page.waitForLoadState('domcontentloaded');
+    }
+
+    const report = await customerPortalPage.validateCrossFormatConsistency(renderedTrees[0], renderedTrees[1]);
+    expect(report.divergences, RenderedDocDiff.formatReport(report).join('\n')).toEqual([]);
+  });
+
+  test.afterEach(async () => {
+    await apiSeeder.cleanup();
+  });
+});
@@ -1,54 +1,67 @@
 import * as fs from 'fs';
 import * as yaml from 'js-yaml';
 import * as path from 'path';
+import { RefResolver, CircularRef, unescapePointerToken } from './ref-resolver';
+import { Swagger2Normalizer } from './swagger2-normalizer';
+import { UrlSpecLoader, UrlSpecContent } from './url-spec-loader';
+import { SpecStructureValidator, SpecValidationResult } from './spec-structure-validator';
+import { SpecSourceMap, SourcePosition } from './spec-source-map';
+import { ApiSpecSourceType, IApiSpecFormatParser, readSpecFile } from './spec-format-parser';
+import { PostmanCollectionFormatParser } from './postman-collection-parser';
+import { InsomniaExportFormatParser } from './insomnia-export-parser';
+import {
+  ApiOperation,
+  CodeSampleExtension,
+  Components,
+  ContactObject,
+  DiscriminatorObject,
+  EffectiveOperation,
+  Extensible,
+  ExternalDocumentationObject,
+  HeaderObject,
+  HttpMethod,
+  InfoObject,
+  LicenseObject,
+  LogoExtension,
+  OAuthFlows,
+  Operation,
+  Parameter,
+  ParameterLocation,
+  PathItem,
+  Paths,
+  Referenceable,
+  RequestBody,
+  ResponseObject,
+  SchemaObject,
+  SchemaVariant,
+  SecurityRequirement,
+  SecurityScheme,
+  ServerObject,
+  TagObject,
+  isHttpMethod,
+  isReference
+} from './openapi-model';
 
-export interface ApiSpec {
-  info: {
-    title: string;
-    version: string;
-    description?: string;
-    termsOfService?: string;
-    contact?: {
-      name?: string;
-      email?: string;
-      url?: string;
-    };
-    license?: {
-      name?: string;
-      url?: string;
-    };
-  };
-  servers?: Array<{
-    url: string;
-    description?: string;
-    variables?: { [key: string]: { default: string; description?: string; enum?: string[] } };
-  }>;
-  tags?: Array<{
-    name: string;
-    description?: string;
-  }>;
-  paths?: any;
-  components?: any;
-}
+export { ApiSpecSourceType, IApiSpecFormatParser };
 
-/**
- * Interface for different API specification parsers
- */
-interface IApiSpecFormatParser {
-  canParse(source: string, sourceType: ApiSpecSourceType): boolean;
-  parse(content: string): ApiSpec;
-  getSupportedExtensions(): string[];
+export interface ApiSpec {
+  openapi?: string;
+  swagger?: string;
+  info: InfoObject;
+  servers?: ServerObject[];
+  tags?: TagObject[];
+  paths?: Paths;
+  webhooks?: { [name: string]: PathItem };
+  jsonSchemaDialect?: string;
+  components?: Components;
+  security?: SecurityRequirement[];
+  externalDocs?: ExternalDocumentationObject;
 }
 
 /**
- * Enum for different source types
+ * OpenAPI versions accepted by validateApiSpec
  */
-export enum ApiSpecSourceType {
-  FILE_PATH = 'file_path',
-  CONTENT_STRING = 'content_string',
-  URL = 'url',
-  BUFFER = 'buffer'
-}
+const SUPPORTED_OPENAPI_VERSIONS = /^3\.[01]\.\d+/;
 
 /**
  * YAML format parser
@@ -81,6 +94,10 @@ class YamlApiSpecParser implements IApiSpecFormatParser {
   getSupportedExtensions(): string[] {
     return ['.yaml', '.yml'];
   }
+
+  getSupportedMediaTypes(): string[] {
+    return ['application/yaml', 'application/x-yaml', 'text/yaml', 'text/x-yaml'];
+  }
 }
 
 /**
@@ -110,6 +127,10 @@ class JsonApiSpecParser implements IApiSpecFormatParser {
   getSupportedExtensions(): string[] {
     return ['.json'];
   }
+
+  getSupportedMediaTypes(): string[] {
+    return ['application/json', 'application/vnd.oai.openapi+json', 'text/json'];
+  }
 }
 
 /**
@@ -117,7 +138,10 @@ class JsonApiSpecParser implements IApiSpecFormatParser {
  * Implements the Factory Pattern to create parsers based on source type and format
  */
 export class ApiSpecParserFactory {
+  // Collection parsers come first: their files are JSON too, but only they recognize the content
   private static formatParsers: IApiSpecFormatParser[] = [
+    new PostmanCollectionFormatParser(),
+    new InsomniaExportFormatParser(),
     new YamlApiSpecParser(),
     new JsonApiSpecParser()
   ];
@@ -131,7 +155,9 @@ export class ApiSpecParserFactory {
       ApiSpecSourceType.FILE_PATH,
       this.formatParsers,
       options?.validationEnabled ?? true,
-      options?.cacheEnabled ?? true
+      options?.cacheEnabled ?? true,
+      options?.dereferenceEnabled ?? false,
+      options?.normalizationEnabled ?? true
     );
   }
 
@@ -144,12 +170,16 @@ export class ApiSpecParserFactory {
       ApiSpecSourceType.CONTENT_STRING,
       this.formatParsers,
       options?.validationEnabled ?? true,
-      options?.cacheEnabled ?? true
+      options?.cacheEnabled ?? true,
+      options?.dereferenceEnabled ?? false,
+      options?.normalizationEnabled ?? true
     );
   }
 
   /**
-   * Create parser from URL (for future implementation)
+   * Create parser from URL (content is fetched by parseApiSpecAsync and cached on disk)
+   * parseApiSpecAsync() must run first: until the content is fetched, parseApiSpec() and every synchronous getter throw.
+   * Relative $refs resolve against the URL; with dereferencing enabled the referenced documents are fetched too
    */
   static createFromUrl(url: string, options?: ApiSpecParserOptions): ApiSpecParser {
     return new ApiSpecParser(
@@ -157,7 +187,9 @@ export class ApiSpecParserFactory {
       ApiSpecSourceType.URL,
       this.formatParsers,
       options?.validationEnabled ?? true,
-      options?.cacheEnabled ?? true
+      options?.cacheEnabled ?? true,
+      options?.dereferenceEnabled ?? false,
+      options?.normalizationEnabled ?? true
     );
   }
 
@@ -176,7 +208,9 @@ export class ApiSpecParserFactory {
       sourceType,
       allParsers,
       options?.validationEnabled ?? true,
-      options?.cacheEnabled ?? true
+      options?.cacheEnabled ?? true,
+      options?.dereferenceEnabled ?? false,
+      options?.normalizationEnabled ?? true
     );
   }
 
@@ -205,10 +239,10 @@ export class ApiSpecParserFactory {
    * Auto-detect and create appropriate parser based on source
    */
   static createAuto(source: string, sourceType: ApiSpecSourceType, options?: ApiSpecParserOptions): ApiSpecParser {
-    // Find the most appropriate parser for the source
+    // Find the most appropriate parser for the source (URL formats are detected after fetching)
     const parser = this.formatParsers.find(p => p.canParse(source, sourceType));
     
-    if (!parser) {
+    if (!parser && sourceType !== ApiSpecSourceType.URL) {
       const supportedExts = this.getSupportedExtensions();
       throw new Error(`Cannot auto-detect format for source. Supported extensions: ${supportedExts.join(', ')}`);
     }
@@ -218,7 +252,9 @@ export class ApiSpecParserFactory {
       sourceType,
       this.formatParsers,
       options?.validationEnabled ?? true,
-      options?.cacheEnabled ?? true
+      options?.cacheEnabled ?? true,
+      options?.dereferenceEnabled ?? false,
+      options?.normalizationEnabled ?? true
     );
   }
 }
@@ -229,6 +265,8 @@ export class ApiSpecParserFactory {
 export interface ApiSpecParserOptions {
   validationEnabled?: boolean;
   cacheEnabled?: boolean;
+  dereferenceEnabled?: boolean;
+  normalizationEnabled?: boolean;
 }
 
 export class ApiSpecParser {
@@ -237,27 +275,40 @@ export class ApiSpecParser {
   private formatParsers: IApiSpecFormatParser[];
   private validationEnabled: boolean;
   private cacheEnabled: boolean;
+  private dereferenceEnabled: boolean;
+  private normalizationEnabled: boolean;
   private apiSpec: ApiSpec | null = null;
+  private circularRefs: CircularRef[] = [];
+  private normalizedFromSwagger2: boolean = false;
+  private urlLoader: UrlSpecLoader | null = null;
+  private urlContent: UrlSpecContent | null = null;
+  // Documents referenced by a URL source, fetched by parseApiSpecAsync for dereferencing
+  private urlRefDocuments: Map<string, any> = new Map();
+  private sourceMap: SpecSourceMap | null = null;
 
   constructor(
     source: string,
     sourceType: ApiSpecSourceType,
     formatParsers: IApiSpecFormatParser[],
     validationEnabled: boolean = true,
-    cacheEnabled: boolean = true
+    cacheEnabled: boolean = true,
+    dereferenceEnabled: boolean = false,
+    normalizationEnabled: boolean = true
   ) {
     this.source = source;
     this.sourceType = sourceType;
     this.formatParsers = formatParsers;
     this.validationEnabled = validationEnabled;
     this.cacheEnabled = cacheEnabled;
+    this.dereferenceEnabled = dereferenceEnabled;
+    this.normalizationEnabled = normalizationEnabled;
   }
 
   /**
    * Legacy constructor for backward compatibility
    */
-  static fromFile(filePath: string): ApiSpecParser {
-    return ApiSpecParserFactory.createFromFile(filePath);
+  static fromFile(filePath: string, options?: ApiSpecParserOptions): ApiSpecParser {
+    return ApiSpecParserFactory.createFromFile(filePath, options);
   }
 
   /**
@@ -269,21 +320,12 @@ export class ApiSpecParser {
     }
 
     try {
-      let content: string;
-
-      // Get content based on source type
-      if (this.sourceType === ApiSpecSourceType.FILE_PATH) {
-        content = fs.readFileSync(this.source, 'utf8');
-      } else if (this.sourceType === ApiSpecSourceType.CONTENT_STRING) {
-        content = this.source;
-      } else if (this.sourceType === ApiSpecSourceType.URL) {
-        throw new Error('URL source type not yet implemented');
-      } else {
-        throw new Error(`Unsupported source type: ${this.sourceType}`);
-      }
+      const content = this.readContent();
 
       // Find appropriate parser
-      const parser = this.formatParsers.find(p => p.canParse(this.source, this.sourceType));
+      const parser = this.sourceType === ApiSpecSourceType.URL
+        ? this.findUrlFormatParser(this.urlContent!)
+        : this.formatParsers.find(p => p.canParse(this.source, this.sourceType));
       if (!parser) {
         const supportedExts = this.formatParsers.flatMap(p => p.getSupportedExtensions());
         throw new Error(`Unsupported format. Supported extensions: ${supportedExts.join(', ')}`);
@@ -292,21 +334,187 @@ export class ApiSpecParser {
       // Parse content
       this.apiSpec = parser.parse(content);
 
+      // Convert Swagger 2.0 documents to the OpenAPI 3 model if enabled
+      this.normalizedFromSwagger2 = false;
+      if (this.normalizationEnabled && Swagger2Normalizer.isSwagger2(this.apiSpec)) {
+        this.apiSpec = new Swagger2Normalizer().normalize(this.apiSpec);
+        this.normalizedFromSwagger2 = true;
+      }
+
       // Validate if enabled
       if (this.validationEnabled) {
         this.validateApiSpec(this.apiSpec);
       }
 
+      // Expand $ref pointers if enabled
+      if (this.dereferenceEnabled) {
+        this.apiSpec = this.dereferenceApiSpec(this.apiSpec);
+      }
+
       return this.apiSpec;
     } catch (error) {
       throw new Error(`Failed to parse API specification: ${error}`);
     }
   }
 
+  /**
+   * Validate the raw source against the OpenAPI meta-schema without throwing
+   * Diagnostics carry the JSON pointer and line/column of each problem in the original file
+   */
+  validateStructure(): SpecValidationResult {
+    const file = this.getSourceFileName();
+    const content = this.readContent();
+
+    // Collections are validated as the OpenAPI document they convert to (without source positions)
+    const parser = this.sourceType === ApiSpecSourceType.URL ? undefined : this.formatParsers.find(p => p.canParse(this.source, this.sourceType));
+    if (parser instanceof PostmanCollectionFormatParser || parser instanceof InsomniaExportFormatParser) {
+      return SpecStructureValidator.validateDocument(parser.parse(content));
+    }
+    return SpecStructureValidator.validateContent(content, file);
+  }
+
+  /**
+   * Get the source map of the specification (JSON pointer to file, line and column)
+   * Returns null for sources converted from another format, which have no OpenAPI source positions
+   */
+  getSourceMap(): SpecSourceMap | null {
+    if (!this.sourceMap) {
+      const parser = this.sourceType === ApiSpecSourceType.URL ? undefined : this.formatParsers.find(p => p.canParse(this.source, this.sourceType));
+      if (parser instanceof PostmanCollectionFormatParser || parser instanceof InsomniaExportFormatParser) {
+        return null;
+      }
+      this.sourceMap = SpecSourceMap.fromContent(this.readContent(), this.getSourceFileName());
+    }
+    return this.sourceMap;
+  }
+
+  /**
+   * Get the source position of a JSON pointer into the parsed specification
+   * Pointers through dereferenced $refs resolve to the component that defines the node
+   */
+  getSourcePosition(pointer: string): SourcePosition | undefined {
+    return this.getSourceMap()?.locate(pointer);
+  }
+
+  /**
+   * Format where a JSON pointer was defined as file:line (e.g. comprehensive-api.yaml:212)
+   */
+  formatSourceLocation(pointer: string): string {
+    const position = this.getSourcePosition(pointer);
+    const file = position?.file || this.getSourceFileName() || '<content>';
+    return position ? `${file}:${position.line}` : file;
+  }
+
+  /**
+   * Parse the API specification, fetching it first when the source is a URL
+   */
+  async parseApiSpecAsync(): Promise<ApiSpec> {
+    if (this.sourceType === ApiSpecSourceType.URL && (!this.urlContent || !this.cacheEnabled)) {
+      this.apiSpec = null;
+      this.sourceMap = null;
+      this.urlContent = await this.getUrlLoader().load(this.source);
+      if (this.dereferenceEnabled) {
+        await this.loadUrlRefDocuments();
+      }
+    }
+    return this.parseApiSpec();
+  }
+
+  /**
+   * Use a custom URL loader (e.g. with a different cache directory or offline mode)
+   */
+  setUrlLoader(urlLoader: UrlSpecLoader): void {
+    this.urlLoader = urlLoader;
+  }
+
+  /**
+   * Get details of the last URL fetch, including whether it was served from cache
+   */
+  getUrlContent(): UrlSpecContent | null {
+    return this.urlContent;
+  }
+
+  /**
+   * Get the raw specification content based on source type
+   */
+  private readContent(): string {
+    if (this.sourceType === ApiSpecSourceType.FILE_PATH) {
+      return readSpecFile(this.source);
+    }
+    if (this.sourceType === ApiSpecSourceType.CONTENT_STRING) {
+      return this.source;
+    }
+    if (this.sourceType === ApiSpecSourceType.URL) {
+      if (!this.urlContent) {
+        throw new Error('URL source must be loaded with parseApiSpecAsync() before parsing or reading it');
+      }
+      return this.urlContent.content;
+    }
+    throw new Error(`Unsupported source type: ${this.sourceType}`);
+  }
+
+  /**
+   * File name used in diagnostics: the base name for files, the URL for URL sources
+   */
+  private getSourceFileName(): string | undefined {
+    if (this.sourceType === ApiSpecSourceType.FILE_PATH) {
+      return path.basename(this.source);
+    }
+    return this.sourceType === ApiSpecSourceType.URL ? this.source : undefined;
+  }
+
+  /**
+   * Fetch the documents the URL source refers to through relative or absolute $refs, recursively
+   */
+  private async loadUrlRefDocuments(): Promise<void> {
+    const resolver = new RefResolver();
+    this.urlRefDocuments = new Map();
+    const pending = resolver.getReferencedDocuments(yaml.load(this.urlContent!.content), this.source);
+
+    while (pending.length > 0) {
+      const location = pending.shift()!;
+      if (this.urlRefDocuments.has(location)) {
+        continue;
+      }
+      const document = yaml.load((await this.getUrlLoader().load(location)).content);
+      this.urlRefDocuments.set(location, document);
+      pending.push(...resolver.getReferencedDocuments(document, location));
+    }
+  }
+
+  private getUrlLoader(): UrlSpecLoader {
+    if (!this.urlLoader) {
+      this.urlLoader = new UrlSpecLoader();
+    }
+    return this.urlLoader;
+  }
+
+  /**
+   * Pick a format parser for fetched URL content by content type, then URL extension, then content
+   */
+  private findUrlFormatParser(urlContent: UrlSpecContent): IApiSpecFormatParser | undefined {
+    const mediaType = urlContent.contentType.split(';')[0].trim().toLowerCase();
+    const byContentType = this.formatParsers.find(p => p.getSupportedMediaTypes?.().includes(mediaType));
+    if (byContentType) {
+      return byContentType;
+    }
+
+    const urlPath = new URL(urlContent.url).pathname;
+    const byExtension = this.formatParsers.find(p => p.canParse(urlPath, ApiSpecSourceType.FILE_PATH));
+    if (byExtension) {
+      return byExtension;
+    }
+
+    return this.formatParsers.find(p => p.canParse(urlContent.content, ApiSpecSourceType.CONTENT_STRING));
+  }
+
   /**
    * Validate the parsed API specification
    */
   private validateApiSpec(spec: ApiSpec): void {
+    if (spec && 'asyncapi' in spec && typeof spec.asyncapi === 'string') {
+      throw new Error(`Invalid API specification: AsyncAPI ${spec.asyncapi} documents are read with AsyncApiParser`);
+    }
     if (!spec || !spec.info) {
       throw new Error('Invalid API specification: missing info section');
     }
@@ -316,6 +524,68 @@ export class ApiSpecParser {
     if (!spec.info.version) {
       throw new Error('Invalid API specification: missing version in info section');
     }
+    if (spec.openapi !== undefined && !SUPPORTED_OPENAPI_VERSIONS.test(String(spec.openapi))) {
+      throw new Error(`Invalid API specification: unsupported OpenAPI version ${spec.openapi}`);
+    }
+    if (this.isVersion31(spec) && !spec.paths && !spec.webhooks && !spec.components) {
+      throw new Error('Invalid API specification: OpenAPI 3.1 requires at least one of paths, webhooks or components');
+    }
+  }
+
+  private isVersion31(spec: ApiSpec): boolean {
+    return String(spec.openapi ?? '').startsWith('3.1');
+  }
+
+  /**
+   * Resolve all local and relative-file $ref pointers in the specification
+   */
+  private dereferenceApiSpec(spec: ApiSpec): ApiSpec {
+    const isFile = this.sourceType === ApiSpecSourceType.FILE_PATH;
+    const isUrl = this.sourceType === ApiSpecSourceType.URL;
+    const resolver = new RefResolver(isFile ? path.dirname(path.resolve(this.source)) : process.cwd());
+    this.urlRefDocuments.forEach((document, location) => resolver.addDocument(location, document));
+    const dereferenced = resolver.dereference(spec, isFile || isUrl ? this.source : undefined);
+    this.circularRefs = resolver.getCircularRefs();
+    return dereferenced;
+  }
+
+  /**
+   * Check if the source document was Swagger 2.0 and converted to OpenAPI 3
+   */
+  isNormalizedFromSwagger2(): boolean {
+    this.parseApiSpec();
+    return this.normalizedFromSwagger2;
+  }
+
+  /**
+   * Check if $ref pointers are expanded by this parser
+   */
+  isDereferenced(): boolean {
+    return this.dereferenceEnabled;
+  }
+
+  /**
+   * Get a parser of the same source that keeps $ref pointers (this parser when it does not dereference)
+   * URL sources share the content already fetched
+   */
+  withoutDereferencing(): ApiSpecParser {
+    if (!this.dereferenceEnabled) {
+      return this;
+    }
+
+    const parser = new ApiSpecParser(this.source, this.sourceType, this.formatParsers, this.validationEnabled,
+      this.cacheEnabled, false, this.normalizationEnabled);
+    parser.urlLoader = this.urlLoader;
+    parser.urlContent = this.urlContent;
+    return parser;
+  }
+
+  /**
+   * Get circular $ref pointers left unexpanded during dereferencing
+   */
+  getCircularRefs(): CircularRef[] {
+    this.parseApiSpec();
+    return [...this.circularRefs];
   }
 
   /**
@@ -353,7 +623,7 @@ export class ApiSpecParser {
   /**
    * Get contact information from the specification
    */
-  getContactInfo(): { name?: string; email?: string; url?: string } | undefined {
+  getContactInfo(): ContactObject | undefined {
     const spec = this.parseApiSpec();
     return spec.info.contact;
   }
@@ -361,7 +631,7 @@ export class ApiSpecParser {
   /**
    * Get license information from the specification
    */
-  getLicenseInfo(): { name?: string; url?: string } | undefined {
+  getLicenseInfo(): LicenseObject | undefined {
     const spec = this.parseApiSpec();
     return spec.info.license;
   }
@@ -369,7 +639,7 @@ export class ApiSpecParser {
   /**
    * Get server information from the specification
    */
-  getServers(): Array<{ url: string; description?: string }> {
+  getServers(): ServerObject[] {
     const spec = this.parseApiSpec();
     return spec.servers || [];
   }
@@ -377,7 +647,7 @@ export class ApiSpecParser {
   /**
    * Get tags from the specification
    */
-  getTags(): Array<{ name: string; description?: string }> {
+  getTags(): TagObject[] {
     const spec = this.parseApiSpec();
     return spec.tags || [];
   }
@@ -393,62 +663,98 @@ export class ApiSpecParser {
   /**
    * Get HTTP methods for a specific path
    */
-  getEndpointMethods(path: string): string[] {
-    const spec = this.parseApiSpec();
-    if (!spec.paths || !spec.paths[path]) {
-      return [];
-    }
-    return Object.keys(spec.paths[path]);
+  getEndpointMethods(path: string): HttpMethod[] {
+    const pathItem = this.getPathItem(path);
+    return pathItem ? Object.keys(pathItem).filter(isHttpMethod) : [];
+  }
+
+  /**
+   * Get all operations of the specification in declaration order
+   */
+  getOperations(): ApiOperation[] {
+    return this.getEndpointPaths().flatMap(path =>
+      this.getEndpointMethods(path).map(method => ({ path, method, operation: this.getOperation(path, method)! }))
+    );
+  }
+
+  /**
+   * Get the operation for a specific path and method
+   */
+  getOperation(path: string, method: string): Operation | undefined {
+    const pathItem = this.getPathItem(path);
+    return pathItem && isHttpMethod(method) ? pathItem[method] : undefined;
   }
 
   /**
    * Get endpoint summary for a specific path and method
    */
   getEndpointSummary(path: string, method: string): string | undefined {
-    const spec = this.parseApiSpec();
-    if (!spec.paths || !spec.paths[path] || !spec.paths[path][method]) {
-      return undefined;
-    }
-    return spec.paths[path][method].summary;
+    return this.getOperation(path, method)?.summary;
   }
 
   /**
    * Get endpoint description for a specific path and method
    */
   getEndpointDescription(path: string, method: string): string | undefined {
-    const spec = this.parseApiSpec();
-    if (!spec.paths || !spec.paths[path] || !spec.paths[path][method]) {
-      return undefined;
-    }
-    return spec.paths[path][method].description;
+    return this.getOperation(path, method)?.description;
   }
 
   /**
-   * Get parameters for a specific endpoint
+   * Get the effective parameters for a specific endpoint
+   * Path-item parameters apply to every operation unless the operation redefines the same name and location
    */
-  getEndpointParameters(path: string, method: string): any[] {
-    const spec = this.parseApiSpec();
-    if (!spec.paths || !spec.paths[path] || !spec.paths[path][method]) {
+  getEndpointParameters(path: string, method: string): Parameter[] {
+    const operation = this.getOperation(path, method);
+    if (!operation) {
       return [];
     }
-    return spec.paths[path][method].parameters || [];
+
+    const merged = new Map<string, Parameter>();
+    const pathParameters = this.getPathItem(path)?.parameters || [];
+    for (const parameter of [...pathParameters, ...(operation.parameters || [])]) {
+      const resolved = this.resolveReference(parameter);
+      merged.set(`${resolved.in}:${resolved.name}`, resolved);
+    }
+    return [...merged.values()];
   }
 
   /**
-   * Get responses for a specific endpoint
+   * Walk all operations with their effective parameters and request body media types
    */
-  getEndpointResponses(path: string, method: string): any {
-    const spec = this.parseApiSpec();
-    if (!spec.paths || !spec.paths[path] || !spec.paths[path][method]) {
-      return {};
+  *walkOperations(): IterableIterator<EffectiveOperation> {
+    for (const apiOperation of this.getOperations()) {
+      yield this.toEffectiveOperation(apiOperation);
     }
-    return spec.paths[path][method].responses || {};
+  }
+
+  /**
+   * Get a single operation with its effective parameters and request body media types
+   */
+  getEffectiveOperation(path: string, method: string): EffectiveOperation | undefined {
+    const operation = this.getOperation(path, method);
+    return operation && isHttpMethod(method) ? this.toEffectiveOperation({ path, method, operation }) : undefined;
+  }
+
+  /**
+   * Get request body for a specific endpoint
+   */
+  getEndpointRequestBody(path: string, method: string): RequestBody | undefined {
+    const requestBody = this.getOperation(path, method)?.requestBody;
+    return requestBody ? this.resolveReference(requestBody) : undefined;
+  }
+
+  /**
+   * Get responses for a specific endpoint
+   */
+  getEndpointResponses(path: string, method: string): { [statusCode: string]: ResponseObject } {
+    const responses = this.getOperation(path, method)?.responses || {};
+    return this.resolveEntries(responses);
   }
 
   /**
    * Get components/schemas from the specification
    */
-  getSchemas(): any {
+  getSchemas(): { [name: string]: SchemaObject } {
     const spec = this.parseApiSpec();
     return spec.components?.schemas || {};
   }
@@ -456,7 +762,7 @@ export class ApiSpecParser {
   /**
    * Get a specific schema by name
    */
-  getSchema(schemaName: string): any {
+  getSchema(schemaName: string): SchemaObject | undefined {
     const schemas = this.getSchemas();
     return schemas[schemaName];
   }
@@ -464,7 +770,7 @@ export class ApiSpecParser {
   /**
    * Get schema properties for a specific schema
    */
-  getSchemaProperties(schemaName: string): any {
+  getSchemaProperties(schemaName: string): { [name: string]: SchemaObject } {
     const schema = this.getSchema(schemaName);
     return schema?.properties || {};
   }
@@ -472,26 +778,22 @@ export class ApiSpecParser {
   /**
    * Get security schemes from the specification
    */
-  getSecuritySchemes(): any {
+  getSecuritySchemes(): { [name: string]: SecurityScheme } {
     const spec = this.parseApiSpec();
-    return spec.components?.securitySchemes || {};
+    return this.resolveEntries(spec.components?.securitySchemes || {});
   }
 
   /**
    * Get security requirements for a specific endpoint
    */
-  getEndpointSecurity(path: string, method: string): any[] {
-    const spec = this.parseApiSpec();
-    if (!spec.paths || !spec.paths[path] || !spec.paths[path][method]) {
-      return [];
-    }
-    return spec.paths[path][method].security || [];
+  getEndpointSecurity(path: string, method: string): SecurityRequirement[] {
+    return this.getOperation(path, method)?.security || [];
   }
 
   /**
    * Get OAuth flow information for a security scheme
    */
-  getOAuthFlows(schemeName: string): any {
+  getOAuthFlows(schemeName: string): OAuthFlows {
     const securitySchemes = this.getSecuritySchemes();
     const scheme = securitySchemes[schemeName];
     return scheme?.flows || {};
@@ -500,7 +802,7 @@ export class ApiSpecParser {
   /**
    * Get scopes for a specific OAuth flow
    */
-  getOAuthScopes(schemeName: string, flowType: string): any {
+  getOAuthScopes(schemeName: string, flowType: keyof OAuthFlows): { [scope: string]: string } {
     const flows = this.getOAuthFlows(schemeName);
     return flows[flowType]?.scopes || {};
   }
@@ -508,15 +810,15 @@ export class ApiSpecParser {
   /**
    * Get response headers for a specific endpoint and response code
    */
-  getResponseHeaders(path: string, method: string, responseCode: string): any {
+  getResponseHeaders(path: string, method: string, responseCode: string): { [name: string]: HeaderObject } {
     const responses = this.getEndpointResponses(path, method);
-    return responses[responseCode]?.headers || {};
+    return this.resolveEntries(responses[responseCode]?.headers || {});
   }
 
   /**
    * Get response schema for a specific endpoint, response code, and media type
    */
-  getResponseSchema(path: string, method: string, responseCode: string, mediaType: string = 'application/json'): any {
+  getResponseSchema(path: string, method: string, responseCode: string, mediaType: string = 'application/json'): SchemaObject {
     const responses = this.getEndpointResponses(path, method);
     return responses[responseCode]?.content?.[mediaType]?.schema || {};
   }
@@ -537,4 +839,343 @@ export class ApiSpecParser {
     const content = responses[responseCode]?.content || {};
     return Object.keys(content);
   }
+
+  /**
+   * Get the OpenAPI version declared by the specification
+   */
+  getSpecVersion(): string | undefined {
+    const spec = this.parseApiSpec();
+    return spec.openapi;
+  }
+
+  /**
+   * Check if the specification is an OpenAPI 3.1 document
+   */
+  isOpenApi31(): boolean {
+    return this.isVersion31(this.parseApiSpec());
+  }
+
+  /**
+   * Get the default JSON Schema dialect (OpenAPI 3.1 only)
+   */
+  getJsonSchemaDialect(): string | undefined {
+    const spec = this.parseApiSpec();
+    return spec.jsonSchemaDialect;
+  }
+
+  /**
+   * Get webhooks from the specification (OpenAPI 3.1 only)
+   */
+  getWebhooks(): { [name: string]: PathItem } {
+    const spec = this.parseApiSpec();
+    return spec.webhooks || {};
+  }
+
+  /**
+   * Get all webhook names from the specification
+   */
+  getWebhookNames(): string[] {
+    return Object.keys(this.getWebhooks());
+  }
+
+  /**
+   * Get HTTP methods for a specific webhook
+   */
+  getWebhookMethods(webhookName: string): HttpMethod[] {
+    const webhook = this.getWebhooks()[webhookName];
+    return webhook ? Object.keys(this.resolveReference(webhook)).filter(isHttpMethod) : [];
+  }
+
+  /**
+   * Get the operation for a specific webhook and method
+   */
+  getWebhookOperation(webhookName: string, method: string): Operation | undefined {
+    const webhook = this.getWebhooks()[webhookName];
+    return webhook && isHttpMethod(method) ? this.resolveReference(webhook)[method] : undefined;
+  }
+
+  /**
+   * Get components/pathItems from the specification (OpenAPI 3.1 only)
+   */
+  getPathItems(): { [name: string]: PathItem } {
+    const spec = this.parseApiSpec();
+    return spec.components?.pathItems || {};
+  }
+
+  /**
+   * Get $defs declared inside a specific schema (JSON Schema 2020-12)
+   */
+  getSchemaDefs(schemaName: string): { [name: string]: SchemaObject } {
+    const schema = this.getSchema(schemaName);
+    return schema?.$defs || {};
+  }
+
+  /**
+   * Get the types of a schema as a list
+   * Handles both 3.1 type arrays ([string, null]) and 3.0 nullable: true
+   */
+  getSchemaTypes(schema: SchemaObject | undefined): string[] {
+    if (!schema) {
+      return [];
+    }
+
+    const types: string[] = Array.isArray(schema.type) ? [...schema.type] : schema.type ? [schema.type] : [];
+    if (schema.nullable === true && !types.includes('null')) {
+      types.push('null');
+    }
+    return types;
+  }
+
+  /**
+   * Check if a schema accepts null
+   */
+  isSchemaNullable(schema: SchemaObject | undefined): boolean {
+    return this.getSchemaTypes(schema).includes('null') || schema?.const === null;
+  }
+
+  /**
+   * Get the const value of a schema (undefined if the schema has no const)
+   */
+  getSchemaConst(schema: SchemaObject | undefined): any {
+    return schema?.const;
+  }
+
+  /**
+   * Get all examples of a schema
+   * Merges the 3.1 examples array with the deprecated single example keyword
+   */
+  getSchemaExamples(schema: SchemaObject | undefined): any[] {
+    if (!schema) {
+      return [];
+    }
+
+    const examples = Array.isArray(schema.examples) ? [...schema.examples] : [];
+    if (schema.example !== undefined) {
+      examples.push(schema.example);
+    }
+    return examples;
+  }
+
+  /**
+   * Merge the allOf members of a schema into one schema (properties and required combined)
+   * oneOf/anyOf are left as they are, getSchemaVariants expands them
+   */
+  flattenSchema(schema: SchemaObject | undefined): SchemaObject {
+    return schema ? this.mergeAllOf(schema, new Set()) : {};
+  }
+
+  /**
+   * Expand a polymorphic schema into its variants: the oneOf/anyOf members, or the discriminator mapping
+   * targets of a base schema. Each variant has its allOf merged and, with a discriminator, the value selecting it
+   * Returns an empty list for schemas that are not polymorphic
+   */
+  getSchemaVariants(schema: SchemaObject | undefined): SchemaVariant[] {
+    if (!schema) {
+      return [];
+    }
+
+    const resolved = this.resolveReference(schema);
+    const discriminator = resolved.discriminator;
+    const mapping = Object.entries(discriminator?.mapping || {});
+    const keyword = resolved.oneOf ? 'oneOf' : resolved.anyOf ? 'anyOf' : undefined;
+
+    if (keyword) {
+      return (resolved[keyword] || []).map((member, index) => {
+        const target = this.resolveReference(member);
+        // A dereferenced member lost its $ref, it is matched to the mapping by content instead
+        const entry = mapping.find(([, mapped]) => member.$ref
+          ? this.toSchemaRef(mapped) === member.$ref
+          : JSON.stringify(this.resolveMappedSchema(mapped)) === JSON.stringify(target));
+        const ref = member.$ref ?? entry?.[1] ?? this.findSchemaRef(target);
+        return this.toSchemaVariant(target, [keyword, String(index)], discriminator, entry?.[0], ref);
+      });
+    }
+
+    return mapping.map(([value, mapped]) =>
+      this.toSchemaVariant(this.resolveMappedSchema(mapped), ['discriminator', 'mapping', value], discriminator, value, mapped));
+  }
+
+  /**
+   * Get the x-* extensions of the info object
+   */
+  getInfoExtensions(): Extensible {
+    return this.pickExtensions(this.parseApiSpec().info);
+  }
+
+  /**
+   * Get the x-* extensions of a specific operation
+   */
+  getOperationExtensions(path: string, method: string): Extensible {
+    return this.pickExtensions(this.getOperation(path, method));
+  }
+
+  /**
+   * Get the x-* extensions of an endpoint parameter (path-item parameters included)
+   * Without a location the first parameter with the name is used
+   */
+  getParameterExtensions(path: string, method: string, name: string, location?: ParameterLocation): Extensible {
+    const parameter = this.getEndpointParameters(path, method)
+      .find(candidate => candidate.name === name && (!location || candidate.in === location));
+    return this.pickExtensions(parameter);
+  }
+
+  /**
+   * Get the x-* extensions of a components schema
+   */
+  getSchemaExtensions(schemaName: string): Extensible {
+    return this.pickExtensions(this.getSchema(schemaName));
+  }
+
+  /**
+   * Get the code samples of an operation (x-codeSamples, or the older x-code-samples)
+   */
+  getCodeSamples(path: string, method: string): CodeSampleExtension[] {
+    const extensions = this.getOperationExtensions(path, method);
+    const samples = extensions['x-codeSamples'] ?? extensions['x-code-samples'];
+    return Array.isArray(samples)
+      ? samples.filter(sample => sample && typeof sample.lang === 'string' && typeof sample.source === 'string')
+      : [];
+  }
+
+  /**
+   * Check if an operation is excluded from the rendered documentation (x-hidden or x-internal)
+   */
+  isOperationHidden(path: string, method: string): boolean {
+    const extensions = this.getOperationExtensions(path, method);
+    return extensions['x-hidden'] === true || extensions['x-internal'] === true;
+  }
+
+  /**
+   * Get all operations excluded from the rendered documentation
+   */
+  getHiddenOperations(): ApiOperation[] {
+    return this.getOperations().filter(({ path, method }) => this.isOperationHidden(path, method));
+  }
+
+  /**
+   * Get the API logo declared with x-logo on the info object
+   */
+  getLogo(): LogoExtension | undefined {
+    const logo = this.getInfoExtensions()['x-logo'];
+    return logo && typeof logo.url === 'string' ? logo : undefined;
+  }
+
+  private mergeAllOf(schema: SchemaObject, seen: Set<SchemaObject>): SchemaObject {
+    const resolved = this.resolveReference(schema);
+    if (!resolved.allOf || seen.has(resolved)) {
+      return resolved;
+    }
+
+    seen.add(resolved);
+    const { allOf, ...own } = resolved;
+    return [...allOf.map(member => this.mergeAllOf(member, seen)), own].reduce((merged: SchemaObject, part) => ({
+      ...merged,
+      ...part,
+      properties: { ...merged.properties, ...part.properties },
+      required: [...new Set([...(merged.required || []), ...(part.required || [])])]
+    }), {});
+  }
+
+  /**
+   * The variant name is what the portal labels it with: its title, else the schema name, else the discriminator value
+   * Without an explicit mapping the discriminator value is the const/single enum of the property, or the schema name
+   */
+  private toSchemaVariant(
+    schema: SchemaObject,
+    pointer: string[],
+    discriminator: DiscriminatorObject | undefined,
+    mappedValue: string | undefined,
+    ref: string | undefined
+  ): SchemaVariant {
+    const flattened = this.flattenSchema(schema);
+    const schemaName = ref ? this.toSchemaRef(ref).split('/').pop() : undefined;
+
+    let discriminatorValue = mappedValue;
+    if (discriminator && discriminatorValue === undefined) {
+      const property = flattened.properties?.[discriminator.propertyName];
+      const single = property?.const ?? (property?.enum?.length === 1 ? property.enum[0] : undefined);
+      discriminatorValue = single !== undefined ? String(single) : schemaName;
+    }
+
+    return {
+      name: schema.title || schemaName || discriminatorValue || pointer.join('/'),
+      discriminatorValue,
+      pointer,
+      schema: flattened,
+      properties: flattened.properties || {},
+      required: flattened.required || []
+    };
+  }
+
+  /**
+   * Discriminator mapping values are either a $ref or a bare components schema name
+   */
+  private toSchemaRef(mapped: string): string {
+    return mapped.includes('#') || mapped.includes('/') ? mapped : `#/components/schemas/${mapped}`;
+  }
+
+  private resolveMappedSchema(mapped: string): SchemaObject {
+    return this.resolveReference<SchemaObject>({ $ref: this.toSchemaRef(mapped) });
+  }
+
+  /**
+   * Find the components schema an expanded schema was copied from
+   */
+  private findSchemaRef(schema: SchemaObject): string | undefined {
+    const content = JSON.stringify(schema);
+    const name = Object.keys(this.getSchemas()).find(candidate => JSON.stringify(this.getSchema(candidate)) === content);
+    return name ? `#/components/schemas/${name}` : undefined;
+  }
+
+  private pickExtensions(node: object | undefined): Extensible {
+    return Object.fromEntries(Object.entries(node || {}).filter(([key]) => key.startsWith('x-')));
+  }
+
+  private toEffectiveOperation(apiOperation: ApiOperation): EffectiveOperation {
+    const { path, method } = apiOperation;
+    const requestBody = this.getEndpointRequestBody(path, method);
+
+    return {
+      ...apiOperation,
+      parameters: this.getEndpointParameters(path, method),
+      requestBody: requestBody && {
+        description: requestBody.description,
+        required: requestBody.required === true,
+        mediaTypes: Object.entries(requestBody.content || {}).map(([mediaType, media]) => ({ mediaType, schema: media.schema }))
+      }
+    };
+  }
+
+  /**
+   * Get the path item for a path, following a local $ref to components/pathItems
+   */
+  private getPathItem(path: string): PathItem | undefined {
+    const pathItem = this.parseApiSpec().paths?.[path];
+    return pathItem ? this.resolveReference(pathItem) : undefined;
+  }
+
+  /**
+   * Resolve a local (#/...) $ref against the parsed specification
+   * Relative-file refs are only expanded when the parser is created with dereferenceEnabled
+   */
+  private resolveReference<T extends object>(value: Referenceable<T> | T): T {
+    let current: any = value;
+    const seen = new Set<string>();
+
+    while (isReference(current) && current.$ref.startsWith('#/') && !seen.has(current.$ref)) {
+      seen.add(current.$ref);
+      const target = current.$ref.substring(2).split('/')
+        .map(unescapePointerToken)
+        .reduce((node: any, token: string) => node?.[token], this.parseApiSpec());
+      if (target === undefined) {
+        break;
+      }
+      current = target;
+    }
+    return current as T;
+  }
+
+  private resolveEntries<T extends object>(entries: { [key: string]: Referenceable<T> }): { [key: string]: T } {
+    return Object.fromEntries(Object.entries(entries).map(([key, value]) => [key, this.resolveReference(value)]));
+  }
 }
@@ -0,0 +1,181 @@
+import {
+  ContactObject,
+  Extensible,
+  ExternalDocumentationObject,
+  LicenseObject,
+  Referenceable,
+  SchemaObject,
+  ServerVariableObject,
+  TagObject
+} from './openapi-model';
+
+/**
+ * AsyncAPI 2.x/3.x document model
+ * Only the parts the documentation checks read are typed; both major versions share the interfaces
+ * and version specific fields are optional
+ */
+
+export type AsyncApiAction = 'send' | 'receive';
+
+export interface AsyncApiInfoObject extends Extensible {
+  title: string;
+  version: string;
+  description?: string;
+  termsOfService?: string;
+  contact?: ContactObject;
+  license?: LicenseObject;
+  // 3.x moved tags and externalDocs into info
+  tags?: TagObject[];
+  externalDocs?: ExternalDocumentationObject;
+}
+
+export interface AsyncApiServerObject extends Extensible {
+  // 2.x
+  url?: string;
+  // 3.x
+  host?: string;
+  pathname?: string;
+  protocol: string;
+  protocolVersion?: string;
+  description?: string;
+  variables?: { [name: string]: ServerVariableObject };
+  security?: Array<{ [name: string]: string[] }>;
+  bindings?: { [protocol: string]: any };
+}
+
+export interface AsyncApiMessageObject extends Extensible {
+  messageId?: string;
+  name?: string;
+  title?: string;
+  summary?: string;
+  description?: string;
+  contentType?: string;
+  headers?: Referenceable<SchemaObject>;
+  payload?: Referenceable<SchemaObject>;
+  correlationId?: any;
+  tags?: TagObject[];
+  examples?: Array<{ name?: string; summary?: string; headers?: any; payload?: any }>;
+  bindings?: { [protocol: string]: any };
+}
+
+export interface AsyncApiParameterObject extends Extensible {
+  description?: string;
+  // 2.x
+  schema?: Referenceable<SchemaObject>;
+  location?: string;
+  // 3.x
+  enum?: string[];
+  default?: string;
+  examples?: string[];
+}
+
+/**
+ * 2.x publish/subscribe operation, nested in a channel
+ */
+export interface AsyncApi2OperationObject extends Extensible {
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  tags?: TagObject[];
+  message?: Referenceable<AsyncApiMessageObject> | { oneOf: Array<Referenceable<AsyncApiMessageObject>> };
+}
+
+/**
+ * 3.x top level operation, pointing at a channel and (a subset of) its messages
+ */
+export interface AsyncApi3OperationObject extends Extensible {
+  action: AsyncApiAction;
+  channel: Referenceable<AsyncApiChannelObject>;
+  title?: string;
+  summary?: string;
+  description?: string;
+  tags?: TagObject[];
+  messages?: Array<Referenceable<AsyncApiMessageObject>>;
+}
+
+export interface AsyncApiChannelObject extends Extensible {
+  // 3.x; in 2.x the channel key is the address
+  address?: string | null;
+  title?: string;
+  summary?: string;
+  description?: string;
+  servers?: Array<string | Referenceable<AsyncApiServerObject>>;
+  parameters?: { [name: string]: Referenceable<AsyncApiParameterObject> };
+  // 3.x
+  messages?: { [name: string]: Referenceable<AsyncApiMessageObject> };
+  // 2.x
+  publish?: AsyncApi2OperationObject;
+  subscribe?: AsyncApi2OperationObject;
+  bindings?: { [protocol: string]: any };
+}
+
+export interface AsyncApiComponents extends Extensible {
+  schemas?: { [name: string]: SchemaObject };
+  messages?: { [name: string]: Referenceable<AsyncApiMessageObject> };
+  parameters?: { [name: string]: Referenceable<AsyncApiParameterObject> };
+  channels?: { [name: string]: Referenceable<AsyncApiChannelObject> };
+  servers?: { [name: string]: Referenceable<AsyncApiServerObject> };
+  securitySchemes?: { [name: string]: any };
+}
+
+export interface AsyncApiSpec extends Extensible {
+  asyncapi: string;
+  id?: string;
+  info: AsyncApiInfoObject;
+  defaultContentType?: string;
+  servers?: { [name: string]: Referenceable<AsyncApiServerObject> };
+  channels?: { [name: string]: Referenceable<AsyncApiChannelObject> };
+  operations?: { [name: string]: Referenceable<AsyncApi3OperationObject> };
+  components?: AsyncApiComponents;
+  // 2.x
+  tags?: TagObject[];
+  externalDocs?: ExternalDocumentationObject;
+}
+
+/**
+ * A server with its name and a single connection URL (2.x url, or 3.x host + pathname)
+ */
+export interface AsyncApiServer {
+  name: string;
+  url: string;
+  protocol: string;
+  protocolVersion?: string;
+  description?: string;
+  variables: { [name: string]: ServerVariableObject };
+}
+
+/**
+ * A message with its name and expanded payload and header schemas
+ */
+export interface AsyncApiMessage {
+  name: string;
+  title?: string;
+  summary?: string;
+  description?: string;
+  contentType?: string;
+  payload?: SchemaObject;
+  headers?: SchemaObject;
+}
+
+/**
+ * An operation in the 3.x shape; 2.x publish maps to receive and subscribe to send
+ */
+export interface AsyncApiOperation {
+  operationId: string;
+  action: AsyncApiAction;
+  channel: string;
+  summary?: string;
+  description?: string;
+  messages: AsyncApiMessage[];
+}
+
+/**
+ * A channel with its address, parameter names and the messages it carries
+ */
+export interface AsyncApiChannel {
+  name: string;
+  address: string;
+  description?: string;
+  parameters: string[];
+  messages: AsyncApiMessage[];
+}
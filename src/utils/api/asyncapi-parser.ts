@@ -0,0 +1,481 @@
+import * as fs from 'fs';
+import * as yaml from 'js-yaml';
+import * as path from 'path';
+import { RefResolver } from './ref-resolver';
+import { ApiSpecSourceType, IApiSpecFormatParser } from './spec-format-parser';
+import { Referenceable, SchemaObject, TagObject, isReference } from './openapi-model';
+import {
+  AsyncApi2OperationObject,
+  AsyncApi3OperationObject,
+  AsyncApiChannel,
+  AsyncApiChannelObject,
+  AsyncApiMessage,
+  AsyncApiMessageObject,
+  AsyncApiOperation,
+  AsyncApiServer,
+  AsyncApiServerObject,
+  AsyncApiSpec
+} from './asyncapi-model';
+
+/**
+ * AsyncAPI versions accepted by validateAsyncApiSpec
+ */
+const SUPPORTED_ASYNCAPI_VERSIONS = /^[23]\.\d+\.\d+/;
+
+const ASYNCAPI_MARKER = /^\s*["']?asyncapi["']?\s*:/m;
+
+/**
+ * AsyncAPI 2.x/3.x format parser (YAML or JSON)
+ * Detects documents by the top level asyncapi field, so it never claims OpenAPI files
+ */
+export class AsyncApiFormatParser implements IApiSpecFormatParser<AsyncApiSpec> {
+  canParse(source: string, sourceType: ApiSpecSourceType): boolean {
+    if (sourceType === ApiSpecSourceType.FILE_PATH) {
+      return this.getSupportedExtensions().includes(path.extname(source).toLowerCase()) && fs.existsSync(source) &&
+        ASYNCAPI_MARKER.test(fs.readFileSync(source, 'utf8'));
+    }
+    if (sourceType === ApiSpecSourceType.CONTENT_STRING) {
+      return ASYNCAPI_MARKER.test(source);
+    }
+    return false;
+  }
+
+  parse(content: string): AsyncApiSpec {
+    try {
+      return yaml.load(content) as AsyncApiSpec;
+    } catch (error) {
+      throw new Error(`Failed to parse AsyncAPI content: ${error}`);
+    }
+  }
+
+  getSupportedExtensions(): string[] {
+    return ['.yaml', '.yml', '.json'];
+  }
+
+  getSupportedMediaTypes(): string[] {
+    return ['application/vnd.aai.asyncapi', 'application/vnd.aai.asyncapi+json', 'application/vnd.aai.asyncapi+yaml'];
+  }
+}
+
+/**
+ * Options interface for AsyncApiParser configuration
+ */
+export interface AsyncApiParserOptions {
+  validationEnabled?: boolean;
+  cacheEnabled?: boolean;
+}
+
+/**
+ * AsyncAPI document parser - the event-driven counterpart of ApiSpecParser
+ * Channels play the role of endpoint paths and messages the role of operations; 2.x documents are
+ * read into the same channel/operation/message model as 3.x documents
+ */
+export class AsyncApiParser {
+  private source: string;
+  private sourceType: ApiSpecSourceType;
+  private formatParsers: IApiSpecFormatParser<AsyncApiSpec>[];
+  private validationEnabled: boolean;
+  private cacheEnabled: boolean;
+  private asyncApiSpec: AsyncApiSpec | null = null;
+  private resolvedSpec: AsyncApiSpec | null = null;
+
+  constructor(
+    source: string,
+    sourceType: ApiSpecSourceType,
+    formatParsers: IApiSpecFormatParser<AsyncApiSpec>[] = [new AsyncApiFormatParser()],
+    options?: AsyncApiParserOptions
+  ) {
+    this.source = source;
+    this.sourceType = sourceType;
+    this.formatParsers = formatParsers;
+    this.validationEnabled = options?.validationEnabled ?? true;
+    this.cacheEnabled = options?.cacheEnabled ?? true;
+  }
+
+  /**
+   * Create parser from file path
+   */
+  static fromFile(filePath: string, options?: AsyncApiParserOptions): AsyncApiParser {
+    return new AsyncApiParser(filePath, ApiSpecSourceType.FILE_PATH, undefined, options);
+  }
+
+  /**
+   * Create parser from content string
+   */
+  static fromContent(content: string, options?: AsyncApiParserOptions): AsyncApiParser {
+    return new AsyncApiParser(content, ApiSpecSourceType.CONTENT_STRING, undefined, options);
+  }
+
+  /**
+   * Check if a parsed document is an AsyncAPI document
+   */
+  static isAsyncApi(document: any): boolean {
+    return !!document && typeof document === 'object' && typeof document.asyncapi === 'string';
+  }
+
+  /**
+   * Parse the AsyncAPI document ($ref pointers are kept as written)
+   */
+  parseAsyncApi(): AsyncApiSpec {
+    if (this.cacheEnabled && this.asyncApiSpec) {
+      return this.asyncApiSpec;
+    }
+
+    try {
+      const parser = this.formatParsers.find(p => p.canParse(this.source, this.sourceType));
+      if (!parser) {
+        throw new Error('Source is not an AsyncAPI document (missing asyncapi field)');
+      }
+
+      this.asyncApiSpec = parser.parse(this.readContent());
+      this.resolvedSpec = null;
+
+      if (this.validationEnabled) {
+        this.validateAsyncApiSpec(this.asyncApiSpec);
+      }
+      return this.asyncApiSpec;
+    } catch (error) {
+      throw new Error(`Failed to parse AsyncAPI specification: ${error}`);
+    }
+  }
+
+  /**
+   * Get the AsyncAPI version of the document (e.g. 2.6.0)
+   */
+  getAsyncApiVersion(): string {
+    return String(this.parseAsyncApi().asyncapi);
+  }
+
+  /**
+   * Check if the document uses the AsyncAPI 3.x structure (top level operations, channel addresses)
+   */
+  isAsyncApi3(): boolean {
+    return this.getAsyncApiVersion().startsWith('3.');
+  }
+
+  /**
+   * Get API title from the document
+   */
+  getApiTitle(): string {
+    return this.parseAsyncApi().info.title;
+  }
+
+  /**
+   * Get API version from the document
+   */
+  getApiVersion(): string {
+    return this.parseAsyncApi().info.version;
+  }
+
+  /**
+   * Get API description from the document
+   */
+  getApiDescription(): string | undefined {
+    return this.parseAsyncApi().info.description;
+  }
+
+  /**
+   * Get tags from the document (root level in 2.x, info level in 3.x)
+   */
+  getTags(): TagObject[] {
+    const spec = this.parseAsyncApi();
+    return spec.info.tags || spec.tags || [];
+  }
+
+  /**
+   * Get servers with their names; 3.x host and pathname are joined into the url
+   */
+  getServers(): AsyncApiServer[] {
+    const spec = this.getResolvedSpec();
+    return Object.entries(spec.servers || {}).map(([name, value]) => {
+      const server = value as AsyncApiServerObject;
+      return {
+        name,
+        url: server.url ?? `${server.host || ''}${server.pathname || ''}`,
+        protocol: server.protocol,
+        ...(server.protocolVersion ? { protocolVersion: server.protocolVersion } : {}),
+        ...(server.description ? { description: server.description } : {}),
+        variables: server.variables || {}
+      };
+    });
+  }
+
+  /**
+   * Get all channel names from the document - the AsyncAPI counterpart of getEndpointPaths
+   * In 2.x the name is the channel address, in 3.x the channel id
+   */
+  getChannelNames(): string[] {
+    const spec = this.parseAsyncApi();
+    return spec.channels ? Object.keys(spec.channels) : [];
+  }
+
+  /**
+   * Get the addresses (topics, queues, routing keys) of all channels
+   */
+  getChannelAddresses(): string[] {
+    return this.getChannels().map(channel => channel.address);
+  }
+
+  /**
+   * Get all channels with their messages in declaration order
+   */
+  getChannels(): AsyncApiChannel[] {
+    return this.getChannelNames().map(name => this.getChannel(name)!);
+  }
+
+  /**
+   * Get a channel by name
+   */
+  getChannel(name: string): AsyncApiChannel | undefined {
+    const raw = this.parseAsyncApi().channels?.[name];
+    const channel = this.getResolvedSpec().channels?.[name] as AsyncApiChannelObject | undefined;
+    if (!raw || !channel) {
+      return undefined;
+    }
+
+    return {
+      name,
+      // A null 3.x address means the address is dynamic or unknown
+      address: this.isAsyncApi3() ? channel.address ?? '' : name,
+      ...(channel.description ? { description: channel.description } : {}),
+      parameters: Object.keys(channel.parameters || {}),
+      messages: this.isAsyncApi3() ? this.toChannelMessages3(channel) : this.toChannelMessages2(raw as AsyncApiChannelObject, channel)
+    };
+  }
+
+  /**
+   * Get the messages carried by a channel
+   */
+  getChannelMessages(name: string): AsyncApiMessage[] {
+    return this.getChannel(name)?.messages || [];
+  }
+
+  /**
+   * Get all operations; 2.x publish/subscribe operations are mapped to receive/send
+   */
+  getOperations(): AsyncApiOperation[] {
+    return this.isAsyncApi3() ? this.toOperations3() : this.toOperations2();
+  }
+
+  /**
+   * Get all messages of the document, unique by name
+   * Messages used by channels come first, followed by unused components/messages
+   */
+  getMessages(): AsyncApiMessage[] {
+    const messages = new Map<string, AsyncApiMessage>();
+    for (const channel of this.getChannels()) {
+      for (const message of channel.messages) {
+        if (!messages.has(message.name)) {
+          messages.set(message.name, message);
+        }
+      }
+    }
+
+    const components = this.getResolvedSpec().components?.messages || {};
+    for (const [name, message] of Object.entries(components)) {
+      if (!messages.has(name)) {
+        messages.set(name, this.toMessage(name, message as AsyncApiMessageObject));
+      }
+    }
+    return [...messages.values()];
+  }
+
+  /**
+   * Get a message by name
+   */
+  getMessage(name: string): AsyncApiMessage | undefined {
+    return this.getMessages().find(message => message.name === name);
+  }
+
+  /**
+   * Get the expanded payload schema of a message
+   */
+  getMessagePayload(name: string): SchemaObject | undefined {
+    return this.getMessage(name)?.payload;
+  }
+
+  /**
+   * Get components/schemas from the document - the AsyncAPI counterpart of ApiSpecParser.getSchemas
+   */
+  getSchemas(): { [name: string]: SchemaObject } {
+    const spec = this.parseAsyncApi();
+    return spec.components?.schemas || {};
+  }
+
+  /**
+   * Get a specific schema by name
+   */
+  getSchema(schemaName: string): SchemaObject | undefined {
+    const schemas = this.getSchemas();
+    return schemas[schemaName];
+  }
+
+  /**
+   * Get the raw specification content based on source type
+   */
+  private readContent(): string {
+    if (this.sourceType === ApiSpecSourceType.FILE_PATH) {
+      return fs.readFileSync(this.source, 'utf8');
+    }
+    if (this.sourceType === ApiSpecSourceType.CONTENT_STRING) {
+      return this.source;
+    }
+    throw new Error(`Unsupported source type: ${this.sourceType}`);
+  }
+
+  /**
+   * Validate the parsed AsyncAPI document
+   */
+  private validateAsyncApiSpec(spec: AsyncApiSpec): void {
+    if (!AsyncApiParser.isAsyncApi(spec)) {
+      throw new Error('Invalid AsyncAPI specification: missing asyncapi version');
+    }
+    if (!SUPPORTED_ASYNCAPI_VERSIONS.test(spec.asyncapi)) {
+      throw new Error(`Invalid AsyncAPI specification: unsupported AsyncAPI version ${spec.asyncapi}`);
+    }
+    if (!spec.info) {
+      throw new Error('Invalid AsyncAPI specification: missing info section');
+    }
+    if (!spec.info.title) {
+      throw new Error('Invalid AsyncAPI specification: missing title in info section');
+    }
+    if (!spec.info.version) {
+      throw new Error('Invalid AsyncAPI specification: missing version in info section');
+    }
+  }
+
+  /**
+   * Get the document with all $ref pointers expanded
+   * Names of referenced channels and messages are read from the unresolved document
+   */
+  private getResolvedSpec(): AsyncApiSpec {
+    const spec = this.parseAsyncApi();
+    if (!this.resolvedSpec) {
+      const isFile = this.sourceType === ApiSpecSourceType.FILE_PATH;
+      const resolver = new RefResolver(isFile ? path.dirname(path.resolve(this.source)) : process.cwd());
+      this.resolvedSpec = resolver.dereference(spec, isFile ? this.source : undefined);
+    }
+    return this.resolvedSpec;
+  }
+
+  private toChannelMessages3(channel: AsyncApiChannelObject): AsyncApiMessage[] {
+    return Object.entries(channel.messages || {}).map(([name, message]) => this.toMessage(name, message as AsyncApiMessageObject));
+  }
+
+  /**
+   * 2.x channels carry the messages of their publish and subscribe operations (oneOf lists included)
+   */
+  private toChannelMessages2(raw: AsyncApiChannelObject, channel: AsyncApiChannelObject): AsyncApiMessage[] {
+    const messages: AsyncApiMessage[] = [];
+    for (const kind of ['publish', 'subscribe'] as const) {
+      for (const message of this.toOperationMessages2(raw[kind], channel[kind])) {
+        if (!messages.some(existing => existing.name === message.name)) {
+          messages.push(message);
+        }
+      }
+    }
+    return messages;
+  }
+
+  private toOperationMessages2(raw: AsyncApi2OperationObject | undefined, operation: AsyncApi2OperationObject | undefined): AsyncApiMessage[] {
+    if (!raw?.message || !operation?.message) {
+      return [];
+    }
+
+    const rawMessages = this.toMessageList(raw.message);
+    const messages = this.toMessageList(operation.message);
+    return messages.map((message, index) => {
+      const fallback = `${operation.operationId || 'message'}${messages.length > 1 ? index + 1 : ''}`;
+      const rawMessage = rawMessages[index];
+      // A circular message is left as a $ref stub by the resolver and has nothing to read
+      const resolved: AsyncApiMessageObject = isReference(message) ? {} : message;
+      return this.toMessage(isReference(rawMessage) ? this.refName(rawMessage.$ref) : resolved.messageId || resolved.name || fallback, resolved);
+    });
+  }
+
+  private toMessageList(message: AsyncApi2OperationObject['message']): Array<Referenceable<AsyncApiMessageObject>> {
+    if (!message) {
+      return [];
+    }
+    return 'oneOf' in message ? message.oneOf : [message];
+  }
+
+  private toOperations2(): AsyncApiOperation[] {
+    const operations: AsyncApiOperation[] = [];
+    for (const name of this.getChannelNames()) {
+      const raw = this.parseAsyncApi().channels![name] as AsyncApiChannelObject;
+      const channel = this.getResolvedSpec().channels![name] as AsyncApiChannelObject;
+
+      // 2.x describes what clients do: an application receives what clients publish
+      for (const [kind, action] of [['publish', 'receive'], ['subscribe', 'send']] as const) {
+        const operation = channel[kind];
+        if (!operation) {
+          continue;
+        }
+        operations.push({
+          operationId: operation.operationId || `${kind}${name}`,
+          action,
+          channel: name,
+          ...(operation.summary ? { summary: operation.summary } : {}),
+          ...(operation.description ? { description: operation.description } : {}),
+          messages: this.toOperationMessages2(raw[kind], operation)
+        });
+      }
+    }
+    return operations;
+  }
+
+  /**
+   * 3.x operations reference their channel and a subset of its messages; no messages means all of them
+   */
+  private toOperations3(): AsyncApiOperation[] {
+    const rawOperations = this.parseAsyncApi().operations || {};
+    const resolvedOperations = Object.entries(this.getResolvedSpec().operations || {})
+      .filter((entry): entry is [string, AsyncApi3OperationObject] => !isReference(entry[1]));
+    return resolvedOperations.map(([operationId, operation]) => {
+      const raw = rawOperations[operationId];
+      // An operation defined by $ref (e.g. to components/operations) has no raw channel or message refs to name things by
+      const rawOperation: Partial<AsyncApi3OperationObject> = isReference(raw) ? {} : raw;
+      const channelName = isReference(rawOperation.channel) ? this.refName(rawOperation.channel.$ref) : '';
+      const channelMessages = this.getChannelMessages(channelName);
+      const messages = Array.isArray(rawOperation.messages)
+        ? rawOperation.messages.map((message, index) => {
+          const name = isReference(message) ? this.refName(message.$ref) : '';
+          const resolved = operation.messages?.[index];
+          return channelMessages.find(channelMessage => channelMessage.name === name)
+            || this.toMessage(name || `${operationId}${index + 1}`, resolved && !isReference(resolved) ? resolved : {});
+        })
+        : channelMessages;
+
+      return {
+        operationId,
+        action: operation.action,
+        channel: channelName,
+        ...(operation.summary ? { summary: operation.summary } : {}),
+        ...(operation.description ? { description: operation.description } : {}),
+        messages
+      };
+    });
+  }
+
+  private toMessage(name: string, message: AsyncApiMessageObject): AsyncApiMessage {
+    const contentType = message.contentType || this.parseAsyncApi().defaultContentType;
+    return {
+      name,
+      ...(message.title ? { title: message.title } : {}),
+      ...(message.summary ? { summary: message.summary } : {}),
+      ...(message.description ? { description: message.description } : {}),
+      ...(contentType ? { contentType } : {}),
+      ...(message.payload ? { payload: message.payload as SchemaObject } : {}),
+      ...(message.headers ? { headers: message.headers as SchemaObject } : {})
+    };
+  }
+
+  /**
+   * Last token of a $ref pointer (#/components/messages/UserSignedUp -> UserSignedUp)
+   */
+  private refName(ref: string): string {
+    const token = ref.substring(ref.lastIndexOf('/') + 1);
+    return decodeURIComponent(token).replace(/~1/g, '/').replace(/~0/g, '~');
+  }
+}
@@ -0,0 +1,338 @@
+import { ApiSpec } from './api-spec-parser';
+import {
+  HttpMethod,
+  MediaTypeObject,
+  Operation,
+  Parameter,
+  RequestBody,
+  ResponseObject,
+  SchemaObject,
+  SecurityRequirement,
+  SecurityScheme,
+  TagObject,
+  isHttpMethod
+} from './openapi-model';
+
+/**
+ * A request of the source collection that did not make it into the specification
+ */
+export interface SkippedRequest {
+  name: string;
+  reason: string;
+}
+
+/**
+ * Summary of a collection to OpenAPI conversion, used to measure conversion fidelity
+ */
+export interface CollectionConversionReport {
+  sourceFormat: 'postman' | 'insomnia';
+  requestCount: number;
+  operationCount: number;
+  skipped: SkippedRequest[];
+  warnings: string[];
+}
+
+/**
+ * Result of converting a collection
+ */
+export interface CollectionConversionResult {
+  spec: ApiSpec;
+  report: CollectionConversionReport;
+}
+
+/**
+ * Split URL of a collection request: origin (may contain template variables), path segments and query string
+ */
+export interface CollectionUrl {
+  origin?: string;
+  segments: string[];
+  query: Array<{ name: string; value?: string; description?: string }>;
+}
+
+/**
+ * A body as collections store it: a media type plus raw text, or form fields
+ */
+export interface CollectionBody {
+  mediaType: string;
+  text?: string;
+  fields?: Array<{ name: string; value?: string; description?: string; file?: boolean }>;
+}
+
+/**
+ * Incrementally builds an OpenAPI 3.0 document from collection requests
+ * Shared by the Postman and Insomnia converters so both produce the same shape
+ */
+export class CollectionSpecBuilder {
+  private spec: ApiSpec;
+  private tags: Map<string, TagObject> = new Map();
+  private servers: Map<string, { url: string; variables?: { [name: string]: { default: string } } }> = new Map();
+  private operationIds: Set<string> = new Set();
+  private report: CollectionConversionReport;
+
+  constructor(sourceFormat: 'postman' | 'insomnia', title: string, version: string, description?: string) {
+    this.spec = {
+      openapi: '3.0.3',
+      info: { title, version, ...(description ? { description } : {}) },
+      paths: {}
+    };
+    this.report = { sourceFormat, requestCount: 0, operationCount: 0, skipped: [], warnings: [] };
+  }
+
+  /**
+   * Add a tag, keeping the first description seen
+   */
+  addTag(name: string, description?: string): void {
+    if (!this.tags.has(name)) {
+      this.tags.set(name, { name, ...(description ? { description } : {}) });
+    }
+  }
+
+  /**
+   * Add a server from a request origin; {{variable}} placeholders become server variables
+   */
+  addServer(origin: string, variables: { [name: string]: string } = {}): void {
+    const serverVariables: { [name: string]: { default: string } } = {};
+    const url = origin.replace(/\{\{\s*(?:_\.)?([\w.-]+)\s*\}\}/g, (placeholder, name: string) => {
+      if (variables[name] !== undefined && !/\{\{/.test(variables[name])) {
+        return variables[name].replace(/\/+$/, '');
+      }
+      serverVariables[name] = { default: '' };
+      return `{${name}}`;
+    });
+
+    if (!this.servers.has(url)) {
+      this.servers.set(url, Object.keys(serverVariables).length > 0 ? { url, variables: serverVariables } : { url });
+    }
+  }
+
+  /**
+   * Add a security scheme under a name
+   */
+  addSecurityScheme(name: string, scheme: SecurityScheme): void {
+    this.spec.components = this.spec.components || {};
+    this.spec.components.securitySchemes = this.spec.components.securitySchemes || {};
+    this.spec.components.securitySchemes[name] = scheme;
+  }
+
+  /**
+   * Set the document level security requirement
+   */
+  setSecurity(security: SecurityRequirement[]): void {
+    this.spec.security = security;
+  }
+
+  /**
+   * Count a source request without producing an operation
+   */
+  skipRequest(name: string, reason: string): void {
+    this.report.requestCount++;
+    this.report.skipped.push({ name, reason });
+  }
+
+  /**
+   * Record a conversion warning (data that was dropped or approximated)
+   */
+  warn(message: string): void {
+    this.report.warnings.push(message);
+  }
+
+  /**
+   * Add a converted request as an operation
+   * The first request wins when several map to the same path and method
+   */
+  addOperation(name: string, method: string, path: string, operation: Operation): void {
+    const httpMethod = method.toLowerCase();
+    if (!isHttpMethod(httpMethod)) {
+      this.skipRequest(name, `unsupported HTTP method ${method}`);
+      return;
+    }
+
+    const pathItem = this.spec.paths![path] || {};
+    if (pathItem[httpMethod]) {
+      this.skipRequest(name, `duplicate operation ${method.toUpperCase()} ${path}`);
+      return;
+    }
+
+    this.report.requestCount++;
+    this.report.operationCount++;
+    pathItem[httpMethod] = { ...operation, operationId: this.uniqueOperationId(name, httpMethod, path) };
+    this.spec.paths![path] = pathItem;
+  }
+
+  /**
+   * Build the specification and the conversion report
+   */
+  build(): CollectionConversionResult {
+    if (this.servers.size > 0) {
+      this.spec.servers = [...this.servers.values()];
+    }
+    if (this.tags.size > 0) {
+      this.spec.tags = [...this.tags.values()];
+    }
+    return { spec: this.spec, report: this.report };
+  }
+
+  private uniqueOperationId(name: string, method: HttpMethod, path: string): string {
+    const words = (name || `${method} ${path}`).replace(/[^A-Za-z0-9]+/g, ' ').trim().split(' ').filter(Boolean);
+    const base = words.length > 0
+      ? words.map((word, index) => index === 0 ? word.charAt(0).toLowerCase() + word.substring(1) : word.charAt(0).toUpperCase() + word.substring(1)).join('')
+      : method;
+
+    let operationId = base;
+    for (let suffix = 2; this.operationIds.has(operationId); suffix++) {
+      operationId = `${base}${suffix}`;
+    }
+    this.operationIds.add(operationId);
+    return operationId;
+  }
+}
+
+/**
+ * Split a raw request URL into origin, path segments and query parameters
+ * The origin is everything before the first path segment, including a leading {{baseUrl}} style variable
+ */
+export function parseCollectionUrl(raw: string): CollectionUrl {
+  const [withoutHash] = raw.trim().split('#');
+  const queryIndex = withoutHash.indexOf('?');
+  const base = queryIndex >= 0 ? withoutHash.substring(0, queryIndex) : withoutHash;
+  const queryString = queryIndex >= 0 ? withoutHash.substring(queryIndex + 1) : '';
+
+  const originMatch = base.match(/^((?:[a-z][a-z0-9+.-]*:\/\/)?(?:\{\{[^}]+\}\}|[^/{}]+)?)(\/.*)?$/i);
+  let origin = originMatch ? originMatch[1] : '';
+  let pathPart = originMatch ? originMatch[2] || '' : base;
+
+  // A bare path (no scheme, no variable) has no origin
+  if (origin && !/^[a-z][a-z0-9+.-]*:\/\//i.test(origin) && !origin.startsWith('{{') && !origin.includes('.') && !origin.includes(':')) {
+    pathPart = `/${origin}${pathPart}`;
+    origin = '';
+  }
+
+  const query = queryString
+    .split('&')
+    .filter(Boolean)
+    .map(pair => {
+      const [name, ...value] = pair.split('=');
+      return { name: decodeURIComponent(name), value: value.length > 0 ? decodeURIComponent(value.join('=')) : undefined };
+    });
+
+  return { origin: origin || undefined, segments: pathPart.split('/').filter(Boolean), query };
+}
+
+/**
+ * Convert collection path segments to an OpenAPI path and its path parameters
+ * ':id', '{{id}}' and '{{ _.id }}' segments become '{id}'
+ */
+export function toOpenApiPath(
+  segments: string[],
+  descriptions: { [name: string]: { value?: string; description?: string } } = {}
+): { path: string; parameters: Parameter[] } {
+  const parameters: Parameter[] = [];
+  const converted = segments.map(segment => {
+    const match = segment.match(/^:([\w.-]+)$/) || segment.match(/^\{\{\s*(?:_\.)?([\w.-]+)\s*\}\}$/);
+    if (!match) {
+      return segment;
+    }
+    const name = match[1];
+    const detail = descriptions[name] || {};
+    parameters.push({
+      name,
+      in: 'path',
+      required: true,
+      ...(detail.description ? { description: detail.description } : {}),
+      schema: { type: 'string' },
+      ...(detail.value && !detail.value.includes('{{') ? { example: detail.value } : {})
+    });
+    return `{${name}}`;
+  });
+
+  return { path: `/${converted.join('/')}`, parameters };
+}
+
+/**
+ * Build a query or header parameter from a collection key/value pair
+ */
+export function toParameter(location: 'query' | 'header', name: string, value?: string, description?: string): Parameter {
+  return {
+    name,
+    in: location,
+    required: false,
+    ...(description ? { description } : {}),
+    schema: { type: 'string' },
+    ...(value !== undefined && value !== '' && !value.includes('{{') ? { example: value } : {})
+  };
+}
+
+/**
+ * Convert a collection body to an OpenAPI request body
+ * JSON bodies get a schema inferred from the example, form bodies a schema of their fields
+ */
+export function toRequestBody(body: CollectionBody): RequestBody | undefined {
+  const media = toMediaType(body);
+  return media ? { required: true, content: { [body.mediaType]: media } } : undefined;
+}
+
+/**
+ * Convert a saved example response to an OpenAPI response
+ */
+export function toResponse(description: string, body?: CollectionBody): ResponseObject {
+  const media = body ? toMediaType(body) : undefined;
+  return media ? { description, content: { [body!.mediaType]: media } } : { description };
+}
+
+/**
+ * Infer a JSON schema from an example value
+ */
+export function inferSchema(value: any): SchemaObject {
+  if (value === null) {
+    return { nullable: true };
+  }
+  if (Array.isArray(value)) {
+    return { type: 'array', items: value.length > 0 ? inferSchema(value[0]) : {} };
+  }
+  switch (typeof value) {
+    case 'object':
+      return {
+        type: 'object',
+        properties: Object.fromEntries(Object.entries(value).map(([key, item]) => [key, inferSchema(item)]))
+      };
+    case 'number':
+      return { type: Number.isInteger(value) ? 'integer' : 'number' };
+    case 'boolean':
+      return { type: 'boolean' };
+    default:
+      return { type: 'string' };
+  }
+}
+
+function toMediaType(body: CollectionBody): MediaTypeObject | undefined {
+  if (body.fields) {
+    return {
+      schema: {
+        type: 'object',
+        properties: Object.fromEntries(body.fields.map(field => [
+          field.name,
+          {
+            type: 'string',
+            ...(field.file ? { format: 'binary' } : {}),
+            ...(field.description ? { description: field.description } : {}),
+            ...(!field.file && field.value ? { example: field.value } : {})
+          }
+        ]))
+      }
+    };
+  }
+
+  if (body.text === undefined || body.text.trim() === '') {
+    return body.mediaType === 'application/octet-stream' ? { schema: { type: 'string', format: 'binary' } } : undefined;
+  }
+
+  if (/[/+]json$/.test(body.mediaType)) {
+    try {
+      const example = JSON.parse(body.text);
+      return { schema: inferSchema(example), example };
+    } catch {
+      // Templated JSON ({{variable}} outside strings) is kept as a plain example
+    }
+  }
+  return { schema: { type: 'string' }, example: body.text };
+}
@@ -0,0 +1,427 @@
+import { ApiSpecParser } from './api-spec-parser';
+import { MediaTypeObject, SchemaObject, isReference } from './openapi-model';
+
+/**
+ * Which side of the exchange an example is generated for
+ * readOnly properties are left out of requests, writeOnly properties out of responses
+ */
+export type ExampleDirection = 'request' | 'response';
+
+/**
+ * Options interface for ExampleGenerator configuration
+ */
+export interface ExampleGeneratorOptions {
+  seed?: number;
+  maxDepth?: number;
+  schemas?: { [name: string]: SchemaObject };
+}
+
+const DEFAULT_SEED = 360;
+const DEFAULT_MAX_DEPTH = 8;
+const BASE_DATE = Date.UTC(2024, 0, 1);
+const WORDS = ['alpha', 'bravo', 'charlie', 'delta', 'echo', 'foxtrot', 'golf', 'hotel', 'india', 'juliet'];
+
+/**
+ * Builds example payloads from OpenAPI schemas
+ * Explicit example/examples, default, const and enum values win over generated ones; everything else
+ * comes from a seeded generator, so the same seed always produces the same payload
+ */
+export class ExampleGenerator {
+  private seed: number;
+  private maxDepth: number;
+  private schemas: { [name: string]: SchemaObject };
+  private state: number = 0;
+
+  constructor(options: ExampleGeneratorOptions = {}) {
+    this.seed = options.seed ?? DEFAULT_SEED;
+    this.maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH;
+    this.schemas = options.schemas ?? {};
+  }
+
+  /**
+   * Create a generator that resolves #/components/schemas refs from the parser's specification
+   */
+  static forParser(apiSpecParser: ApiSpecParser, options: ExampleGeneratorOptions = {}): ExampleGenerator {
+    return new ExampleGenerator({ ...options, schemas: options.schemas ?? apiSpecParser.getSchemas() });
+  }
+
+  /**
+   * Generate an example value for a schema
+   */
+  generate(schema: SchemaObject | undefined, direction: ExampleDirection = 'response'): any {
+    this.state = this.seed >>> 0;
+    return this.generateValue(schema, direction, 0, []);
+  }
+
+  /**
+   * Generate the example for a media type, preferring its own example/examples over the schema
+   */
+  generateForMediaType(media: MediaTypeObject | undefined, direction: ExampleDirection = 'response'): any {
+    if (!media) {
+      return undefined;
+    }
+    if (media.example !== undefined) {
+      return media.example;
+    }
+    const [firstExample] = Object.values(media.examples || {});
+    if (firstExample && !isReference(firstExample) && firstExample.value !== undefined) {
+      return firstExample.value;
+    }
+    return this.generate(media.schema, direction);
+  }
+
+  /**
+   * Generate the expected request body example for an operation
+   */
+  generateRequestExample(apiSpecParser: ApiSpecParser, path: string, method: string, mediaType: string = 'application/json'): any {
+    const requestBody = apiSpecParser.getEndpointRequestBody(path, method);
+    return this.generateForMediaType(requestBody?.content?.[mediaType], 'request');
+  }
+
+  /**
+   * Generate the expected response body example for an operation and response code
+   */
+  generateResponseExample(
+    apiSpecParser: ApiSpecParser,
+    path: string,
+    method: string,
+    responseCode: string,
+    mediaType: string = 'application/json'
+  ): any {
+    const response = apiSpecParser.getEndpointResponses(path, method)[responseCode];
+    return this.generateForMediaType(response?.content?.[mediaType], 'response');
+  }
+
+  /**
+   * Compare a rendered example with the expected one by shape: same keys and the same JSON types
+   * Generated primitive values are placeholders, so only structure is compared
+   */
+  static compareShape(expected: any, actual: any, location: string = '$'): string[] {
+    const expectedType = ExampleGenerator.jsonType(expected);
+    const actualType = ExampleGenerator.jsonType(actual);
+
+    if (expected === undefined || expectedType === 'null') {
+      return [];
+    }
+    if (expectedType !== actualType && !(expectedType === 'number' && actualType === 'integer') && !(expectedType === 'integer' && actualType === 'number')) {
+      return [`${location}: expected ${expectedType} but found ${actualType}`];
+    }
+
+    if (expectedType === 'array') {
+      return expected.length > 0 && actual.length > 0
+        ? ExampleGenerator.compareShape(expected[0], actual[0], `${location}[0]`)
+        : [];
+    }
+
+    if (expectedType === 'object') {
+      const mismatches: string[] = [];
+      for (const key of Object.keys(expected)) {
+        if (!(key in actual)) {
+          mismatches.push(`${location}.${key}: missing`);
+        } else {
+          mismatches.push(...ExampleGenerator.compareShape(expected[key], actual[key], `${location}.${key}`));
+        }
+      }
+      for (const key of Object.keys(actual).filter(key => !(key in expected))) {
+        mismatches.push(`${location}.${key}: unexpected`);
+      }
+      return mismatches;
+    }
+
+    return [];
+  }
+
+  private generateValue(schema: SchemaObject | undefined, direction: ExampleDirection, depth: number, refStack: string[]): any {
+    if (!schema) {
+      return undefined;
+    }
+
+    if (schema.$ref) {
+      const name = schema.$ref.startsWith('#/components/schemas/') ? schema.$ref.substring('#/components/schemas/'.length) : undefined;
+      const target = name ? this.schemas[name] : undefined;
+      if (!target || refStack.includes(schema.$ref)) {
+        return target?.type === 'array' ? [] : {};
+      }
+      const { $ref, ...siblings } = schema;
+      return this.generateValue({ ...target, ...siblings }, direction, depth, [...refStack, $ref]);
+    }
+
+    const explicit = this.explicitValue(schema);
+    if (explicit.found) {
+      return explicit.value;
+    }
+
+    if (schema.allOf && schema.allOf.length > 0) {
+      const { allOf, ...rest } = schema;
+      const parts = [...allOf, rest].map(part => this.generateValue(part, direction, depth, refStack));
+      return parts.reduce((merged, part) => this.merge(merged, part), undefined);
+    }
+
+    // The first oneOf/anyOf member is the variant the portal shows first
+    const variants = schema.oneOf || schema.anyOf;
+    if (variants && variants.length > 0) {
+      const { oneOf, anyOf, discriminator, ...rest } = schema;
+      const variant = this.merge(
+        this.generateValue(rest, direction, depth, refStack),
+        this.generateValue(variants[0], direction, depth, refStack)
+      );
+      if (discriminator && variant && typeof variant === 'object' && !Array.isArray(variant)) {
+        variant[discriminator.propertyName] = this.discriminatorValue(discriminator.mapping, variants[0]);
+      }
+      return variant;
+    }
+
+    switch (this.primaryType(schema)) {
+      case 'object':
+        return depth >= this.maxDepth ? {} : this.generateObject(schema, direction, depth, refStack);
+      case 'array':
+        return depth >= this.maxDepth ? [] : this.generateArray(schema, direction, depth, refStack);
+      case 'string':
+        return this.generateString(schema);
+      case 'integer':
+        return this.generateNumber(schema, true);
+      case 'number':
+        return this.generateNumber(schema, false);
+      case 'boolean':
+        return this.nextInt(0, 1) === 1;
+      default:
+        // null, or a schema accepting any value: null is a placeholder compareShape matches with anything
+        return null;
+    }
+  }
+
+  /**
+   * Values pinned by the schema itself: example, examples, default, const, enum
+   */
+  private explicitValue(schema: SchemaObject): { found: boolean; value?: any } {
+    if (schema.example !== undefined) {
+      return { found: true, value: schema.example };
+    }
+    if (Array.isArray(schema.examples) && schema.examples.length > 0) {
+      return { found: true, value: schema.examples[0] };
+    }
+    if (schema.default !== undefined) {
+      return { found: true, value: schema.default };
+    }
+    if (schema.const !== undefined) {
+      return { found: true, value: schema.const };
+    }
+    if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+      return { found: true, value: schema.enum[this.nextInt(0, schema.enum.length - 1)] };
+    }
+    return { found: false };
+  }
+
+  private generateObject(schema: SchemaObject, direction: ExampleDirection, depth: number, refStack: string[]): any {
+    const result: { [key: string]: any } = {};
+
+    for (const [name, property] of Object.entries(schema.properties || {})) {
+      if (this.isExcluded(property, direction, refStack)) {
+        continue;
+      }
+      const value = this.generateValue(property, direction, depth + 1, refStack);
+      if (value !== undefined) {
+        result[name] = value;
+      }
+    }
+
+    if (!schema.properties && schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+      result.additionalProp1 = this.generateValue(schema.additionalProperties, direction, depth + 1, refStack);
+    }
+    return result;
+  }
+
+  /**
+   * Check if a property is left out for the direction: readOnly in requests, writeOnly in responses
+   * The flags are read from the property, the schema it refers to and its allOf members
+   */
+  private isExcluded(property: SchemaObject, direction: ExampleDirection, refStack: string[]): boolean {
+    const flag = direction === 'request' ? 'readOnly' : 'writeOnly';
+    if (property[flag] === true) {
+      return true;
+    }
+    if (property.$ref) {
+      const name = property.$ref.startsWith('#/components/schemas/') ? property.$ref.substring('#/components/schemas/'.length) : undefined;
+      const target = name ? this.schemas[name] : undefined;
+      return !!target && !refStack.includes(property.$ref) && this.isExcluded(target, direction, [...refStack, property.$ref]);
+    }
+    return (property.allOf || []).some(part => this.isExcluded(part, direction, refStack));
+  }
+
+  private generateArray(schema: SchemaObject, direction: ExampleDirection, depth: number, refStack: string[]): any[] {
+    const length = Math.min(Math.max(schema.minItems ?? 1, 1), schema.maxItems ?? Number.MAX_SAFE_INTEGER);
+    const items: any[] = [];
+    for (let index = 0; index < length; index++) {
+      const item = this.generateValue(schema.items, direction, depth + 1, refStack);
+      if (item !== undefined) {
+        items.push(item);
+      }
+    }
+    return items;
+  }
+
+  private generateString(schema: SchemaObject): string {
+    const word = WORDS[this.nextInt(0, WORDS.length - 1)];
+    const number = this.nextInt(1, 9999);
+
+    let value: string;
+    switch (schema.format) {
+      case 'date-time':
+        value = new Date(BASE_DATE + this.nextInt(0, 364) * 86400000 + this.nextInt(0, 86399) * 1000).toISOString().replace('.000Z', 'Z');
+        break;
+      case 'date':
+        value = new Date(BASE_DATE + this.nextInt(0, 364) * 86400000).toISOString().substring(0, 10);
+        break;
+      case 'time':
+        value = new Date(BASE_DATE + this.nextInt(0, 86399) * 1000).toISOString().substring(11, 19);
+        break;
+      case 'email':
+        value = `${word}${number}@example.com`;
+        break;
+      case 'uri':
+      case 'url':
+        value = `https://example.com/${word}/${number}`;
+        break;
+      case 'hostname':
+        value = `${word}.example.com`;
+        break;
+      case 'ipv4':
+        value = [this.nextInt(1, 223), this.nextInt(0, 255), this.nextInt(0, 255), this.nextInt(1, 254)].join('.');
+        break;
+      case 'ipv6':
+        value = `2001:db8::${number.toString(16)}`;
+        break;
+      case 'uuid':
+        value = this.generateUuid();
+        break;
+      case 'byte':
+        value = Buffer.from(`${word}${number}`).toString('base64');
+        break;
+      case 'binary':
+        value = '';
+        break;
+      case 'password':
+        value = `${word.charAt(0).toUpperCase()}${word.substring(1)}#${number}`;
+        break;
+      default:
+        value = `${word}${number}`;
+    }
+
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      value = value.substring(0, schema.maxLength);
+    }
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      value = value.padEnd(schema.minLength, 'x');
+    }
+    return value;
+  }
+
+  private generateNumber(schema: SchemaObject, integer: boolean): number {
+    // 3.0 uses boolean exclusive flags, 3.1 uses numeric bounds
+    let minimum = typeof schema.exclusiveMinimum === 'number' ? schema.exclusiveMinimum : schema.minimum ?? 1;
+    let maximum = typeof schema.exclusiveMaximum === 'number' ? schema.exclusiveMaximum : schema.maximum ?? Math.max(minimum + 1000, 1000);
+    const step = schema.multipleOf ?? (integer ? 1 : 0.01);
+    const exclusiveMinimum = schema.exclusiveMinimum === true || typeof schema.exclusiveMinimum === 'number';
+    const exclusiveMaximum = schema.exclusiveMaximum === true || typeof schema.exclusiveMaximum === 'number';
+
+    if (exclusiveMinimum) {
+      minimum += step;
+    }
+    if (exclusiveMaximum) {
+      maximum -= step;
+    }
+
+    const steps = Math.max(Math.floor((maximum - minimum) / step), 0);
+    const value = Math.ceil(minimum / step) * step + this.nextInt(0, steps) * step;
+    const bounded = Math.min(value, maximum);
+    return integer ? Math.round(bounded) : Math.round(bounded * 100) / 100;
+  }
+
+  private generateUuid(): string {
+    const bytes = Buffer.alloc(16);
+    for (let index = 0; index < 16; index++) {
+      bytes[index] = this.nextInt(0, 255);
+    }
+    bytes[6] = (bytes[6] & 0x0f) | 0x40;
+    bytes[8] = (bytes[8] & 0x3f) | 0x80;
+    const hex = bytes.toString('hex');
+    return `${hex.substring(0, 8)}-${hex.substring(8, 12)}-${hex.substring(12, 16)}-${hex.substring(16, 20)}-${hex.substring(20)}`;
+  }
+
+  private discriminatorValue(mapping: { [value: string]: string } | undefined, variant: SchemaObject): string {
+    const mapped = Object.entries(mapping || {}).find(([, ref]) => ref === variant.$ref);
+    if (mapped) {
+      return mapped[0];
+    }
+    return variant.$ref ? variant.$ref.split('/').pop()! : variant.title || 'variant';
+  }
+
+  /**
+   * Pick the type to generate, skipping null in 3.1 type arrays and inferring from keywords when absent
+   */
+  private primaryType(schema: SchemaObject): string | undefined {
+    const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+    const nonNull = types.find(type => type !== 'null');
+    if (nonNull || types.length > 0) {
+      return nonNull || 'null';
+    }
+    if (schema.properties || schema.additionalProperties || schema.required || schema.minProperties !== undefined) {
+      return 'object';
+    }
+    if (schema.items || schema.minItems !== undefined || schema.maxItems !== undefined) {
+      return 'array';
+    }
+    if (schema.format === 'int32' || schema.format === 'int64') {
+      return 'integer';
+    }
+    if (schema.format === 'float' || schema.format === 'double' || schema.minimum !== undefined || schema.maximum !== undefined || schema.multipleOf !== undefined) {
+      return 'number';
+    }
+    if (schema.format || schema.pattern || schema.minLength !== undefined || schema.maxLength !== undefined) {
+      return 'string';
+    }
+    return undefined;
+  }
+
+  private merge(target: any, source: any): any {
+    if (target === undefined) {
+      return source;
+    }
+    if (source === undefined) {
+      return target;
+    }
+    if (typeof target === 'object' && typeof source === 'object' && target && source && !Array.isArray(target) && !Array.isArray(source)) {
+      const merged = { ...target };
+      for (const [key, value] of Object.entries(source)) {
+        merged[key] = key in merged ? this.merge(merged[key], value) : value;
+      }
+      return merged;
+    }
+    return source;
+  }
+
+  /**
+   * Seeded pseudo-random integer in [min, max] (mulberry32)
+   */
+  private nextInt(min: number, max: number): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    const random = ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    return min + Math.floor(random * (max - min + 1));
+  }
+
+  private static jsonType(value: any): string {
+    if (value === null) {
+      return 'null';
+    }
+    if (Array.isArray(value)) {
+      return 'array';
+    }
+    if (typeof value === 'number') {
+      return Number.isInteger(value) ? 'integer' : 'number';
+    }
+    return typeof value;
+  }
+}
@@ -0,0 +1,297 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { APIRequestContext, APIResponse } from '@playwright/test';
+import { ConfigManager } from '../config/config-manager';
+import { loggers } from '../logging/logger-factory';
+import { TransportError } from '../../commons/api-errors';
+
+/**
+ * off: requests go to the network, record: they do and are saved as fixtures, replay: fixtures answer them
+ */
+export type HttpRecordMode = 'off' | 'record' | 'replay';
+
+/**
+ * Request part of a fixture, normalized so the same call matches across runs
+ */
+export interface RecordedRequest {
+  method: string;
+  // Path and sorted query string, without the origin
+  path: string;
+  body?: string;
+}
+
+/**
+ * A recorded response; binary bodies are stored as base64
+ */
+export interface RecordedResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+  encoding: 'utf8' | 'base64';
+}
+
+/**
+ * Fixture file content: a request and the responses it received, in order
+ */
+export interface HttpFixture {
+  request: RecordedRequest;
+  responses: RecordedResponse[];
+}
+
+/**
+ * Options interface for HttpRecorder configuration
+ */
+export interface HttpRecorderOptions {
+  mode?: HttpRecordMode;
+  fixturesDir?: string;
+}
+
+const RECORDED_METHODS = ['get', 'post', 'put', 'patch', 'delete', 'head'] as const;
+
+// Credentials never written to fixtures; the same placeholder is used when matching
+const SECRET_FIELDS = ['access_token', 'refresh_token', 'id_token', 'password', 'client_secret'];
+const SECRET_PLACEHOLDER = '<redacted>';
+
+const MAX_INLINE_BODY_LENGTH = 4096;
+
+// Response headers that describe the original transfer rather than the replayed body
+const DROPPED_HEADERS = ['content-length', 'content-encoding', 'transfer-encoding', 'set-cookie', 'date', 'connection'];
+
+/**
+ * Record and replay of HTTP calls made through a Playwright APIRequestContext - Singleton Pattern
+ * In record mode every request is sent and saved with its response to a fixture file, in replay mode the fixtures
+ * answer the requests without network. Requests are matched by method, path (origin ignored) and normalized body;
+ * a request made several times replays its responses in recorded order, the last one repeating
+ */
+export class HttpRecorder {
+  private static instance: HttpRecorder;
+  private mode: HttpRecordMode;
+  private fixturesDir: string;
+  // Fixture files written by this recording session, older recordings of them are replaced
+  private recordedFiles: Set<string> = new Set();
+  // Responses served so far per fixture file
+  private replayCursors: Map<string, number> = new Map();
+
+  constructor(options: HttpRecorderOptions = {}) {
+    const configManager = ConfigManager.getInstance();
+    this.mode = options.mode ?? (configManager.get<HttpRecordMode>('API_RECORD_MODE') || 'off');
+    this.fixturesDir = options.fixturesDir ?? configManager.get<string>('API_FIXTURES_DIR');
+  }
+
+  /**
+   * Get the shared instance configured from API_RECORD_MODE and API_FIXTURES_DIR
+   */
+  static getInstance(): HttpRecorder {
+    if (!HttpRecorder.instance) {
+      HttpRecorder.instance = new HttpRecorder();
+    }
+    return HttpRecorder.instance;
+  }
+
+  /**
+   * Get the current mode
+   */
+  getMode(): HttpRecordMode {
+    return this.mode;
+  }
+
+  /**
+   * Switch mode; replay starts over from the first recorded response of every request
+   */
+  setMode(mode: HttpRecordMode): void {
+    this.mode = mode;
+    this.recordedFiles.clear();
+    this.replayCursors.clear();
+    loggers.api.debug(`📼 HTTP record mode: ${mode} (${this.fixturesDir})`);
+  }
+
+  /**
+   * Check if requests are answered from fixtures
+   */
+  isReplaying(): boolean {
+    return this.mode === 'replay';
+  }
+
+  /**
+   * Wrap a request context so its get/post/put/patch/delete/head calls are recorded or replayed
+   * The context is returned unchanged while the recorder is off (the mode is read on every call)
+   */
+  wrap(context: APIRequestContext): APIRequestContext {
+    return new Proxy(context, {
+      get: (target, property, receiver) => {
+        const value = Reflect.get(target, property, receiver);
+        if (typeof property !== 'string' || !(RECORDED_METHODS as readonly string[]).includes(property)) {
+          return value;
+        }
+
+        return (url: string, options: Record<string, any> = {}) => {
+          const send = () => value.call(target, url, options) as Promise<APIResponse>;
+          return this.mode === 'off' ? send() : this.exchange(property.toUpperCase(), url, options, send);
+        };
+      }
+    });
+  }
+
+  /**
+   * Normalize a request the way fixtures are matched
+   */
+  normalizeRequest(method: string, url: string, options: Record<string, any> = {}): RecordedRequest {
+    const parsed = new URL(url, 'http://localhost');
+    for (const [name, value] of Object.entries<any>(options.params || {})) {
+      parsed.searchParams.set(name, String(value));
+    }
+    parsed.searchParams.sort();
+
+    const body = this.normalizeBody(options.data ?? options.form ?? options.multipart);
+    return { method: method.toUpperCase(), path: `${parsed.pathname}${parsed.search}`, ...(body !== undefined && { body }) };
+  }
+
+  /**
+   * Get the fixture file path of a normalized request
+   */
+  getFixturePath(request: RecordedRequest): string {
+    const hash = crypto.createHash('sha256')
+      .update(`${request.method} ${request.path}\n${request.body ?? ''}`)
+      .digest('hex').substring(0, 12);
+    const slug = request.path.split('?')[0].replace(/[^a-zA-Z0-9]+/g, '-').replace(/^-|-$/g, '') || 'root';
+    return path.join(this.fixturesDir, `${request.method.toLowerCase()}-${slug}-${hash}.json`);
+  }
+
+  /**
+   * Remove all fixtures
+   */
+  clearFixtures(): void {
+    fs.rmSync(this.fixturesDir, { recursive: true, force: true });
+    this.recordedFiles.clear();
+    this.replayCursors.clear();
+  }
+
+  private async exchange(method: string, url: string, options: Record<string, any>, send: () => Promise<APIResponse>): Promise<APIResponse> {
+    const request = this.normalizeRequest(method, url, options);
+    const fixturePath = this.getFixturePath(request);
+
+    if (this.mode === 'replay') {
+      return this.replay(request, fixturePath, url);
+    }
+
+    const response = await send();
+    await this.record(request, fixturePath, response);
+    return response;
+  }
+
+  private replay(request: RecordedRequest, fixturePath: string, url: string): APIResponse {
+    if (!fs.existsSync(fixturePath)) {
+      // Sending the request again cannot make a fixture appear, so the miss is not retryable
+      const endpoint = `${request.method} ${request.path.split('?')[0]}`;
+      throw new TransportError(`No recorded response for ${request.method} ${request.path} (expected fixture ${fixturePath})`, {
+        operation: endpoint,
+        endpoint
+      }, false);
+    }
+
+    const fixture: HttpFixture = JSON.parse(fs.readFileSync(fixturePath, 'utf8'));
+    const cursor = this.replayCursors.get(fixturePath) ?? 0;
+    this.replayCursors.set(fixturePath, cursor + 1);
+    const recorded = fixture.responses[Math.min(cursor, fixture.responses.length - 1)];
+
+    loggers.api.debug(`📼 Replaying ${request.method} ${request.path} - Status: ${recorded.status} (${path.basename(fixturePath)})`);
+    return this.toApiResponse(recorded, url);
+  }
+
+  private async record(request: RecordedRequest, fixturePath: string, response: APIResponse): Promise<void> {
+    const body = await response.body();
+    const isText = this.isTextContent(response.headers()['content-type']);
+    const headers = Object.fromEntries(Object.entries(response.headers()).filter(([name]) => !DROPPED_HEADERS.includes(name)));
+
+    const fixture: HttpFixture = this.recordedFiles.has(fixturePath) && fs.existsSync(fixturePath)
+      ? JSON.parse(fs.readFileSync(fixturePath, 'utf8'))
+      : { request, responses: [] };
+    fixture.responses.push({
+      status: response.status(),
+      statusText: response.statusText(),
+      headers,
+      body: isText ? this.redact(body.toString('utf8')) : body.toString('base64'),
+      encoding: isText ? 'utf8' : 'base64'
+    });
+
+    try {
+      fs.mkdirSync(this.fixturesDir, { recursive: true });
+      fs.writeFileSync(fixturePath, JSON.stringify(fixture, null, 2));
+      this.recordedFiles.add(fixturePath);
+      loggers.api.debug(`📼 Recorded ${request.method} ${request.path} - Status: ${response.status()} (${path.basename(fixturePath)})`);
+    } catch (error) {
+      loggers.api.warn(`⚠️ Failed to record ${request.method} ${request.path}`, error);
+    }
+  }
+
+  /**
+   * Bodies are compared as text: JSON with sorted keys, multipart with a fixed boundary, secrets redacted
+   */
+  private normalizeBody(data: any): string | undefined {
+    if (data === undefined || data === null) {
+      return undefined;
+    }
+
+    const text = Buffer.isBuffer(data) ? data.toString('binary') : typeof data === 'string' ? data : null;
+    let normalized: string;
+    if (text === null) {
+      normalized = this.redact(this.stableStringify(data));
+    } else {
+      const withoutBoundary = text.replace(/-{2,}WebKitFormBoundary[A-Za-z0-9]+/g, '--BOUNDARY');
+      try {
+        normalized = this.redact(this.stableStringify(JSON.parse(withoutBoundary)));
+      } catch {
+        normalized = this.redact(withoutBoundary);
+      }
+    }
+
+    // Uploaded spec files would bloat the fixtures, large bodies are kept as a digest
+    return normalized.length > MAX_INLINE_BODY_LENGTH
+      ? `sha256:${crypto.createHash('sha256').update(normalized, 'binary').digest('hex')} (${normalized.length} bytes)`
+      : normalized;
+  }
+
+  private redact(text: string): string {
+    const fields = SECRET_FIELDS.join('|');
+    return text
+      .replace(new RegExp(`"(${fields})"(\\s*):(\\s*)"[^"]*"`, 'g'), `"$1"$2:$3"${SECRET_PLACEHOLDER}"`)
+      .replace(new RegExp(`(^|&)(${fields})=[^&]*`, 'g'), `$1$2=${SECRET_PLACEHOLDER}`);
+  }
+
+  private stableStringify(value: any): string {
+    if (Array.isArray(value)) {
+      return `[${value.map(item => this.stableStringify(item)).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+      return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${this.stableStringify(value[key])}`).join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+  }
+
+  private isTextContent(contentType?: string): boolean {
+    return !contentType || /json|text|xml|yaml|javascript|x-www-form-urlencoded/i.test(contentType);
+  }
+
+  /**
+   * Build the APIResponse handed to callers from a recorded response
+   */
+  private toApiResponse(recorded: RecordedResponse, url: string): APIResponse {
+    const body = Buffer.from(recorded.body, recorded.encoding);
+    const response = {
+      url: () => url,
+      status: () => recorded.status,
+      statusText: () => recorded.statusText,
+      ok: () => recorded.status >= 200 && recorded.status <= 299,
+      headers: () => ({ ...recorded.headers }),
+      headersArray: () => Object.entries(recorded.headers).map(([name, value]) => ({ name, value })),
+      body: async () => body,
+      text: async () => body.toString('utf8'),
+      json: async () => JSON.parse(body.toString('utf8')),
+      dispose: async () => {}
+    };
+    // Symbol.asyncDispose is not in the ES2020 lib; nothing here needs disposing
+    return response as unknown as APIResponse;
+  }
+}
@@ -0,0 +1,259 @@
+import * as fs from 'fs';
+import * as yaml from 'js-yaml';
+import * as path from 'path';
+import { ApiSpec } from './api-spec-parser';
+import { ApiSpecSourceType, IApiSpecFormatParser, readSpecFile } from './spec-format-parser';
+import {
+  CollectionBody,
+  CollectionConversionResult,
+  CollectionSpecBuilder,
+  parseCollectionUrl,
+  toOpenApiPath,
+  toParameter,
+  toRequestBody
+} from './collection-conversion';
+import { Operation, Parameter, SecurityRequirement, SecurityScheme } from './openapi-model';
+
+/**
+ * Headers that OpenAPI describes through media types and security schemes instead of parameters
+ */
+const RESERVED_HEADERS = ['content-type', 'accept', 'authorization'];
+
+/**
+ * Insomnia export (format 4) to OpenAPI 3.0 converter
+ * The workspace becomes the API, request groups become tags and requests become operations
+ */
+export class InsomniaExportConverter {
+  private builder!: CollectionSpecBuilder;
+  private resources: Map<string, any> = new Map();
+  private variables: { [name: string]: string } = {};
+
+  /**
+   * Check if a parsed document is an Insomnia export
+   */
+  static isInsomniaExport(document: any): boolean {
+    return !!document && typeof document === 'object' && document._type === 'export' && Array.isArray(document.resources);
+  }
+
+  /**
+   * Convert an Insomnia export into an OpenAPI 3.0 document with its conversion report
+   */
+  convert(exportDocument: any): CollectionConversionResult {
+    const resources: any[] = exportDocument.resources;
+    this.resources = new Map(resources.map(resource => [resource._id, resource]));
+    this.variables = this.collectVariables(resources);
+
+    const workspace = resources.find(resource => resource._type === 'workspace');
+    this.builder = new CollectionSpecBuilder(
+      'insomnia',
+      workspace?.name || 'Insomnia Export',
+      '1.0.0',
+      workspace?.description || undefined
+    );
+
+    if (exportDocument.__export_format !== 4) {
+      this.builder.warn(`export format ${exportDocument.__export_format} converted as format 4`);
+    }
+
+    for (const request of resources.filter(resource => resource._type === 'request')) {
+      this.convertRequest(request);
+    }
+    for (const resource of resources.filter(resource => ['grpc_request', 'websocket_request'].includes(resource._type))) {
+      this.builder.skipRequest(resource.name || resource._id, `${resource._type} has no OpenAPI equivalent`);
+    }
+
+    return this.builder.build();
+  }
+
+  private convertRequest(request: any): void {
+    const name: string = request.name || request._id;
+    if (!request.url) {
+      this.builder.skipRequest(name, 'request has no URL');
+      return;
+    }
+
+    const parsedUrl = parseCollectionUrl(request.url);
+    const pathVariables = Object.fromEntries((request.pathParameters || []).map((param: any) => [param.name, { value: param.value }]));
+    const { path: openApiPath, parameters: pathParameters } = toOpenApiPath(parsedUrl.segments, pathVariables);
+
+    if (parsedUrl.origin) {
+      this.builder.addServer(parsedUrl.origin, this.variables);
+    }
+
+    const parameters: Parameter[] = [
+      ...pathParameters,
+      ...parsedUrl.query.map(param => toParameter('query', param.name, param.value)),
+      ...(request.parameters || [])
+        .filter((param: any) => !param.disabled && param.name)
+        .map((param: any) => toParameter('query', param.name, param.value, param.description)),
+      ...(request.headers || [])
+        .filter((header: any) => !header.disabled && header.name && !RESERVED_HEADERS.includes(header.name.toLowerCase()))
+        .map((header: any) => toParameter('header', header.name, header.value, header.description))
+    ];
+
+    const tag = this.findGroup(request.parentId);
+    const operation: Operation = {
+      summary: name,
+      ...(request.description ? { description: request.description } : {}),
+      ...(tag ? { tags: [tag] } : {}),
+      ...(parameters.length > 0 ? { parameters } : {}),
+      // Insomnia does not store example responses
+      responses: { '200': { description: 'Successful response' } }
+    };
+
+    const body = this.convertBody(request.body, name);
+    const requestBody = body ? toRequestBody(body) : undefined;
+    if (requestBody) {
+      operation.requestBody = requestBody;
+    }
+
+    const security = this.convertAuth(request.authentication);
+    if (security) {
+      operation.security = security;
+    }
+
+    this.builder.addOperation(name, request.method || 'GET', openApiPath, operation);
+  }
+
+  private convertBody(body: any, name: string): CollectionBody | undefined {
+    if (!body || !body.mimeType) {
+      return undefined;
+    }
+
+    const mediaType = String(body.mimeType).split(';')[0].trim();
+    if (mediaType === 'application/x-www-form-urlencoded' || mediaType === 'multipart/form-data') {
+      return {
+        mediaType,
+        fields: (body.params || []).filter((param: any) => !param.disabled)
+          .map((param: any) => ({ name: param.name, value: param.value, description: param.description, file: param.type === 'file' }))
+      };
+    }
+    if (mediaType === 'application/graphql') {
+      this.builder.warn(`${name}: GraphQL body converted to application/json`);
+      return { mediaType: 'application/json', text: body.text };
+    }
+    return { mediaType, text: body.text };
+  }
+
+  /**
+   * Convert Insomnia authentication to a security requirement, registering the matching scheme
+   */
+  private convertAuth(auth: any): SecurityRequirement[] | undefined {
+    if (!auth || !auth.type || auth.disabled) {
+      return undefined;
+    }
+    if (auth.type === 'none') {
+      return [];
+    }
+
+    let scheme: SecurityScheme;
+    switch (auth.type) {
+      case 'bearer':
+        scheme = { type: 'http', scheme: 'bearer' };
+        break;
+      case 'basic':
+        scheme = { type: 'http', scheme: 'basic' };
+        break;
+      case 'apikey':
+        scheme = { type: 'apiKey', name: auth.key || 'X-API-Key', in: auth.addTo === 'queryParams' ? 'query' : 'header' };
+        break;
+      case 'oauth2':
+        scheme = {
+          type: 'oauth2',
+          flows: {
+            [auth.grantType === 'authorization_code' ? 'authorizationCode' : 'clientCredentials']: {
+              ...(auth.authorizationUrl ? { authorizationUrl: auth.authorizationUrl } : {}),
+              tokenUrl: auth.accessTokenUrl || '',
+              scopes: Object.fromEntries(String(auth.scope || '').split(/\s+/).filter(Boolean).map(scope => [scope, scope]))
+            }
+          }
+        };
+        break;
+      default:
+        this.builder.warn(`unsupported authentication type '${auth.type}' dropped`);
+        return undefined;
+    }
+
+    const name = `${auth.type}Auth`;
+    this.builder.addSecurityScheme(name, scheme);
+    return [{ [name]: [] }];
+  }
+
+  /**
+   * Find the closest request group of a resource, registering it as a tag
+   */
+  private findGroup(parentId: string | undefined): string | undefined {
+    const parent = parentId ? this.resources.get(parentId) : undefined;
+    if (!parent || parent._type !== 'request_group') {
+      return undefined;
+    }
+    this.builder.addTag(parent.name, parent.description || undefined);
+    return parent.name;
+  }
+
+  /**
+   * Merge environment data, base environments first so sub environments override them
+   */
+  private collectVariables(resources: any[]): { [name: string]: string } {
+    const environments = resources.filter(resource => resource._type === 'environment');
+    const ordered = [
+      ...environments.filter(environment => this.resources.get(environment.parentId)?._type !== 'environment'),
+      ...environments.filter(environment => this.resources.get(environment.parentId)?._type === 'environment')
+    ];
+
+    const variables: { [name: string]: string } = {};
+    for (const environment of ordered) {
+      for (const [key, value] of Object.entries(environment.data || {})) {
+        if (typeof value === 'string' || typeof value === 'number') {
+          variables[key] = String(value);
+        }
+      }
+    }
+    return variables;
+  }
+}
+
+/**
+ * Insomnia export format parser (JSON or YAML, export format 4)
+ * Detects exports by the .insomnia.json extension or by the _type/__export_format markers in the content
+ */
+export class InsomniaExportFormatParser implements IApiSpecFormatParser {
+  canParse(source: string, sourceType: ApiSpecSourceType): boolean {
+    if (sourceType === ApiSpecSourceType.FILE_PATH) {
+      if (source.toLowerCase().endsWith('.insomnia.json')) {
+        return true;
+      }
+      return ['.json', '.yaml', '.yml'].includes(path.extname(source).toLowerCase()) && fs.existsSync(source) &&
+        this.looksLikeExport(readSpecFile(source));
+    }
+    if (sourceType === ApiSpecSourceType.CONTENT_STRING) {
+      return this.looksLikeExport(source);
+    }
+    return false;
+  }
+
+  parse(content: string): ApiSpec {
+    let exportDocument: any;
+    try {
+      exportDocument = yaml.load(content);
+    } catch (error) {
+      throw new Error(`Failed to parse Insomnia export: ${error}`);
+    }
+    if (!InsomniaExportConverter.isInsomniaExport(exportDocument)) {
+      throw new Error('Failed to parse Insomnia export: missing _type export or resources array');
+    }
+    return new InsomniaExportConverter().convert(exportDocument).spec;
+  }
+
+  getSupportedExtensions(): string[] {
+    return ['.insomnia.json'];
+  }
+
+  getSupportedMediaTypes(): string[] {
+    return [];
+  }
+
+  private looksLikeExport(content: string): boolean {
+    return /["']?__export_format["']?\s*:/.test(content) && /["']?_type["']?\s*:\s*["']?export/.test(content);
+  }
+}
@@ -0,0 +1,373 @@
+/**
+ * TypeScript model of the OpenAPI 3.0/3.1 objects read by ApiSpecParser
+ * Swagger 2.0 documents are normalized to this model before they reach the accessors
+ */
+
+/**
+ * HTTP methods that can hold an operation in a path item
+ */
+export type HttpMethod = 'get' | 'put' | 'post' | 'delete' | 'options' | 'head' | 'patch' | 'trace';
+
+export const HTTP_METHODS: HttpMethod[] = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+/**
+ * Specification extensions (x-*) allowed on most objects
+ */
+export interface Extensible {
+  [extension: `x-${string}`]: any;
+}
+
+export interface ReferenceObject {
+  $ref: string;
+  summary?: string;
+  description?: string;
+}
+
+/**
+ * An object that may still be a $ref when the parser does not dereference
+ */
+export type Referenceable<T> = T | ReferenceObject;
+
+export interface ContactObject extends Extensible {
+  name?: string;
+  email?: string;
+  url?: string;
+}
+
+export interface LicenseObject extends Extensible {
+  name?: string;
+  url?: string;
+  identifier?: string;
+}
+
+export interface InfoObject extends Extensible {
+  title: string;
+  version: string;
+  summary?: string;
+  description?: string;
+  termsOfService?: string;
+  contact?: ContactObject;
+  license?: LicenseObject;
+}
+
+export interface ServerVariableObject extends Extensible {
+  default: string;
+  description?: string;
+  enum?: string[];
+}
+
+export interface ServerObject extends Extensible {
+  url: string;
+  description?: string;
+  variables?: { [key: string]: ServerVariableObject };
+}
+
+export interface ExternalDocumentationObject extends Extensible {
+  url: string;
+  description?: string;
+}
+
+export interface TagObject extends Extensible {
+  name: string;
+  description?: string;
+  externalDocs?: ExternalDocumentationObject;
+}
+
+export interface DiscriminatorObject extends Extensible {
+  propertyName: string;
+  mapping?: { [value: string]: string };
+}
+
+export interface XmlObject extends Extensible {
+  name?: string;
+  namespace?: string;
+  prefix?: string;
+  attribute?: boolean;
+  wrapped?: boolean;
+}
+
+/**
+ * Schema object - the OpenAPI 3.0 subset plus the JSON Schema 2020-12 keywords allowed by 3.1
+ * $ref is kept on the schema itself since 3.1 allows it next to other keywords
+ */
+export interface SchemaObject extends Extensible {
+  $ref?: string;
+  $id?: string;
+  $schema?: string;
+  $defs?: { [name: string]: SchemaObject };
+  title?: string;
+  description?: string;
+  type?: string | string[];
+  format?: string;
+  nullable?: boolean;
+  const?: any;
+  enum?: any[];
+  default?: any;
+  example?: any;
+  examples?: any[];
+  deprecated?: boolean;
+  readOnly?: boolean;
+  writeOnly?: boolean;
+
+  // Objects
+  properties?: { [name: string]: SchemaObject };
+  patternProperties?: { [pattern: string]: SchemaObject };
+  additionalProperties?: boolean | SchemaObject;
+  required?: string[];
+  minProperties?: number;
+  maxProperties?: number;
+
+  // Arrays
+  items?: SchemaObject;
+  prefixItems?: SchemaObject[];
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+
+  // Strings and numbers
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: boolean | number;
+  exclusiveMaximum?: boolean | number;
+  multipleOf?: number;
+
+  // Composition
+  allOf?: SchemaObject[];
+  oneOf?: SchemaObject[];
+  anyOf?: SchemaObject[];
+  not?: SchemaObject;
+  discriminator?: DiscriminatorObject;
+
+  xml?: XmlObject;
+  externalDocs?: ExternalDocumentationObject;
+}
+
+export interface ExampleObject extends Extensible {
+  summary?: string;
+  description?: string;
+  value?: any;
+  externalValue?: string;
+}
+
+export interface EncodingObject extends Extensible {
+  contentType?: string;
+  headers?: { [name: string]: Referenceable<HeaderObject> };
+  style?: string;
+  explode?: boolean;
+  allowReserved?: boolean;
+}
+
+export interface MediaTypeObject extends Extensible {
+  schema?: SchemaObject;
+  example?: any;
+  examples?: { [name: string]: Referenceable<ExampleObject> };
+  encoding?: { [property: string]: EncodingObject };
+}
+
+export type ParameterLocation = 'query' | 'header' | 'path' | 'cookie';
+
+export interface Parameter extends Extensible {
+  name: string;
+  in: ParameterLocation;
+  description?: string;
+  required?: boolean;
+  deprecated?: boolean;
+  allowEmptyValue?: boolean;
+  style?: string;
+  explode?: boolean;
+  allowReserved?: boolean;
+  schema?: SchemaObject;
+  example?: any;
+  examples?: { [name: string]: Referenceable<ExampleObject> };
+  content?: { [mediaType: string]: MediaTypeObject };
+}
+
+export type HeaderObject = Omit<Parameter, 'name' | 'in'>;
+
+export interface RequestBody extends Extensible {
+  description?: string;
+  required?: boolean;
+  content: { [mediaType: string]: MediaTypeObject };
+}
+
+export interface LinkObject extends Extensible {
+  operationRef?: string;
+  operationId?: string;
+  parameters?: { [name: string]: any };
+  requestBody?: any;
+  description?: string;
+  server?: ServerObject;
+}
+
+export interface ResponseObject extends Extensible {
+  description: string;
+  headers?: { [name: string]: Referenceable<HeaderObject> };
+  content?: { [mediaType: string]: MediaTypeObject };
+  links?: { [name: string]: Referenceable<LinkObject> };
+}
+
+/**
+ * Responses keyed by status code ('200', '4XX') or 'default'
+ */
+export interface Responses {
+  [statusCode: string]: Referenceable<ResponseObject>;
+}
+
+/**
+ * Security requirement - scheme name to required scopes
+ */
+export interface SecurityRequirement {
+  [schemeName: string]: string[];
+}
+
+export interface Operation extends Extensible {
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  deprecated?: boolean;
+  parameters?: Referenceable<Parameter>[];
+  requestBody?: Referenceable<RequestBody>;
+  responses?: Responses;
+  callbacks?: { [name: string]: Referenceable<{ [expression: string]: PathItem }> };
+  security?: SecurityRequirement[];
+  servers?: ServerObject[];
+  externalDocs?: ExternalDocumentationObject;
+}
+
+export interface PathItem extends Extensible {
+  $ref?: string;
+  summary?: string;
+  description?: string;
+  servers?: ServerObject[];
+  parameters?: Referenceable<Parameter>[];
+  get?: Operation;
+  put?: Operation;
+  post?: Operation;
+  delete?: Operation;
+  options?: Operation;
+  head?: Operation;
+  patch?: Operation;
+  trace?: Operation;
+}
+
+export interface Paths {
+  [path: string]: PathItem;
+}
+
+export interface OAuthFlow extends Extensible {
+  authorizationUrl?: string;
+  tokenUrl?: string;
+  refreshUrl?: string;
+  scopes: { [scope: string]: string };
+}
+
+export interface OAuthFlows extends Extensible {
+  implicit?: OAuthFlow;
+  password?: OAuthFlow;
+  clientCredentials?: OAuthFlow;
+  authorizationCode?: OAuthFlow;
+}
+
+export interface SecurityScheme extends Extensible {
+  type: 'apiKey' | 'http' | 'mutualTLS' | 'oauth2' | 'openIdConnect';
+  description?: string;
+  name?: string;
+  in?: 'query' | 'header' | 'cookie';
+  scheme?: string;
+  bearerFormat?: string;
+  flows?: OAuthFlows;
+  openIdConnectUrl?: string;
+}
+
+export interface Components extends Extensible {
+  schemas?: { [name: string]: SchemaObject };
+  responses?: { [name: string]: Referenceable<ResponseObject> };
+  parameters?: { [name: string]: Referenceable<Parameter> };
+  examples?: { [name: string]: Referenceable<ExampleObject> };
+  requestBodies?: { [name: string]: Referenceable<RequestBody> };
+  headers?: { [name: string]: Referenceable<HeaderObject> };
+  securitySchemes?: { [name: string]: Referenceable<SecurityScheme> };
+  links?: { [name: string]: Referenceable<LinkObject> };
+  callbacks?: { [name: string]: Referenceable<{ [expression: string]: PathItem }> };
+  pathItems?: { [name: string]: PathItem };
+}
+
+/**
+ * A single operation of the specification together with the path and method it is declared on
+ */
+export interface ApiOperation {
+  path: string;
+  method: HttpMethod;
+  operation: Operation;
+}
+
+/**
+ * A request body media type with its (possibly absent) schema
+ */
+export interface RequestBodyMediaType {
+  mediaType: string;
+  schema?: SchemaObject;
+}
+
+/**
+ * An operation as a client sees it: path-item and operation parameters merged,
+ * request body resolved and flattened to its media types
+ */
+export interface EffectiveOperation extends ApiOperation {
+  parameters: Parameter[];
+  requestBody?: {
+    description?: string;
+    required: boolean;
+    mediaTypes: RequestBodyMediaType[];
+  };
+}
+
+/**
+ * One variant of a polymorphic schema - a oneOf/anyOf member or a discriminator mapping target - with its allOf merged
+ */
+export interface SchemaVariant {
+  name: string;
+  discriminatorValue?: string;
+  // JSON pointer tokens of the variant relative to the polymorphic schema (oneOf/1, discriminator/mapping/cat)
+  pointer: string[];
+  schema: SchemaObject;
+  properties: { [name: string]: SchemaObject };
+  required: string[];
+}
+
+/**
+ * A code sample attached to an operation with x-codeSamples (x-code-samples in older specs)
+ */
+export interface CodeSampleExtension {
+  lang: string;
+  label?: string;
+  source: string;
+}
+
+/**
+ * The API logo declared with x-logo on the info object
+ */
+export interface LogoExtension {
+  url: string;
+  altText?: string;
+  backgroundColor?: string;
+  href?: string;
+}
+
+/**
+ * Check if an object is an unresolved $ref
+ */
+export function isReference(value: unknown): value is ReferenceObject {
+  return !!value && typeof value === 'object' && typeof (value as ReferenceObject).$ref === 'string';
+}
+
+/**
+ * Check if a path item key is an HTTP method
+ */
+export function isHttpMethod(key: string): key is HttpMethod {
+  return (HTTP_METHODS as string[]).includes(key);
+}
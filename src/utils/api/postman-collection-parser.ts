@@ -0,0 +1,334 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ApiSpec } from './api-spec-parser';
+import { ApiSpecSourceType, IApiSpecFormatParser, readSpecFile } from './spec-format-parser';
+import {
+  CollectionBody,
+  CollectionConversionResult,
+  CollectionSpecBuilder,
+  parseCollectionUrl,
+  toOpenApiPath,
+  toParameter,
+  toRequestBody,
+  toResponse
+} from './collection-conversion';
+import { Operation, Parameter, Responses, SecurityRequirement, SecurityScheme } from './openapi-model';
+
+const POSTMAN_SCHEMA = /schema\.(?:getpostman|postman)\.com\/json\/collection\/v2\.[01]/;
+
+/**
+ * Headers that OpenAPI describes through media types and security schemes instead of parameters
+ */
+const RESERVED_HEADERS = ['content-type', 'accept', 'authorization'];
+
+/**
+ * Postman Collection v2.0/v2.1 to OpenAPI 3.0 converter
+ * Folders become tags, requests become operations and saved responses become response examples
+ */
+export class PostmanCollectionConverter {
+  private builder!: CollectionSpecBuilder;
+  private variables: { [name: string]: string } = {};
+
+  /**
+   * Check if a parsed document is a Postman collection
+   */
+  static isPostmanCollection(document: any): boolean {
+    return !!document && typeof document === 'object' && !!document.info &&
+      Array.isArray(document.item) && (POSTMAN_SCHEMA.test(String(document.info.schema || '')) || !!document.info._postman_id);
+  }
+
+  /**
+   * Convert a Postman collection into an OpenAPI 3.0 document with its conversion report
+   */
+  convert(collection: any): CollectionConversionResult {
+    this.variables = Object.fromEntries((collection.variable || []).map((variable: any) => [variable.key, String(variable.value ?? '')]));
+    this.builder = new CollectionSpecBuilder(
+      'postman',
+      collection.info.name || 'Postman Collection',
+      this.toVersion(collection.info.version),
+      this.toDescription(collection.info.description)
+    );
+
+    const collectionSecurity = this.convertAuth(collection.auth);
+    if (collectionSecurity) {
+      this.builder.setSecurity(collectionSecurity);
+    }
+
+    this.convertItems(collection.item || [], undefined);
+    return this.builder.build();
+  }
+
+  /**
+   * Walk folders and requests; a request is tagged with its closest folder
+   */
+  private convertItems(items: any[], tag: string | undefined): void {
+    for (const item of items) {
+      if (Array.isArray(item.item)) {
+        this.builder.addTag(item.name, this.toDescription(item.description));
+        this.convertItems(item.item, item.name);
+      } else if (item.request) {
+        this.convertRequest(item, tag);
+      }
+    }
+  }
+
+  private convertRequest(item: any, tag: string | undefined): void {
+    const name: string = item.name || 'Unnamed request';
+    const request = typeof item.request === 'string' ? { method: 'GET', url: item.request } : item.request;
+    const url = typeof request.url === 'string' ? { raw: request.url } : request.url || {};
+
+    if (!url.raw && !url.path && !url.host) {
+      this.builder.skipRequest(name, 'request has no URL');
+      return;
+    }
+
+    const parsedUrl = parseCollectionUrl(url.raw || this.joinUrl(url));
+    const segments = url.path ? this.pathSegments(url.path) : parsedUrl.segments;
+    const pathVariables = Object.fromEntries((url.variable || []).map((variable: any) => [
+      variable.key,
+      { value: variable.value, description: this.toDescription(variable.description) }
+    ]));
+    const { path: openApiPath, parameters: pathParameters } = toOpenApiPath(segments, pathVariables);
+
+    const origin = url.host ? this.joinOrigin(url) : parsedUrl.origin;
+    if (origin) {
+      this.builder.addServer(origin, this.variables);
+    }
+
+    const query: Array<{ key: string; value?: string; description?: any; disabled?: boolean }> = url.query
+      || parsedUrl.query.map(param => ({ key: param.name, value: param.value }));
+    const parameters: Parameter[] = [
+      ...pathParameters,
+      ...query.filter(param => !param.disabled && param.key)
+        .map(param => toParameter('query', param.key, param.value ?? undefined, this.toDescription(param.description))),
+      ...(request.header || [])
+        .filter((header: any) => !header.disabled && header.key && !RESERVED_HEADERS.includes(header.key.toLowerCase()))
+        .map((header: any) => toParameter('header', header.key, header.value, this.toDescription(header.description)))
+    ];
+
+    const operation: Operation = {
+      summary: name,
+      ...(this.toDescription(request.description) ? { description: this.toDescription(request.description) } : {}),
+      ...(tag ? { tags: [tag] } : {}),
+      ...(parameters.length > 0 ? { parameters } : {}),
+      responses: this.convertResponses(item.response || [])
+    };
+
+    const body = this.convertBody(request.body, request.header || [], name);
+    const requestBody = body ? toRequestBody(body) : undefined;
+    if (requestBody) {
+      operation.requestBody = requestBody;
+    }
+
+    if (request.auth) {
+      const security = this.convertAuth(request.auth);
+      if (security) {
+        operation.security = security;
+      }
+    }
+
+    this.builder.addOperation(name, request.method || 'GET', openApiPath, operation);
+  }
+
+  private convertBody(body: any, headers: any[], name: string): CollectionBody | undefined {
+    if (!body || body.disabled) {
+      return undefined;
+    }
+
+    switch (body.mode) {
+      case 'raw': {
+        const contentType = headers.find((header: any) => !header.disabled && header.key?.toLowerCase() === 'content-type')?.value;
+        const language = body.options?.raw?.language;
+        const mediaType = contentType || (language === 'json' ? 'application/json' : language === 'xml' ? 'application/xml' : 'text/plain');
+        return { mediaType: mediaType.split(';')[0].trim(), text: body.raw };
+      }
+      case 'urlencoded':
+        return {
+          mediaType: 'application/x-www-form-urlencoded',
+          fields: (body.urlencoded || []).filter((field: any) => !field.disabled)
+            .map((field: any) => ({ name: field.key, value: field.value, description: this.toDescription(field.description) }))
+        };
+      case 'formdata':
+        return {
+          mediaType: 'multipart/form-data',
+          fields: (body.formdata || []).filter((field: any) => !field.disabled)
+            .map((field: any) => ({ name: field.key, value: field.value, description: this.toDescription(field.description), file: field.type === 'file' }))
+        };
+      case 'graphql':
+        return { mediaType: 'application/json', text: JSON.stringify({ query: body.graphql?.query || '', variables: this.parseJson(body.graphql?.variables) }) };
+      case 'file':
+        return { mediaType: 'application/octet-stream' };
+      default:
+        this.builder.warn(`${name}: unsupported body mode '${body.mode}' dropped`);
+        return undefined;
+    }
+  }
+
+  /**
+   * Saved responses become documented responses; the first example per status code wins
+   */
+  private convertResponses(savedResponses: any[]): Responses {
+    const responses: Responses = {};
+    for (const saved of savedResponses) {
+      const code = String(saved.code || 200);
+      if (responses[code]) {
+        continue;
+      }
+      const contentType = (saved.header || []).find((header: any) => header.key?.toLowerCase() === 'content-type')?.value;
+      const mediaType = (contentType || (saved._postman_previewlanguage === 'json' ? 'application/json' : 'text/plain')).split(';')[0].trim();
+      responses[code] = toResponse(saved.name || saved.status || 'Response', saved.body ? { mediaType, text: saved.body } : undefined);
+    }
+
+    if (Object.keys(responses).length === 0) {
+      responses['200'] = { description: 'Successful response' };
+    }
+    return responses;
+  }
+
+  /**
+   * Convert Postman auth to a security requirement, registering the matching scheme
+   */
+  private convertAuth(auth: any): SecurityRequirement[] | undefined {
+    if (!auth || !auth.type) {
+      return undefined;
+    }
+    if (auth.type === 'noauth') {
+      return [];
+    }
+
+    const settings = this.authSettings(auth[auth.type]);
+    let scheme: SecurityScheme;
+    switch (auth.type) {
+      case 'bearer':
+        scheme = { type: 'http', scheme: 'bearer' };
+        break;
+      case 'basic':
+        scheme = { type: 'http', scheme: 'basic' };
+        break;
+      case 'apikey':
+        scheme = { type: 'apiKey', name: settings.key || 'X-API-Key', in: settings.in === 'query' ? 'query' : 'header' };
+        break;
+      case 'oauth2':
+        scheme = {
+          type: 'oauth2',
+          flows: {
+            [settings.grant_type === 'authorization_code' ? 'authorizationCode' : 'clientCredentials']: {
+              ...(settings.authUrl ? { authorizationUrl: settings.authUrl } : {}),
+              tokenUrl: settings.accessTokenUrl || '',
+              scopes: Object.fromEntries(String(settings.scope || '').split(/\s+/).filter(Boolean).map(scope => [scope, scope]))
+            }
+          }
+        };
+        break;
+      default:
+        this.builder.warn(`unsupported auth type '${auth.type}' dropped`);
+        return undefined;
+    }
+
+    const name = `${auth.type}Auth`;
+    this.builder.addSecurityScheme(name, scheme);
+    return [{ [name]: [] }];
+  }
+
+  /**
+   * v2.1 stores auth settings as key/value arrays, v2.0 as plain objects
+   */
+  private authSettings(settings: any): { [key: string]: any } {
+    if (Array.isArray(settings)) {
+      return Object.fromEntries(settings.map((setting: any) => [setting.key, setting.value]));
+    }
+    return settings || {};
+  }
+
+  private joinOrigin(url: any): string {
+    const host = Array.isArray(url.host) ? url.host.join('.') : url.host;
+    return `${url.protocol ? `${url.protocol}://` : ''}${host}${url.port ? `:${url.port}` : ''}`;
+  }
+
+  private joinUrl(url: any): string {
+    return `${url.host ? this.joinOrigin(url) : ''}/${this.pathSegments(url.path || []).join('/')}`;
+  }
+
+  /**
+   * Path segments are strings, or { type, value } objects in older exports
+   */
+  private pathSegments(urlPath: any): string[] {
+    if (typeof urlPath === 'string') {
+      return urlPath.split('/').filter(Boolean);
+    }
+    return urlPath.map((segment: any) => typeof segment === 'string' ? segment : segment.value);
+  }
+
+  private toVersion(version: any): string {
+    if (!version) {
+      return '1.0.0';
+    }
+    if (typeof version === 'object') {
+      return `${version.major ?? 1}.${version.minor ?? 0}.${version.patch ?? 0}`;
+    }
+    return String(version);
+  }
+
+  private toDescription(description: any): string | undefined {
+    const text = typeof description === 'object' && description ? description.content : description;
+    return typeof text === 'string' && text.trim() !== '' ? text : undefined;
+  }
+
+  private parseJson(text: any): any {
+    if (typeof text !== 'string' || text.trim() === '') {
+      return {};
+    }
+    try {
+      return JSON.parse(text);
+    } catch {
+      return {};
+    }
+  }
+}
+
+/**
+ * Postman collection format parser
+ * Detects collections by the .postman_collection.json extension or by the collection schema in the content
+ */
+export class PostmanCollectionFormatParser implements IApiSpecFormatParser {
+  canParse(source: string, sourceType: ApiSpecSourceType): boolean {
+    if (sourceType === ApiSpecSourceType.FILE_PATH) {
+      if (source.toLowerCase().endsWith('.postman_collection.json')) {
+        return true;
+      }
+      // Only .json files are read to look for the collection schema
+      return path.extname(source).toLowerCase() === '.json' && fs.existsSync(source) &&
+        this.looksLikeCollection(readSpecFile(source));
+    }
+    if (sourceType === ApiSpecSourceType.CONTENT_STRING) {
+      return this.looksLikeCollection(source);
+    }
+    return false;
+  }
+
+  parse(content: string): ApiSpec {
+    let collection: any;
+    try {
+      collection = JSON.parse(content);
+    } catch (error) {
+      throw new Error(`Failed to parse Postman collection: ${error}`);
+    }
+    if (!PostmanCollectionConverter.isPostmanCollection(collection)) {
+      throw new Error('Failed to parse Postman collection: missing info or item array');
+    }
+    return new PostmanCollectionConverter().convert(collection).spec;
+  }
+
+  getSupportedExtensions(): string[] {
+    return ['.postman_collection.json'];
+  }
+
+  getSupportedMediaTypes(): string[] {
+    return ['application/vnd.postman.collection+json'];
+  }
+
+  private looksLikeCollection(content: string): boolean {
+    const trimmed = content.trim();
+    return trimmed.startsWith('{') && (POSTMAN_SCHEMA.test(trimmed) || trimmed.includes('"_postman_id"'));
+  }
+}
@@ -0,0 +1,248 @@
+import * as fs from 'fs';
+import * as yaml from 'js-yaml';
+import * as path from 'path';
+
+/**
+ * Details of a circular $ref found while dereferencing
+ */
+export interface CircularRef {
+  ref: string;
+  location: string;
+}
+
+/**
+ * Unescape a JSON pointer token of a $ref: percent-decoding first, then ~1 and ~0
+ */
+export function unescapePointerToken(token: string): string {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(token);
+  } catch {
+    // A literal % that is not a percent-encoding (e.g. /paths/~1discount~1100%)
+    decoded = token;
+  }
+  return decoded.replace(/~1/g, '/').replace(/~0/g, '~');
+}
+
+/**
+ * Resolves local (#/components/...) and relative-file (./schemas/pet.yaml#/Pet) $ref pointers
+ * Relative refs of a document loaded from a URL resolve against that URL; remote documents are not fetched here,
+ * they must be registered with addDocument() first (see getReferencedDocuments())
+ * Circular references are left as { $ref } stubs and reported through getCircularRefs()
+ */
+export class RefResolver {
+  private baseDir: string;
+  private rootFile: string = '';
+  private documentCache: Map<string, any> = new Map();
+  private resolvedCache: Map<string, any> = new Map();
+  private circularRefs: CircularRef[] = [];
+  private circularCount: number = 0;
+
+  constructor(baseDir: string = process.cwd()) {
+    this.baseDir = baseDir;
+  }
+
+  /**
+   * Return a fully expanded copy of the given document
+   */
+  dereference<T>(document: T, documentPath?: string): T {
+    this.rootFile = documentPath ? this.toAbsoluteLocation(documentPath) : path.join(this.baseDir, '<root>');
+    this.documentCache.set(this.rootFile, document);
+    this.resolvedCache.clear();
+    this.circularRefs = [];
+    return this.walk(document, this.rootFile, '#', []) as T;
+  }
+
+  /**
+   * Resolve a single $ref against the document, relative to the given file
+   */
+  resolve(ref: string, fromFile: string): any {
+    const { file, pointer } = this.splitRef(ref, fromFile);
+    return this.getByPointer(this.loadDocument(file), pointer, ref);
+  }
+
+  /**
+   * Register an already loaded document (e.g. fetched from a URL) under its absolute location
+   */
+  addDocument(location: string, document: any): void {
+    this.documentCache.set(this.toAbsoluteLocation(location), document);
+  }
+
+  /**
+   * Get the absolute locations of the other documents a document refers to
+   */
+  getReferencedDocuments(document: any, location: string): string[] {
+    const documentLocation = this.toAbsoluteLocation(location);
+    const referenced = new Set<string>();
+    const collect = (node: any): void => {
+      if (Array.isArray(node)) {
+        node.forEach(collect);
+      } else if (node && typeof node === 'object') {
+        if (typeof node.$ref === 'string' && !node.$ref.startsWith('#')) {
+          referenced.add(this.splitRef(node.$ref, documentLocation).file);
+        }
+        Object.values(node).forEach(collect);
+      }
+    };
+    collect(document);
+    referenced.delete(documentLocation);
+    return [...referenced];
+  }
+
+  /**
+   * Get circular references detected during the last dereference() call
+   */
+  getCircularRefs(): CircularRef[] {
+    return [...this.circularRefs];
+  }
+
+  /**
+   * Recursively walk a node, replacing $ref objects with their expanded targets
+   */
+  private walk(node: any, currentFile: string, location: string, stack: string[]): any {
+    if (Array.isArray(node)) {
+      return node.map((item, index) => this.walk(item, currentFile, `${location}/${index}`, stack));
+    }
+    if (!node || typeof node !== 'object') {
+      return node;
+    }
+
+    if (typeof node.$ref === 'string') {
+      return this.expandRef(node, currentFile, location, stack);
+    }
+
+    const result: Record<string, any> = {};
+    for (const [key, value] of Object.entries(node)) {
+      result[key] = this.walk(value, currentFile, `${location}/${this.escapePointerToken(key)}`, stack);
+    }
+    return result;
+  }
+
+  /**
+   * Expand a single $ref node, keeping any sibling keys (allowed in OpenAPI 3.1)
+   */
+  private expandRef(node: any, currentFile: string, location: string, stack: string[]): any {
+    const { $ref, ...siblings } = node;
+    const { file, pointer } = this.splitRef($ref, currentFile);
+    const key = `${file}#${pointer}`;
+
+    if (stack.includes(key)) {
+      this.circularRefs.push({ ref: $ref, location });
+      this.circularCount++;
+      // The stub is inlined into the root document, so its $ref must point from there
+      return { ...node, $ref: this.toRootRef(file, pointer) };
+    }
+
+    let expanded: any;
+    if (this.resolvedCache.has(key)) {
+      expanded = this.resolvedCache.get(key);
+    } else {
+      const target = this.getByPointer(this.loadDocument(file), pointer, $ref);
+      const circularBefore = this.circularCount;
+      expanded = this.walk(target, file, location, [...stack, key]);
+
+      // Only reuse expansions that are complete, stubs depend on the path taken to reach them
+      if (this.circularCount === circularBefore) {
+        this.resolvedCache.set(key, expanded);
+      }
+    }
+
+    if (Object.keys(siblings).length === 0) {
+      return this.clone(expanded);
+    }
+    return { ...this.clone(expanded), ...this.walk(siblings, currentFile, location, stack) };
+  }
+
+  /**
+   * Split a $ref into an absolute file path and a JSON pointer
+   */
+  private splitRef(ref: string, currentFile: string): { file: string; pointer: string } {
+    const hashIndex = ref.indexOf('#');
+    const filePart = hashIndex === -1 ? ref : ref.substring(0, hashIndex);
+    const pointer = hashIndex === -1 ? '' : ref.substring(hashIndex + 1);
+
+    let file = currentFile;
+    if (this.isRemote(filePart)) {
+      file = this.withoutHash(filePart);
+    } else if (filePart) {
+      file = this.isRemote(currentFile) ? new URL(filePart, currentFile).href : path.resolve(path.dirname(currentFile), filePart);
+    }
+
+    return { file, pointer };
+  }
+
+  /**
+   * Build a $ref to the given file and pointer that resolves from the root document
+   */
+  private toRootRef(file: string, pointer: string): string {
+    if (file === this.rootFile) {
+      return `#${pointer}`;
+    }
+    if (this.isRemote(file) || this.isRemote(this.rootFile)) {
+      return `${file}#${pointer}`;
+    }
+    const relativeFile = path.relative(path.dirname(this.rootFile), file).split(path.sep).join('/');
+    return `${relativeFile.startsWith('.') ? '' : './'}${relativeFile}#${pointer}`;
+  }
+
+  /**
+   * Load (and cache) a referenced document from disk
+   */
+  private loadDocument(file: string): any {
+    if (!this.documentCache.has(file)) {
+      if (this.isRemote(file)) {
+        throw new Error(`Remote $ref is not supported: ${file} (only documents referenced by URL sources are fetched)`);
+      }
+      if (!fs.existsSync(file)) {
+        throw new Error(`Referenced file not found: ${file}`);
+      }
+      try {
+        this.documentCache.set(file, yaml.load(fs.readFileSync(file, 'utf8')));
+      } catch (error) {
+        throw new Error(`Failed to parse referenced file ${file}: ${error}`);
+      }
+    }
+    return this.documentCache.get(file);
+  }
+
+  /**
+   * Look up a value in a document by JSON pointer
+   */
+  private getByPointer(document: any, pointer: string, ref: string): any {
+    if (!pointer || pointer === '/') {
+      return document;
+    }
+
+    const tokens = pointer.replace(/^\//, '').split('/').map(token => unescapePointerToken(token));
+    let current = document;
+    for (const token of tokens) {
+      if (current === null || typeof current !== 'object' || !(token in current)) {
+        throw new Error(`Unable to resolve $ref: ${ref}`);
+      }
+      current = current[token];
+    }
+    return current;
+  }
+
+  private toAbsoluteLocation(location: string): string {
+    return this.isRemote(location) ? this.withoutHash(location) : path.resolve(location);
+  }
+
+  private isRemote(location: string): boolean {
+    return /^[a-z][a-z0-9+.-]*:\/\//i.test(location);
+  }
+
+  private withoutHash(url: string): string {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    return parsed.href;
+  }
+
+  private escapePointerToken(token: string): string {
+    return token.replace(/~/g, '~0').replace(/\//g, '~1');
+  }
+
+  private clone<T>(value: T): T {
+    return value === undefined ? value : JSON.parse(JSON.stringify(value));
+  }
+}
@@ -0,0 +1,290 @@
+/**
+ * A node of the rendered documentation tree (category or article link)
+ */
+export interface RenderedTreeNode {
+  label: string;
+  depth: number;
+  href: string;
+}
+
+/**
+ * A parameter as rendered on an operation page
+ */
+export interface RenderedParameter {
+  name: string;
+  // Section the parameter is listed in (path, query, header, cookie)
+  in?: string;
+  type?: string;
+  description?: string;
+}
+
+/**
+ * A response as rendered on an operation page, with the schema properties shown for it
+ */
+export interface RenderedResponse {
+  code: string;
+  description?: string;
+  properties: string[];
+}
+
+/**
+ * An operation page of the rendered documentation
+ */
+export interface RenderedOperation {
+  title: string;
+  method: string;
+  path: string;
+  description?: string;
+  parameters: RenderedParameter[];
+  requestBodyProperties: string[];
+  responses: RenderedResponse[];
+}
+
+/**
+ * Documentation of one API as scraped from the portal
+ */
+export interface RenderedDocTree {
+  title?: string;
+  version?: string;
+  nodes: RenderedTreeNode[];
+  operations: RenderedOperation[];
+}
+
+/**
+ * Part of the rendered documentation a divergence belongs to
+ */
+export enum RenderedDivergenceScope {
+  TREE = 'tree',
+  OPERATION = 'operation',
+  PARAMETER = 'parameter',
+  RESPONSE = 'response',
+  SCHEMA = 'schema'
+}
+
+/**
+ * A single difference between two rendered documentation trees
+ */
+export interface RenderedDivergence {
+  scope: RenderedDivergenceScope;
+  location: string;
+  message: string;
+  left?: string;
+  right?: string;
+}
+
+/**
+ * Result of comparing the documentation rendered from two imports
+ */
+export interface CrossFormatReport {
+  leftLabel: string;
+  rightLabel: string;
+  consistent: boolean;
+  comparedOperations: number;
+  divergences: RenderedDivergence[];
+}
+
+/**
+ * Compares two rendered documentation trees node by node
+ * Used to check that the same API imported from different formats (YAML, JSON) renders identically
+ */
+export class RenderedDocDiff {
+  private divergences: RenderedDivergence[] = [];
+
+  private constructor(
+    private left: RenderedDocTree,
+    private right: RenderedDocTree,
+    private leftLabel: string,
+    private rightLabel: string
+  ) {}
+
+  /**
+   * Compare two rendered trees; labels name the sides in the report (e.g. yaml and json)
+   */
+  static compare(left: RenderedDocTree, right: RenderedDocTree, leftLabel: string = 'left', rightLabel: string = 'right'): CrossFormatReport {
+    return new RenderedDocDiff(left, right, leftLabel, rightLabel).run();
+  }
+
+  /**
+   * Format a report as human readable lines ([response] GET /users 200 - description differs: yaml "OK", json "Success")
+   */
+  static formatReport(report: CrossFormatReport): string[] {
+    return report.divergences.map(divergence => {
+      const values = divergence.left !== undefined || divergence.right !== undefined
+        ? `: ${report.leftLabel} ${JSON.stringify(divergence.left ?? null)}, ${report.rightLabel} ${JSON.stringify(divergence.right ?? null)}`
+        : '';
+      return `[${divergence.scope}] ${divergence.location} - ${divergence.message}${values}`;
+    });
+  }
+
+  private run(): CrossFormatReport {
+    this.compareValue(RenderedDivergenceScope.TREE, 'introduction', 'title', this.left.title, this.right.title);
+    this.compareValue(RenderedDivergenceScope.TREE, 'introduction', 'version', this.left.version, this.right.version);
+    this.compareTree();
+    const comparedOperations = this.compareOperations();
+
+    return {
+      leftLabel: this.leftLabel,
+      rightLabel: this.rightLabel,
+      consistent: this.divergences.length === 0,
+      comparedOperations,
+      divergences: this.divergences
+    };
+  }
+
+  /**
+   * Tree nodes are compared by label and depth, in order (hrefs contain generated ids and always differ)
+   * The trees are aligned on their longest common subsequence, so one misplaced node does not shift everything after it;
+   * every node outside it is reported, as moved or re-nested when its label is on both sides
+   */
+  private compareTree(): void {
+    const leftNodes = this.left.nodes;
+    const rightNodes = this.right.nodes;
+    const { leftOnly, rightOnly } = this.alignNodes(leftNodes, rightNodes);
+
+    for (const leftIndex of [...leftOnly]) {
+      const label = leftNodes[leftIndex].label;
+      const rightIndex = rightOnly.find(index => rightNodes[index].label === label);
+      if (rightIndex === undefined) {
+        continue;
+      }
+      leftOnly.splice(leftOnly.indexOf(leftIndex), 1);
+      rightOnly.splice(rightOnly.indexOf(rightIndex), 1);
+      const left = leftNodes[leftIndex];
+      const right = rightNodes[rightIndex];
+      this.report(RenderedDivergenceScope.TREE, `tree[${leftIndex}]`, 'node differs in position or depth',
+        `${left.label} (position ${leftIndex}, depth ${left.depth})`, `${right.label} (position ${rightIndex}, depth ${right.depth})`);
+    }
+    for (const index of leftOnly) {
+      this.report(RenderedDivergenceScope.TREE, `tree[${index}]`, `node ${leftNodes[index].label} only rendered from ${this.leftLabel}`);
+    }
+    for (const index of rightOnly) {
+      this.report(RenderedDivergenceScope.TREE, `tree[${index}]`, `node ${rightNodes[index].label} only rendered from ${this.rightLabel}`);
+    }
+  }
+
+  /**
+   * Longest common subsequence of the two node lists by label and depth, returning the indexes outside it
+   */
+  private alignNodes(leftNodes: RenderedTreeNode[], rightNodes: RenderedTreeNode[]): { leftOnly: number[]; rightOnly: number[] } {
+    const same = (left: RenderedTreeNode, right: RenderedTreeNode) => left.label === right.label && left.depth === right.depth;
+    // lengths[i][j]: length of the common subsequence of leftNodes[i..] and rightNodes[j..]
+    const lengths = Array.from({ length: leftNodes.length + 1 }, () => new Array<number>(rightNodes.length + 1).fill(0));
+    for (let i = leftNodes.length - 1; i >= 0; i--) {
+      for (let j = rightNodes.length - 1; j >= 0; j--) {
+        lengths[i][j] = same(leftNodes[i], rightNodes[j]) ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+
+    const leftOnly: number[] = [];
+    const rightOnly: number[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < leftNodes.length && j < rightNodes.length) {
+      if (same(leftNodes[i], rightNodes[j])) {
+        i++;
+        j++;
+      } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+        leftOnly.push(i++);
+      } else {
+        rightOnly.push(j++);
+      }
+    }
+    while (i < leftNodes.length) {
+      leftOnly.push(i++);
+    }
+    while (j < rightNodes.length) {
+      rightOnly.push(j++);
+    }
+    return { leftOnly, rightOnly };
+  }
+
+  private compareOperations(): number {
+    const leftOperations = this.indexBy(this.left.operations, operation => this.operationKey(operation));
+    const rightOperations = this.indexBy(this.right.operations, operation => this.operationKey(operation));
+
+    this.compareNames(RenderedDivergenceScope.OPERATION, 'operations', 'operation', [...leftOperations.keys()], [...rightOperations.keys()]);
+
+    let compared = 0;
+    for (const [key, leftOperation] of leftOperations) {
+      const rightOperation = rightOperations.get(key);
+      if (rightOperation) {
+        this.compareOperation(key, leftOperation, rightOperation);
+        compared++;
+      }
+    }
+    return compared;
+  }
+
+  private compareOperation(key: string, left: RenderedOperation, right: RenderedOperation): void {
+    this.compareValue(RenderedDivergenceScope.OPERATION, key, 'title', left.title, right.title);
+    this.compareValue(RenderedDivergenceScope.OPERATION, key, 'description', left.description, right.description);
+
+    // A path and a query parameter may share a name
+    const leftParameters = this.indexBy(left.parameters, parameter => this.parameterKey(parameter));
+    const rightParameters = this.indexBy(right.parameters, parameter => this.parameterKey(parameter));
+    this.compareNames(RenderedDivergenceScope.PARAMETER, key, 'parameter', [...leftParameters.keys()], [...rightParameters.keys()]);
+    for (const [name, leftParameter] of leftParameters) {
+      const rightParameter = rightParameters.get(name);
+      if (rightParameter) {
+        this.compareValue(RenderedDivergenceScope.PARAMETER, `${key} ${name}`, 'type', leftParameter.type, rightParameter.type);
+        this.compareValue(RenderedDivergenceScope.PARAMETER, `${key} ${name}`, 'description', leftParameter.description, rightParameter.description);
+      }
+    }
+
+    this.compareNames(RenderedDivergenceScope.SCHEMA, `${key} request body`, 'property', left.requestBodyProperties, right.requestBodyProperties);
+
+    const leftResponses = this.indexBy(left.responses, response => response.code);
+    const rightResponses = this.indexBy(right.responses, response => response.code);
+    this.compareNames(RenderedDivergenceScope.RESPONSE, key, 'response', [...leftResponses.keys()], [...rightResponses.keys()]);
+    for (const [code, leftResponse] of leftResponses) {
+      const rightResponse = rightResponses.get(code);
+      if (rightResponse) {
+        this.compareValue(RenderedDivergenceScope.RESPONSE, `${key} ${code}`, 'description', leftResponse.description, rightResponse.description);
+        this.compareNames(RenderedDivergenceScope.SCHEMA, `${key} ${code} response`, 'property', leftResponse.properties, rightResponse.properties);
+      }
+    }
+  }
+
+  /**
+   * Report names present on only one side
+   */
+  private compareNames(scope: RenderedDivergenceScope, location: string, kind: string, left: string[], right: string[]): void {
+    const rightSet = new Set(right);
+    const leftSet = new Set(left);
+    for (const name of left.filter(name => !rightSet.has(name))) {
+      this.report(scope, location, `${kind} ${name} only rendered from ${this.leftLabel}`);
+    }
+    for (const name of right.filter(name => !leftSet.has(name))) {
+      this.report(scope, location, `${kind} ${name} only rendered from ${this.rightLabel}`);
+    }
+  }
+
+  private compareValue(scope: RenderedDivergenceScope, location: string, field: string, left?: string, right?: string): void {
+    if (this.normalizeText(left) !== this.normalizeText(right)) {
+      this.report(scope, location, `${field} differs`, left, right);
+    }
+  }
+
+  private report(scope: RenderedDivergenceScope, location: string, message: string, left?: string, right?: string): void {
+    this.divergences.push({ scope, location, message, left, right });
+  }
+
+  private operationKey(operation: RenderedOperation): string {
+    return `${operation.method.toUpperCase()} ${operation.path}`;
+  }
+
+  private parameterKey(parameter: RenderedParameter): string {
+    return parameter.in ? `${parameter.name} (${parameter.in})` : parameter.name;
+  }
+
+  private indexBy<T>(items: T[], key: (item: T) => string): Map<string, T> {
+    return new Map(items.map(item => [key(item), item]));
+  }
+
+  /**
+   * Whitespace is layout, not content
+   */
+  private normalizeText(text?: string): string {
+    return (text || '').replace(/\s+/g, ' ').trim();
+  }
+}
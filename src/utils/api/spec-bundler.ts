@@ -0,0 +1,378 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { SpecDiagnostic, SpecStructureValidator, SpecValidationResult } from './spec-structure-validator';
+import { SpecSourceMap, SourcePosition } from './spec-source-map';
+
+// Temp directories of bundles written without an outputDir
+const BUNDLE_DIR_PREFIX = 'd360-bundled-specs-';
+
+/**
+ * Where a node of the bundled document came from
+ */
+interface BundleOrigin {
+  file: string;
+  pointer: string;
+}
+
+/**
+ * Component sections external $refs are hoisted into, by the position of the $ref
+ */
+type ComponentKind = 'schemas' | 'parameters' | 'responses' | 'requestBodies' | 'headers' | 'examples' | 'links' | 'callbacks';
+
+/**
+ * Result of bundling a multi-file specification
+ */
+export interface SpecBundle {
+  document: any;
+  entryFile: string;
+  files: string[];
+  diagnostics: SpecDiagnostic[];
+}
+
+const SCHEMA_KEYWORDS = ['schema', 'schemas', 'properties', 'items', 'allOf', 'oneOf', 'anyOf', 'not', 'additionalProperties', 'prefixItems', '$defs'];
+
+/**
+ * Multi-file specification bundler
+ * Inlines relative-file $refs (./schemas/pet.yaml#/Pet) into a single document: referenced components are hoisted
+ * into #/components and referenced with local $refs, path items are inlined in place. Local $refs are kept.
+ * Diagnostics name the original file (relative to the entry file) and the line/column inside it.
+ */
+export class SpecBundler {
+  private entryFile: string = '';
+  private baseDir: string = '';
+  private documents: Map<string, any> = new Map();
+  private sourceMaps: Map<string, SpecSourceMap> = new Map();
+  private bundled: Map<string, string> = new Map();
+  private origins: Map<string, BundleOrigin> = new Map();
+  private hoisted: { [kind: string]: { [name: string]: any } } = {};
+  private diagnostics: SpecDiagnostic[] = [];
+
+  /**
+   * Remove a bundle written by writeBundle(), with the temp directory it was given when no outputDir was passed
+   */
+  static removeBundle(bundleFile: string): void {
+    const bundleDir = path.dirname(bundleFile);
+    const ownsDir = path.dirname(bundleDir) === os.tmpdir() && path.basename(bundleDir).startsWith(BUNDLE_DIR_PREFIX);
+    fs.rmSync(ownsDir ? bundleDir : bundleFile, { recursive: true, force: true });
+  }
+
+  /**
+   * Check if a specification file references other files
+   */
+  static hasExternalRefs(filePath: string): boolean {
+    let found = false;
+    const visit = (node: any): void => {
+      if (found || !node || typeof node !== 'object') {
+        return;
+      }
+      if (typeof node.$ref === 'string' && !node.$ref.startsWith('#')) {
+        found = true;
+        return;
+      }
+      Object.values(node).forEach(visit);
+    };
+
+    try {
+      visit(yaml.load(fs.readFileSync(filePath, 'utf8')));
+    } catch {
+      return false;
+    }
+    return found;
+  }
+
+  /**
+   * Bundle a specification and its referenced files into one document
+   */
+  bundle(entryFile: string): SpecBundle {
+    this.entryFile = path.resolve(entryFile);
+    this.baseDir = path.dirname(this.entryFile);
+    this.documents.clear();
+    this.sourceMaps.clear();
+    this.bundled.clear();
+    this.origins = new Map([['', { file: this.entryFile, pointer: '' }]]);
+    this.hoisted = {};
+    this.diagnostics = [];
+
+    const root = this.loadDocument(this.entryFile, this.entryFile, '');
+    const document = root === undefined ? {} : this.walk(root, this.entryFile, '', '', []);
+
+    for (const [kind, components] of Object.entries(this.hoisted)) {
+      document.components = document.components || {};
+      document.components[kind] = { ...(document.components[kind] || {}), ...components };
+    }
+
+    return {
+      document,
+      entryFile: this.entryFile,
+      files: [...this.documents.keys()].map(file => this.displayName(file)),
+      diagnostics: this.diagnostics
+    };
+  }
+
+  /**
+   * Bundle a specification and write it to a temp file that keeps the entry file's name and format
+   * Without outputDir each call writes to a fresh temp directory, so parallel workers never share a file;
+   * remove it with removeBundle() once the file is uploaded
+   * Throws with the original file names and positions when a reference cannot be resolved
+   */
+  writeBundle(entryFile: string, outputDir?: string): string {
+    const bundle = this.bundle(entryFile);
+    if (bundle.diagnostics.length > 0) {
+      const details = SpecStructureValidator.formatDiagnostics({ valid: false, diagnostics: bundle.diagnostics }).join('\n');
+      throw new Error(`Failed to bundle ${path.basename(entryFile)}:\n${details}`);
+    }
+
+    const bundleDir = outputDir ?? fs.mkdtempSync(path.join(os.tmpdir(), BUNDLE_DIR_PREFIX));
+    fs.mkdirSync(bundleDir, { recursive: true });
+    const outputFile = path.join(bundleDir, path.basename(entryFile));
+    const isJson = path.extname(entryFile).toLowerCase() === '.json';
+    fs.writeFileSync(outputFile, isJson ? JSON.stringify(bundle.document, null, 2) : yaml.dump(bundle.document, { noRefs: true, lineWidth: -1 }));
+    return outputFile;
+  }
+
+  /**
+   * Validate the bundled document against the OpenAPI meta-schema,
+   * reporting each problem in the file it was written in
+   */
+  validate(entryFile: string): SpecValidationResult {
+    const bundle = this.bundle(entryFile);
+    if (bundle.diagnostics.length > 0) {
+      return { valid: false, diagnostics: bundle.diagnostics };
+    }
+
+    const result = SpecStructureValidator.validateDocument(bundle.document);
+    return {
+      ...result,
+      diagnostics: result.diagnostics.map(diagnostic => {
+        const origin = this.originOf(diagnostic.pointer);
+        return { ...diagnostic, pointer: origin.pointer, file: this.displayName(origin.file), ...this.positionOf(origin.file, origin.pointer) };
+      })
+    };
+  }
+
+  /**
+   * Map a pointer into the last bundled document back to its original file, line and column
+   */
+  getSourcePosition(bundledPointer: string): SourcePosition | undefined {
+    const origin = this.originOf(bundledPointer);
+    const position = this.positionOf(origin.file, origin.pointer);
+    return position.line !== undefined ? { file: this.displayName(origin.file), line: position.line, column: position.column! } : undefined;
+  }
+
+  /**
+   * Recursively copy a node, replacing external $refs
+   * filePointer is the node's pointer inside its own file, location its pointer in the bundled document
+   */
+  private walk(node: any, file: string, filePointer: string, location: string, stack: string[]): any {
+    if (Array.isArray(node)) {
+      return node.map((item, index) => this.walk(item, file, `${filePointer}/${index}`, `${location}/${index}`, stack));
+    }
+    if (!node || typeof node !== 'object') {
+      return node;
+    }
+
+    if (typeof node.$ref === 'string') {
+      return this.bundleRef(node, file, filePointer, location, stack);
+    }
+
+    const result: Record<string, any> = {};
+    for (const [key, value] of Object.entries(node)) {
+      const token = this.escapeToken(key);
+      result[key] = this.walk(value, file, `${filePointer}/${token}`, `${location}/${token}`, stack);
+    }
+    return result;
+  }
+
+  private bundleRef(node: any, file: string, filePointer: string, location: string, stack: string[]): any {
+    const { $ref, ...rest } = node;
+    const siblings = this.walk(rest, file, filePointer, location, stack);
+
+    if (/^[a-z][a-z0-9+.-]*:\/\//i.test($ref)) {
+      return { $ref, ...siblings };
+    }
+
+    const hashIndex = $ref.indexOf('#');
+    const filePart = hashIndex === -1 ? $ref : $ref.substring(0, hashIndex);
+    const targetPointer = hashIndex === -1 ? '' : decodeURIComponent($ref.substring(hashIndex + 1));
+    const targetFile = filePart ? path.resolve(path.dirname(file), filePart) : file;
+
+    // Local refs of the entry file stay as they are
+    if (targetFile === this.entryFile) {
+      return { $ref: `#${targetPointer}`, ...siblings };
+    }
+
+    const key = `${targetFile}#${targetPointer}`;
+    const existing = this.findBundled(targetFile, targetPointer);
+    if (existing !== undefined) {
+      return { $ref: `#${existing}`, ...siblings };
+    }
+
+    const targetDocument = this.loadDocument(targetFile, file, `${filePointer}/$ref`);
+    if (targetDocument === undefined) {
+      return { $ref, ...siblings };
+    }
+    const target = this.getByPointer(targetDocument, targetPointer);
+    if (target === undefined) {
+      this.report(file, `${filePointer}/$ref`, `Unable to resolve $ref '${$ref}': ${this.displayName(targetFile)} has no ${targetPointer || 'root'}`);
+      return { $ref, ...siblings };
+    }
+
+    const kind = this.componentKind(location);
+    if (!kind || stack.includes(key)) {
+      // Path items and other positions without a component section are inlined in place
+      this.bundled.set(key, location);
+      this.origins.set(location, { file: targetFile, pointer: targetPointer });
+      const inlined = this.walk(target, targetFile, targetPointer, location, [...stack, key]);
+      return inlined && typeof inlined === 'object' && !Array.isArray(inlined) ? { ...inlined, ...siblings } : inlined;
+    }
+
+    const name = this.componentName(kind, targetFile, targetPointer);
+    const componentPointer = `/components/${kind}/${this.escapeToken(name)}`;
+    this.bundled.set(key, componentPointer);
+    this.origins.set(componentPointer, { file: targetFile, pointer: targetPointer });
+    this.hoisted[kind] = this.hoisted[kind] || {};
+    this.hoisted[kind][name] = {};
+    this.hoisted[kind][name] = this.walk(target, targetFile, targetPointer, componentPointer, [...stack, key]);
+
+    return { $ref: `#${componentPointer}`, ...siblings };
+  }
+
+  /**
+   * Find where a file pointer (or one of its ancestors) was already bundled
+   */
+  private findBundled(file: string, pointer: string): string | undefined {
+    let current = pointer;
+    let remainder = '';
+    while (true) {
+      const bundledPointer = this.bundled.get(`${file}#${current}`);
+      if (bundledPointer !== undefined) {
+        return `${bundledPointer}${remainder}`;
+      }
+      if (current === '') {
+        return undefined;
+      }
+      const slash = current.lastIndexOf('/');
+      remainder = `${current.substring(slash)}${remainder}`;
+      current = current.substring(0, slash);
+    }
+  }
+
+  /**
+   * Pick the component section for a $ref by where it appears in the bundled document
+   */
+  private componentKind(location: string): ComponentKind | undefined {
+    const tokens = location.split('/').slice(1);
+    const parent = tokens[tokens.length - 2];
+    const last = tokens[tokens.length - 1];
+
+    if (tokens[0] === 'components' && tokens.length === 3) {
+      return tokens[1] as ComponentKind;
+    }
+    if (tokens.some(token => SCHEMA_KEYWORDS.includes(token)) || tokens[0] === 'definitions') {
+      return 'schemas';
+    }
+    if (parent === 'parameters') {
+      return 'parameters';
+    }
+    if (parent === 'responses') {
+      return 'responses';
+    }
+    if (last === 'requestBody') {
+      return 'requestBodies';
+    }
+    if (parent === 'headers') {
+      return 'headers';
+    }
+    if (parent === 'examples') {
+      return 'examples';
+    }
+    if (parent === 'links') {
+      return 'links';
+    }
+    if (parent === 'callbacks') {
+      return 'callbacks';
+    }
+    return undefined;
+  }
+
+  /**
+   * Name a hoisted component after the last pointer token, or the file name for whole-file refs
+   */
+  private componentName(kind: ComponentKind, file: string, pointer: string): string {
+    const lastToken = pointer.split('/').pop();
+    const base = lastToken
+      ? lastToken.replace(/~1/g, '/').replace(/~0/g, '~')
+      : path.basename(file, path.extname(file)).replace(/(^|[-_.\s]+)(\w)/g, (match, separator, letter: string) => letter.toUpperCase());
+
+    const existing = this.getByPointer(this.documents.get(this.entryFile), `/components/${kind}`) || {};
+    let name = base;
+    for (let suffix = 2; name in existing || name in (this.hoisted[kind] || {}); suffix++) {
+      name = `${base}${suffix}`;
+    }
+    return name;
+  }
+
+  private loadDocument(file: string, fromFile: string, fromPointer: string): any {
+    if (!this.documents.has(file)) {
+      if (!fs.existsSync(file)) {
+        this.report(fromFile, fromPointer, `Referenced file not found: ${this.displayName(file)}`);
+        return undefined;
+      }
+      const content = fs.readFileSync(file, 'utf8');
+      try {
+        this.documents.set(file, yaml.load(content));
+        this.sourceMaps.set(file, SpecSourceMap.fromContent(content, this.displayName(file)));
+      } catch (error) {
+        this.report(fromFile, fromPointer, `Failed to parse referenced file ${this.displayName(file)}: ${(error as Error).message.split('\n')[0]}`);
+        return undefined;
+      }
+    }
+    return this.documents.get(file);
+  }
+
+  private getByPointer(document: any, pointer: string): any {
+    return pointer.split('/').slice(1).reduce<any>(
+      (node, token) => node && typeof node === 'object' ? node[token.replace(/~1/g, '/').replace(/~0/g, '~')] : undefined,
+      document
+    );
+  }
+
+  /**
+   * Find the original file and pointer of a bundled pointer through its closest bundled ancestor
+   */
+  private originOf(bundledPointer: string): BundleOrigin {
+    let current = bundledPointer;
+    let remainder = '';
+    while (true) {
+      const origin = this.origins.get(current);
+      if (origin) {
+        return { file: origin.file, pointer: `${origin.pointer}${remainder}` };
+      }
+      const slash = current.lastIndexOf('/');
+      remainder = `${current.substring(slash)}${remainder}`;
+      current = current.substring(0, slash);
+    }
+  }
+
+  private positionOf(file: string, pointer: string): { line?: number; column?: number } {
+    const position = this.sourceMaps.get(file)?.locate(pointer);
+    return position ? { line: position.line, column: position.column } : {};
+  }
+
+  private report(file: string, pointer: string, message: string): void {
+    this.diagnostics.push({ pointer, message, keyword: '$ref', file: this.displayName(file), ...this.positionOf(file, pointer) });
+  }
+
+  /**
+   * Files are named relative to the entry file's directory, as written in the $refs
+   */
+  private displayName(file: string): string {
+    return path.relative(this.baseDir, file) || path.basename(file);
+  }
+
+  private escapeToken(token: string): string {
+    return token.replace(/~/g, '~0').replace(/\//g, '~1');
+  }
+}
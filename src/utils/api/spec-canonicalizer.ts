@@ -0,0 +1,152 @@
+import * as crypto from 'crypto';
+import { ApiSpecParserFactory, ApiSpecParserOptions } from './api-spec-parser';
+
+/**
+ * Options interface for SpecCanonicalizer configuration
+ */
+export interface CanonicalizeOptions {
+  // Drop x-* vendor extensions, so specs that only differ in tooling metadata compare equal
+  stripExtensions?: boolean;
+}
+
+/**
+ * Response code ranges are case-insensitive (2xx and 2XX)
+ */
+const STATUS_CODE_RANGE = /^[1-5]xx$/i;
+
+/**
+ * Keys of spec objects whose value maps user-chosen names (properties, headers, paths...) to spec objects;
+ * a name such as x-request-id is not a vendor extension
+ */
+const NAME_KEYED_MAPS = new Set([
+  'properties', 'patternProperties', 'definitions', '$defs', 'paths', 'webhooks', 'responses', 'content', 'encoding',
+  'headers', 'schemas', 'parameters', 'requestBodies', 'securitySchemes', 'securityDefinitions', 'examples', 'links',
+  'callbacks', 'pathItems', 'variables', 'scopes', 'mapping', 'channels', 'operations', 'messages', 'servers'
+]);
+
+/**
+ * Keys of spec objects whose value is example or instance data, kept as written
+ */
+const DATA_KEYS = new Set(['example', 'default', 'enum', 'const', 'value']);
+
+/**
+ * What a node of the document is: a spec object, a map of named spec objects, or example data
+ */
+type NodeKind = 'object' | 'map' | 'data';
+
+/**
+ * Canonical form and content hash of an API description
+ * The same API written as YAML or JSON, with keys in any order, hashes to the same value:
+ * - object keys are sorted, undefined values dropped
+ * - strings use \n line endings without trailing whitespace (YAML block scalars end with a newline, JSON strings do not)
+ * - YAML timestamps become ISO strings, as they are written in JSON
+ * - media type keys are lower-cased, response code ranges upper-cased, required lists sorted
+ * - with stripExtensions, x-* keys of spec objects are dropped; names in maps and example data are kept
+ */
+export class SpecCanonicalizer {
+  private stripExtensions: boolean;
+
+  constructor(options: CanonicalizeOptions = {}) {
+    this.stripExtensions = options.stripExtensions ?? false;
+  }
+
+  /**
+   * Return the canonical copy of a document
+   */
+  canonicalize<T>(document: T): T {
+    return this.normalize(document, undefined) as T;
+  }
+
+  /**
+   * Serialize a document in canonical form (compact JSON)
+   */
+  toCanonicalJson(document: any): string {
+    return JSON.stringify(this.canonicalize(document));
+  }
+
+  /**
+   * Stable content hash of a document (sha256 of the canonical JSON)
+   */
+  hash(document: any): string {
+    return crypto.createHash('sha256').update(this.toCanonicalJson(document)).digest('hex');
+  }
+
+  /**
+   * Check if two documents describe the same API
+   */
+  equivalent(left: any, right: any): boolean {
+    return this.toCanonicalJson(left) === this.toCanonicalJson(right);
+  }
+
+  /**
+   * Content hash of a specification file
+   * The file is parsed like an import (Swagger 2.0 normalized, collections converted) and its $refs expanded,
+   * so a multi-file spec and its bundled form hash the same
+   */
+  fingerprintFile(filePath: string, options?: ApiSpecParserOptions): string {
+    const parser = ApiSpecParserFactory.createFromFile(filePath, { validationEnabled: false, dereferenceEnabled: true, ...options });
+    return this.hash(parser.parseApiSpec());
+  }
+
+  private normalize(node: any, parentKey: string | undefined, kind: NodeKind = 'object'): any {
+    if (node instanceof Date) {
+      const iso = node.toISOString();
+      return iso.endsWith('T00:00:00.000Z') ? iso.substring(0, 10) : iso;
+    }
+    if (typeof node === 'string') {
+      return node.replace(/\r\n?/g, '\n').replace(/[ \t]+\n/g, '\n').trimEnd();
+    }
+    if (typeof node === 'number') {
+      return Object.is(node, -0) ? 0 : node;
+    }
+    if (Array.isArray(node)) {
+      const items = node.map(item => this.normalize(item, undefined, this.itemKind(kind, parentKey)));
+      // required is a set of property names, its order carries no meaning
+      return parentKey === 'required' && items.every(item => typeof item === 'string') ? [...items].sort() : items;
+    }
+    if (!node || typeof node !== 'object') {
+      return node;
+    }
+
+    const result: Record<string, any> = {};
+    for (const [key, value] of Object.entries(node)) {
+      if (value === undefined || (this.stripExtensions && kind === 'object' && key.startsWith('x-'))) {
+        continue;
+      }
+      result[this.normalizeKey(key, parentKey)] = this.normalize(value, key, this.childKind(kind, key, parentKey));
+    }
+    return Object.fromEntries(Object.keys(result).sort().map(key => [key, result[key]]));
+  }
+
+  private childKind(kind: NodeKind, key: string, parentKey: string | undefined): NodeKind {
+    if (kind === 'data') {
+      return 'data';
+    }
+    if (kind === 'map') {
+      // A callback is itself a map of runtime expressions to path items
+      return parentKey === 'callbacks' ? 'map' : 'object';
+    }
+    if (NAME_KEYED_MAPS.has(key)) {
+      return 'map';
+    }
+    return DATA_KEYS.has(key) ? 'data' : 'object';
+  }
+
+  private itemKind(kind: NodeKind, parentKey: string | undefined): NodeKind {
+    // 3.1 schema examples are a list of instances; security requirements map scheme names to scopes
+    if (kind === 'data' || parentKey === 'examples') {
+      return 'data';
+    }
+    return parentKey === 'security' ? 'map' : 'object';
+  }
+
+  private normalizeKey(key: string, parentKey: string | undefined): string {
+    if (parentKey === 'content' && key.includes('/')) {
+      return key.toLowerCase();
+    }
+    if (parentKey === 'responses' && STATUS_CODE_RANGE.test(key)) {
+      return key.toUpperCase();
+    }
+    return key;
+  }
+}
@@ -0,0 +1,655 @@
+import { ApiSpecParser } from './api-spec-parser';
+import { HttpMethod, MediaTypeObject, Parameter, SchemaObject } from './openapi-model';
+
+/**
+ * Kind of change between two specification versions
+ */
+export enum SpecChangeType {
+  ADDED = 'added',
+  REMOVED = 'removed',
+  MODIFIED = 'modified'
+}
+
+/**
+ * Impact of a change on existing API consumers
+ */
+export enum SpecChangeSeverity {
+  BREAKING = 'breaking',
+  NON_BREAKING = 'non-breaking'
+}
+
+/**
+ * Part of the specification a change belongs to
+ */
+export enum SpecChangeScope {
+  OPERATION = 'operation',
+  PARAMETER = 'parameter',
+  REQUEST_BODY = 'requestBody',
+  RESPONSE = 'response',
+  SCHEMA = 'schema'
+}
+
+/**
+ * A single difference between two specification versions
+ */
+export interface SpecChange {
+  type: SpecChangeType;
+  severity: SpecChangeSeverity;
+  scope: SpecChangeScope;
+  pointer: string;
+  message: string;
+  path?: string;
+  method?: HttpMethod;
+  before?: any;
+  after?: any;
+}
+
+/**
+ * Operation touched by at least one change
+ */
+export interface AffectedOperation {
+  path: string;
+  method: HttpMethod;
+  summary?: string;
+  operationId?: string;
+  tags?: string[];
+  removed: boolean;
+}
+
+/**
+ * Structured result of comparing two specification versions
+ */
+export interface SpecChangeset {
+  fromVersion: string;
+  toVersion: string;
+  changes: SpecChange[];
+  breakingChanges: SpecChange[];
+  nonBreakingChanges: SpecChange[];
+  hasBreakingChanges: boolean;
+  affectedOperations: AffectedOperation[];
+  affectedSchemas: string[];
+}
+
+/**
+ * Direction data flows through a schema, which decides whether a change breaks consumers
+ * Requests break when they accept less, responses break when they return less, shared schemas break on either
+ */
+type SchemaDirection = 'request' | 'response' | 'shared';
+
+const MAX_SCHEMA_DEPTH = 20;
+
+/**
+ * Compares two versions of an API specification read through ApiSpecParser
+ * Reports added/removed operations, parameter, request body, response and schema changes,
+ * each classified as breaking or non-breaking for existing consumers
+ */
+export class SpecDiff {
+  private changes: SpecChange[] = [];
+
+  private constructor(private base: ApiSpecParser, private target: ApiSpecParser) {}
+
+  /**
+   * Compare a base (previously imported) specification with its updated version
+   * Dereferencing parsers are compared through their $ref-keeping view, so a component change is reported once
+   */
+  static compare(base: ApiSpecParser, target: ApiSpecParser): SpecChangeset {
+    return new SpecDiff(base.withoutDereferencing(), target.withoutDereferencing()).run();
+  }
+
+  /**
+   * Format a changeset as human readable lines ([breaking] added /paths/... - message)
+   */
+  static formatChangeset(changeset: SpecChangeset): string[] {
+    return changeset.changes.map(change => `[${change.severity}] ${change.type} ${change.pointer} - ${change.message}`);
+  }
+
+  private run(): SpecChangeset {
+    this.compareOperations();
+    this.compareComponentSchemas();
+
+    const breakingChanges = this.changes.filter(change => change.severity === SpecChangeSeverity.BREAKING);
+    return {
+      fromVersion: this.base.getApiVersion(),
+      toVersion: this.target.getApiVersion(),
+      changes: this.changes,
+      breakingChanges,
+      nonBreakingChanges: this.changes.filter(change => change.severity === SpecChangeSeverity.NON_BREAKING),
+      hasBreakingChanges: breakingChanges.length > 0,
+      affectedOperations: this.collectAffectedOperations(),
+      affectedSchemas: [...new Set(this.changes
+        .filter(change => change.scope === SpecChangeScope.SCHEMA && change.pointer.startsWith('/components/schemas/'))
+        .map(change => this.unescape(change.pointer.split('/')[3])))]
+    };
+  }
+
+  private compareOperations(): void {
+    const basePaths = this.base.getEndpointPaths();
+    const targetPaths = this.target.getEndpointPaths();
+
+    for (const path of new Set([...basePaths, ...targetPaths])) {
+      const baseMethods = this.base.getEndpointMethods(path);
+      const targetMethods = this.target.getEndpointMethods(path);
+
+      for (const method of new Set([...baseMethods, ...targetMethods])) {
+        const pointer = `/paths/${this.escape(path)}/${method}`;
+        const operation = `${method.toUpperCase()} ${path}`;
+
+        if (!targetMethods.includes(method)) {
+          this.add(SpecChangeType.REMOVED, SpecChangeSeverity.BREAKING, SpecChangeScope.OPERATION, pointer,
+            `Operation ${operation} was removed`, { path, method });
+        } else if (!baseMethods.includes(method)) {
+          this.add(SpecChangeType.ADDED, SpecChangeSeverity.NON_BREAKING, SpecChangeScope.OPERATION, pointer,
+            `Operation ${operation} was added`, { path, method });
+        } else {
+          this.compareOperation(path, method, pointer);
+        }
+      }
+    }
+  }
+
+  private compareOperation(path: string, method: HttpMethod, pointer: string): void {
+    const context = { path, method };
+
+    const baseSummary = this.base.getEndpointSummary(path, method);
+    const targetSummary = this.target.getEndpointSummary(path, method);
+    if (baseSummary !== targetSummary) {
+      this.add(SpecChangeType.MODIFIED, SpecChangeSeverity.NON_BREAKING, SpecChangeScope.OPERATION, `${pointer}/summary`,
+        `Summary of ${method.toUpperCase()} ${path} changed`, { ...context, before: baseSummary, after: targetSummary });
+    }
+
+    this.compareParameters(path, method, pointer);
+    this.compareRequestBody(path, method, pointer);
+    this.compareResponses(path, method, pointer);
+  }
+
+  private compareParameters(path: string, method: HttpMethod, pointer: string): void {
+    const context = { path, method };
+    const baseParams = this.indexParameters(this.base.getEndpointParameters(path, method));
+    const targetParams = this.indexParameters(this.target.getEndpointParameters(path, method));
+
+    for (const key of new Set([...baseParams.keys(), ...targetParams.keys()])) {
+      const before = baseParams.get(key);
+      const after = targetParams.get(key);
+      const paramPointer = `${pointer}/parameters/${this.escape(key)}`;
+      const { name, in: location } = (before || after)!;
+      const label = `${name} (${location})`;
+
+      if (!after) {
+        this.add(SpecChangeType.REMOVED, SpecChangeSeverity.BREAKING, SpecChangeScope.PARAMETER, paramPointer,
+          `Parameter ${label} was removed`, { ...context, before });
+        continue;
+      }
+      if (!before) {
+        const severity = after.required ? SpecChangeSeverity.BREAKING : SpecChangeSeverity.NON_BREAKING;
+        this.add(SpecChangeType.ADDED, severity, SpecChangeScope.PARAMETER, paramPointer,
+          `${after.required ? 'Required' : 'Optional'} parameter ${label} was added`, { ...context, after });
+        continue;
+      }
+
+      if (!before.required && after.required) {
+        this.add(SpecChangeType.MODIFIED, SpecChangeSeverity.BREAKING, SpecChangeScope.PARAMETER, `${paramPointer}/required`,
+          `Parameter ${label} became required`, { ...context, before: false, after: true });
+      } else if (before.required && !after.required) {
+        this.add(SpecChangeType.MODIFIED, SpecChangeSeverity.NON_BREAKING, SpecChangeScope.PARAMETER, `${paramPointer}/required`,
+          `Parameter ${label} became optional`, { ...context, before: true, after: false });
+      }
+
+      if (before.description !== after.description) {
+        this.add(SpecChangeType.MODIFIED, SpecChangeSeverity.NON_BREAKING, SpecChangeScope.PARAMETER, `${paramPointer}/description`,
+          `Description of parameter ${label} changed`, { ...context, before: before.description, after: after.description });
+      }
+
+      this.compareSchemas(before.schema, after.schema, `${paramPointer}/schema`, 'request', context);
+    }
+  }
+
+  private compareRequestBody(path: string, method: HttpMethod, pointer: string): void {
+    const context = { path, method };
+    const before = this.base.getEndpointRequestBody(path, method);
+    const after = this.target.getEndpointRequestBody(path, method);
+    const bodyPointer = `${pointer}/requestBody`;
+
+    if (!before && !after) {
+      return;
+    }
+    if (!after) {
+      this.add(SpecChangeType.REMOVED, SpecChangeSeverity.BREAKING, SpecChangeScope.REQUEST_BODY, bodyPointer,
+        'Request body was removed', context);
+      return;
+    }
+    if (!before) {
+      const severity = after.required ? SpecChangeSeverity.BREAKING : SpecChangeSeverity.NON_BREAKING;
+      this.add(SpecChangeType.ADDED, severity, SpecChangeScope.REQUEST_BODY, bodyPointer,
+        `${after.required ? 'Required' : 'Optional'} request body was added`, context);
+      return;
+    }
+
+    if (!before.required && after.required) {
+      this.add(SpecChangeType.MODIFIED, SpecChangeSeverity.BREAKING, SpecChangeScope.REQUEST_BODY, `${bodyPointer}/required`,
+        'Request body became required', { ...context, before: false, after: true });
+    }
+
+    this.compareContent(before.content, after.content, `${bodyPointer}/content`, 'request', SpecChangeScope.REQUEST_BODY, context);
+  }
+
+  private compareResponses(path: string, method: HttpMethod, pointer: string): void {
+    const context = { path, method };
+    const baseResponses = this.base.getEndpointResponses(path, method);
+    const targetResponses = this.target.getEndpointResponses(path, method);
+
+    for (const code of new Set([...Object.keys(baseResponses), ...Object.keys(targetResponses)])) {
+      const responsePointer = `${pointer}/responses/${code}`;
+
+      if (!targetResponses[code]) {
+        this.add(SpecChangeType.REMOVED, SpecChangeSeverity.BREAKING, SpecChangeScope.RESPONSE, responsePointer,
+          `Response ${code} was removed`, context);
+        continue;
+      }
+      if (!baseResponses[code]) {
+        this.add(SpecChangeType.ADDED, SpecChangeSeverity.NON_BREAKING, SpecChangeScope.RESPONSE, responsePointer,
+          `Response ${code} was added`, context);
+        continue;
+      }
+
+      const baseDescription = baseResponses[code].description;
+      const targetDescription = targetResponses[code].description;
+      if (baseDescription !== targetDescription) {
+        this.add(SpecChangeType.MODIFIED, SpecChangeSeverity.NON_BREAKING, SpecChangeScope.RESPONSE, `${responsePointer}/description`,
+          `Description of response ${code} changed`, { ...context, before: baseDescription, after: targetDescription });
+      }
+
+      this.compareContent(baseResponses[code].content, targetResponses[code].content, `${responsePointer}/content`,
+        'response', SpecChangeScope.RESPONSE, context);
+    }
+  }
+
+  /**
+   * Compare media type maps of a request body or response
+   */
+  private compareContent(
+    baseContent: { [mediaType: string]: MediaTypeObject } | undefined,
+    targetContent: { [mediaType: string]: MediaTypeObject } | undefined,
+    pointer: string,
+    direction: SchemaDirection,
+    scope: SpecChangeScope,
+    context: { path: string; method: HttpMethod }
+  ): void {
+    const before = baseContent || {};
+    const after = targetContent || {};
+
+    for (const mediaType of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      const mediaPointer = `${pointer}/${this.escape(mediaType)}`;
+
+      if (!after[mediaType]) {
+        this.add(SpecChangeType.REMOVED, SpecChangeSeverity.BREAKING, scope, mediaPointer,
+          `Media type ${mediaType} was removed`, context);
+      } else if (!before[mediaType]) {
+        this.add(SpecChangeType.ADDED, SpecChangeSeverity.NON_BREAKING, scope, mediaPointer,
+          `Media type ${mediaType} was added`, context);
+      } else {
+        this.compareSchemas(before[mediaType].schema, after[mediaType].schema, `${mediaPointer}/schema`, direction, context);
+      }
+    }
+  }
+
+  private compareComponentSchemas(): void {
+    const baseSchemas = this.base.getSchemas();
+    const targetSchemas = this.target.getSchemas();
+
+    for (const name of new Set([...Object.keys(baseSchemas), ...Object.keys(targetSchemas)])) {
+      const pointer = `/components/schemas/${this.escape(name)}`;
+
+      if (!targetSchemas[name]) {
+        this.add(SpecChangeType.REMOVED, SpecChangeSeverity.BREAKING, SpecChangeScope.SCHEMA, pointer,
+          `Schema '${name}' was removed`);
+      } else if (!baseSchemas[name]) {
+        this.add(SpecChangeType.ADDED, SpecChangeSeverity.NON_BREAKING, SpecChangeScope.SCHEMA, pointer,
+          `Schema '${name}' was added`);
+      } else {
+        this.compareSchemas(baseSchemas[name], targetSchemas[name], pointer, 'shared');
+      }
+    }
+  }
+
+  /**
+   * Compare two schemas: $ref targets, types, properties, required fields, enum values, compositions
+   * and additional properties. Referenced component schemas are compared once under /components/schemas, not at every use
+   */
+  private compareSchemas(
+    before: SchemaObject | undefined,
+    after: SchemaObject | undefined,
+    pointer: string,
+    direction: SchemaDirection,
+    context: { path?: string; method?: HttpMethod } = {},
+    depth: number = 0
+  ): void {
+    if (!before || !after || depth > MAX_SCHEMA_DEPTH) {
+      if (!before !== !after) {
+        const type = before ? SpecChangeType.REMOVED : SpecChangeType.ADDED;
+        this.add(type, before ? SpecChangeSeverity.BREAKING : SpecChangeSeverity.NON_BREAKING, SpecChangeScope.SCHEMA, pointer,
+          `Schema was ${type}`, context);
+      }
+      return;
+    }
+
+    if (before.$ref || after.$ref) {
+      if (before.$ref !== after.$ref) {
+        this.add(SpecChangeType.MODIFIED, SpecChangeSeverity.BREAKING, SpecChangeScope.SCHEMA, pointer,
+          `Schema reference changed from ${before.$ref || 'inline schema'} to ${after.$ref || 'inline schema'}`,
+          { ...context, before: before.$ref, after: after.$ref });
+      }
+      return;
+    }
+
+    const beforeType = this.describeType(before);
+    const afterType = this.describeType(after);
+    if (beforeType !== afterType) {
+      this.add(SpecChangeType.MODIFIED, SpecChangeSeverity.BREAKING, SpecChangeScope.SCHEMA, `${pointer}/type`,
+        `Type changed from ${beforeType || 'any'} to ${afterType || 'any'}`, { ...context, before: beforeType, after: afterType });
+    }
+
+    if (before.format !== after.format) {
+      this.add(SpecChangeType.MODIFIED, SpecChangeSeverity.BREAKING, SpecChangeScope.SCHEMA, `${pointer}/format`,
+        `Format changed from ${before.format || 'none'} to ${after.format || 'none'}`, { ...context, before: before.format, after: after.format });
+    }
+
+    this.compareEnums(before.enum, after.enum, `${pointer}/enum`, direction, context);
+    this.compareRequired(before, after, pointer, direction, context);
+    this.compareProperties(before, after, pointer, direction, context, depth);
+    this.compareAdditionalProperties(before, after, pointer, direction, context, depth);
+    for (const keyword of ['allOf', 'oneOf', 'anyOf'] as const) {
+      this.compareComposition(before, after, keyword, pointer, direction, context, depth);
+    }
+    this.compareNot(before, after, pointer, direction, context, depth);
+
+    this.compareSchemas(before.items, after.items, `${pointer}/items`, direction, context, depth + 1);
+  }
+
+  /**
+   * Compare allOf/oneOf/anyOf members by position
+   * allOf members restrict the schema (adding one breaks requests), oneOf/anyOf members widen it (adding one breaks responses)
+   */
+  private compareComposition(
+    before: SchemaObject,
+    after: SchemaObject,
+    keyword: 'allOf' | 'oneOf' | 'anyOf',
+    pointer: string,
+    direction: SchemaDirection,
+    context: { path?: string; method?: HttpMethod },
+    depth: number
+  ): void {
+    const beforeMembers = before[keyword] || [];
+    const afterMembers = after[keyword] || [];
+    const restricts = keyword === 'allOf';
+
+    for (let index = 0; index < Math.max(beforeMembers.length, afterMembers.length); index++) {
+      const memberPointer = `${pointer}/${keyword}/${index}`;
+
+      if (index >= afterMembers.length) {
+        this.add(SpecChangeType.REMOVED, this.severityFor(direction, !restricts, restricts), SpecChangeScope.SCHEMA, memberPointer,
+          `${keyword} member ${index} was removed`, context);
+      } else if (index >= beforeMembers.length) {
+        this.add(SpecChangeType.ADDED, this.severityFor(direction, restricts, !restricts), SpecChangeScope.SCHEMA, memberPointer,
+          `${keyword} member ${index} was added`, context);
+      } else {
+        this.compareSchemas(beforeMembers[index], afterMembers[index], memberPointer, direction, context, depth + 1);
+      }
+    }
+  }
+
+  /**
+   * Compare not schemas; what a not schema accepts is excluded from the parent, so data flows through it in reverse
+   */
+  private compareNot(
+    before: SchemaObject,
+    after: SchemaObject,
+    pointer: string,
+    direction: SchemaDirection,
+    context: { path?: string; method?: HttpMethod },
+    depth: number
+  ): void {
+    if (!before.not && !after.not) {
+      return;
+    }
+    if (!before.not || !after.not) {
+      // Adding a not restricts the allowed values, dropping it widens them
+      this.add(before.not ? SpecChangeType.REMOVED : SpecChangeType.ADDED, this.severityFor(direction, !before.not, !after.not),
+        SpecChangeScope.SCHEMA, `${pointer}/not`, `not restriction was ${before.not ? 'removed' : 'added'}`, context);
+      return;
+    }
+
+    const reversed: SchemaDirection = direction === 'request' ? 'response' : direction === 'response' ? 'request' : 'shared';
+    this.compareSchemas(before.not, after.not, `${pointer}/not`, reversed, context, depth + 1);
+  }
+
+  /**
+   * Compare additionalProperties; an absent value allows any property, false allows none
+   */
+  private compareAdditionalProperties(
+    before: SchemaObject,
+    after: SchemaObject,
+    pointer: string,
+    direction: SchemaDirection,
+    context: { path?: string; method?: HttpMethod },
+    depth: number
+  ): void {
+    const beforeValue = before.additionalProperties ?? true;
+    const afterValue = after.additionalProperties ?? true;
+    const additionalPointer = `${pointer}/additionalProperties`;
+
+    if (typeof beforeValue === 'object' && typeof afterValue === 'object') {
+      this.compareSchemas(beforeValue, afterValue, additionalPointer, direction, context, depth + 1);
+      return;
+    }
+    if (beforeValue === afterValue) {
+      return;
+    }
+
+    // true accepts any property, a schema some of them, false none
+    const openness = (value: boolean | SchemaObject) => value === true ? 2 : value === false ? 0 : 1;
+    const narrowed = openness(afterValue) < openness(beforeValue);
+    this.add(SpecChangeType.MODIFIED, this.severityFor(direction, narrowed, !narrowed), SpecChangeScope.SCHEMA, additionalPointer,
+      `Additional properties ${narrowed ? 'narrowed' : 'widened'}`, { ...context, before: before.additionalProperties, after: after.additionalProperties });
+  }
+
+  private compareProperties(
+    before: SchemaObject,
+    after: SchemaObject,
+    pointer: string,
+    direction: SchemaDirection,
+    context: { path?: string; method?: HttpMethod },
+    depth: number
+  ): void {
+    const beforeProperties = before.properties || {};
+    const afterProperties = after.properties || {};
+    const afterRequired: string[] = after.required || [];
+
+    for (const name of new Set([...Object.keys(beforeProperties), ...Object.keys(afterProperties)])) {
+      const propertyPointer = `${pointer}/properties/${this.escape(name)}`;
+
+      if (!afterProperties[name]) {
+        // Responses that stop returning a field break readers, requests simply stop accepting it
+        const severity = this.severityFor(direction, (before.required || []).includes(name), true);
+        this.add(SpecChangeType.REMOVED, severity, SpecChangeScope.SCHEMA, propertyPointer,
+          `Property '${name}' was removed`, context);
+      } else if (!beforeProperties[name]) {
+        const severity = this.severityFor(direction, afterRequired.includes(name), false);
+        this.add(SpecChangeType.ADDED, severity, SpecChangeScope.SCHEMA, propertyPointer,
+          `Property '${name}' was added`, context);
+      } else {
+        this.compareSchemas(beforeProperties[name], afterProperties[name], propertyPointer, direction, context, depth + 1);
+      }
+    }
+  }
+
+  private compareRequired(
+    before: SchemaObject,
+    after: SchemaObject,
+    pointer: string,
+    direction: SchemaDirection,
+    context: { path?: string; method?: HttpMethod }
+  ): void {
+    const beforeRequired: string[] = before.required || [];
+    const afterRequired: string[] = after.required || [];
+    const beforeProperties = before.properties || {};
+
+    // Newly added required properties are reported with the property itself
+    for (const name of afterRequired.filter(name => !beforeRequired.includes(name) && beforeProperties[name])) {
+      const severity = this.severityFor(direction, true, false);
+      this.add(SpecChangeType.MODIFIED, severity, SpecChangeScope.SCHEMA, `${pointer}/required`,
+        `Property '${name}' became required`, { ...context, after: name });
+    }
+    for (const name of beforeRequired.filter(name => !afterRequired.includes(name) && (after.properties || {})[name])) {
+      const severity = this.severityFor(direction, false, true);
+      this.add(SpecChangeType.MODIFIED, severity, SpecChangeScope.SCHEMA, `${pointer}/required`,
+        `Property '${name}' became optional`, { ...context, before: name });
+    }
+  }
+
+  private compareEnums(
+    before: any[] | undefined,
+    after: any[] | undefined,
+    pointer: string,
+    direction: SchemaDirection,
+    context: { path?: string; method?: HttpMethod }
+  ): void {
+    if (!before && !after) {
+      return;
+    }
+
+    const beforeValues = (before || []).map(value => JSON.stringify(value));
+    const afterValues = (after || []).map(value => JSON.stringify(value));
+    const removed = before && after ? beforeValues.filter(value => !afterValues.includes(value)) : [];
+    const added = before && after ? afterValues.filter(value => !beforeValues.includes(value)) : [];
+
+    if (!before || !after) {
+      // Adding an enum restricts the allowed values, dropping it widens them
+      const severity = this.severityFor(direction, !before, !after);
+      this.add(before ? SpecChangeType.REMOVED : SpecChangeType.ADDED, severity, SpecChangeScope.SCHEMA, pointer,
+        `Enum restriction was ${before ? 'removed' : 'added'}`, { ...context, before, after });
+      return;
+    }
+
+    if (removed.length > 0) {
+      const severity = this.severityFor(direction, true, false);
+      this.add(SpecChangeType.REMOVED, severity, SpecChangeScope.SCHEMA, pointer,
+        `Enum values removed: ${removed.join(', ')}`, { ...context, before, after });
+    }
+    if (added.length > 0) {
+      const severity = this.severityFor(direction, false, true);
+      this.add(SpecChangeType.ADDED, severity, SpecChangeScope.SCHEMA, pointer,
+        `Enum values added: ${added.join(', ')}`, { ...context, before, after });
+    }
+  }
+
+  /**
+   * Collect operations touched by changes, including those using a changed component schema
+   */
+  private collectAffectedOperations(): AffectedOperation[] {
+    const affected = new Map<string, AffectedOperation>();
+    const changedSchemaRefs = this.collectChangedSchemaRefs();
+
+    for (const change of this.changes) {
+      if (!change.path || !change.method) {
+        continue;
+      }
+      const removed = change.scope === SpecChangeScope.OPERATION && change.type === SpecChangeType.REMOVED;
+      const operation = (removed ? this.base : this.target).getOperation(change.path, change.method);
+      affected.set(`${change.method} ${change.path}`, {
+        path: change.path,
+        method: change.method,
+        summary: operation?.summary,
+        operationId: operation?.operationId,
+        tags: operation?.tags,
+        removed
+      });
+    }
+
+    if (changedSchemaRefs.size > 0) {
+      for (const { path, method, operation } of this.target.getOperations()) {
+        const key = `${method} ${path}`;
+        if (!affected.has(key) && this.usesRef(operation, changedSchemaRefs)) {
+          affected.set(key, { path, method, summary: operation.summary, operationId: operation.operationId, tags: operation.tags, removed: false });
+        }
+      }
+    }
+
+    return [...affected.values()];
+  }
+
+  /**
+   * Refs of changed component schemas, plus the component schemas that (transitively) use them
+   */
+  private collectChangedSchemaRefs(): Set<string> {
+    const refs = new Set(this.changes
+      .filter(change => change.pointer.startsWith('/components/schemas/'))
+      .map(change => `#/components/schemas/${change.pointer.split('/')[3]}`));
+    const schemas = this.target.getSchemas();
+
+    let grown = refs.size > 0;
+    while (grown) {
+      grown = false;
+      for (const [name, schema] of Object.entries(schemas)) {
+        const ref = `#/components/schemas/${this.escape(name)}`;
+        if (!refs.has(ref) && this.usesRef(schema, refs)) {
+          refs.add(ref);
+          grown = true;
+        }
+      }
+    }
+    return refs;
+  }
+
+  private usesRef(node: object, refs: Set<string>): boolean {
+    const serialized = JSON.stringify(node) || '';
+    return [...refs].some(ref => serialized.includes(`"${ref}"`));
+  }
+
+  /**
+   * Index parameters by "in:name" (the pair that identifies an OpenAPI parameter)
+   */
+  private indexParameters(parameters: Parameter[]): Map<string, Parameter> {
+    const index = new Map<string, Parameter>();
+    for (const parameter of parameters) {
+      if (parameter?.name) {
+        index.set(`${parameter.in}:${parameter.name}`, parameter);
+      }
+    }
+    return index;
+  }
+
+  /**
+   * Classify a schema change given whether it breaks request senders and/or response readers
+   */
+  private severityFor(direction: SchemaDirection, breaksRequests: boolean, breaksResponses: boolean): SpecChangeSeverity {
+    const breaking = (direction !== 'response' && breaksRequests) || (direction !== 'request' && breaksResponses);
+    return breaking ? SpecChangeSeverity.BREAKING : SpecChangeSeverity.NON_BREAKING;
+  }
+
+  private describeType(schema: SchemaObject): string {
+    const types = Array.isArray(schema.type) ? [...schema.type].sort() : schema.type ? [schema.type] : [];
+    if (schema.nullable === true && !types.includes('null')) {
+      types.push('null');
+    }
+    return types.join('|');
+  }
+
+  private add(
+    type: SpecChangeType,
+    severity: SpecChangeSeverity,
+    scope: SpecChangeScope,
+    pointer: string,
+    message: string,
+    details: { path?: string; method?: HttpMethod; before?: any; after?: any } = {}
+  ): void {
+    this.changes.push({ type, severity, scope, pointer, message, ...details });
+  }
+
+  private escape(token: string): string {
+    return token.replace(/~/g, '~0').replace(/\//g, '~1');
+  }
+
+  private unescape(token: string): string {
+    return token.replace(/~1/g, '/').replace(/~0/g, '~');
+  }
+}
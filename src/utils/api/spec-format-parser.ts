@@ -0,0 +1,34 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ApiSpec } from './api-spec-parser';
+
+/**
+ * Enum for different source types
+ */
+export enum ApiSpecSourceType {
+  FILE_PATH = 'file_path',
+  CONTENT_STRING = 'content_string',
+  URL = 'url',
+  BUFFER = 'buffer'
+}
+
+/**
+ * Interface for different API specification parsers
+ * Implementations turn a source format (OpenAPI YAML/JSON, Postman, Insomnia) into an ApiSpec,
+ * or into another document model (AsyncAPI) through the type parameter
+ */
+export interface IApiSpecFormatParser<T = ApiSpec> {
+  canParse(source: string, sourceType: ApiSpecSourceType): boolean;
+  parse(content: string): T;
+  getSupportedExtensions(): string[];
+  // Content types recognized for URL sources; parsers without it are picked by URL extension or content
+  getSupportedMediaTypes?(): string[];
+}
+
+/**
+ * Read a spec file as UTF-8 text
+ * Format detection reads the file once per parser asked; nothing is cached, so a rewritten fixture is always read fresh
+ */
+export function readSpecFile(filePath: string): string {
+  return fs.readFileSync(path.resolve(filePath), 'utf8');
+}
@@ -0,0 +1,226 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { ApiSpec } from './api-spec-parser';
+import { Operation, Parameter, SchemaObject } from './openapi-model';
+
+/**
+ * Options interface for SpecGenerator configuration
+ */
+export interface SpecGeneratorOptions {
+  tags?: number;
+  operationsPerTag?: number;
+  // Levels of nested objects below each resource schema
+  schemaDepth?: number;
+  // Parameters per operation; item operations always have their id path parameter, query parameters fill up the rest
+  parameterCount?: number;
+  title?: string;
+  version?: string;
+}
+
+/**
+ * Resolved size of a generated specification
+ */
+export interface GeneratedSpecSize {
+  tags: number;
+  operationsPerTag: number;
+  schemaDepth: number;
+  parameterCount: number;
+}
+
+const DEFAULT_SIZE: GeneratedSpecSize = { tags: 10, operationsPerTag: 10, schemaDepth: 3, parameterCount: 3 };
+
+const QUERY_PARAMETER_TYPES: SchemaObject[] = [
+  { type: 'string' },
+  { type: 'integer', minimum: 1 },
+  { type: 'boolean' },
+  { type: 'string', format: 'date-time' },
+  { type: 'string', enum: ['asc', 'desc'] }
+];
+
+/**
+ * Builds valid OpenAPI 3.0 documents of a configurable size for scale testing the API docs UI
+ * Every tag is a resource (/resource-01) with its own schema, every operation is unique and documented,
+ * so the category tree of the generated API lists tags x operationsPerTag operations
+ */
+export class SpecGenerator {
+  private size: GeneratedSpecSize;
+  private title: string;
+  private version: string;
+
+  constructor(options: SpecGeneratorOptions = {}) {
+    this.size = {
+      tags: Math.max(1, options.tags ?? DEFAULT_SIZE.tags),
+      operationsPerTag: Math.max(1, options.operationsPerTag ?? DEFAULT_SIZE.operationsPerTag),
+      schemaDepth: Math.max(0, options.schemaDepth ?? DEFAULT_SIZE.schemaDepth),
+      parameterCount: Math.max(0, options.parameterCount ?? DEFAULT_SIZE.parameterCount)
+    };
+    this.title = options.title ?? `Synthetic Scale API ${this.size.tags}x${this.size.operationsPerTag}`;
+    this.version = options.version ?? '1.0.0';
+  }
+
+  /**
+   * Get the resolved size (defaults applied)
+   */
+  getSize(): GeneratedSpecSize {
+    return { ...this.size };
+  }
+
+  /**
+   * Get the number of operations the generated document holds
+   */
+  getOperationCount(): number {
+    return this.size.tags * this.size.operationsPerTag;
+  }
+
+  /**
+   * Get the title of the generated document
+   */
+  getTitle(): string {
+    return this.title;
+  }
+
+  /**
+   * Build the document
+   */
+  generate(): ApiSpec {
+    const spec: ApiSpec = {
+      openapi: '3.0.3',
+      info: {
+        title: this.title,
+        version: this.version,
+        description: `Generated API with ${this.size.tags} tags, ${this.size.operationsPerTag} operations per tag, ` +
+          `schema depth ${this.size.schemaDepth} and ${this.size.parameterCount} parameters per operation`
+      },
+      servers: [{ url: 'https://api.example.com/v1', description: 'Production server' }],
+      tags: [],
+      paths: {},
+      components: { schemas: {} }
+    };
+
+    for (let tagIndex = 1; tagIndex <= this.size.tags; tagIndex++) {
+      const resource = `resource-${this.pad(tagIndex)}`;
+      const schemaName = `Resource${this.pad(tagIndex)}`;
+      spec.tags!.push({ name: resource, description: `Operations on ${resource}` });
+      spec.components!.schemas![schemaName] = this.buildSchema(schemaName, this.size.schemaDepth);
+
+      for (let operationIndex = 0; operationIndex < this.size.operationsPerTag; operationIndex++) {
+        const { path: operationPath, method } = this.operationLocation(resource, operationIndex);
+        spec.paths![operationPath] = {
+          ...spec.paths![operationPath],
+          [method]: this.buildOperation(resource, schemaName, operationPath, method, operationIndex)
+        };
+      }
+    }
+    return spec;
+  }
+
+  /**
+   * Write the document to a file (YAML unless the path ends in .json) and return the path
+   * Without a path it is written to <tmp>/d360-generated-specs
+   */
+  writeToFile(filePath?: string): string {
+    const outputPath = filePath ?? path.join(os.tmpdir(), 'd360-generated-specs', `synthetic-${this.size.tags}x${this.size.operationsPerTag}` +
+      `-d${this.size.schemaDepth}-p${this.size.parameterCount}.yaml`);
+    fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+
+    const document = this.generate();
+    fs.writeFileSync(outputPath, path.extname(outputPath).toLowerCase() === '.json'
+      ? JSON.stringify(document, null, 2)
+      : yaml.dump(document, { noRefs: true, lineWidth: -1 }));
+    return outputPath;
+  }
+
+  /**
+   * The first five operations of a resource are CRUD, the rest are actions on a single item
+   */
+  private operationLocation(resource: string, operationIndex: number): { path: string; method: 'get' | 'post' | 'put' | 'delete' } {
+    const crud: Array<{ path: string; method: 'get' | 'post' | 'put' | 'delete' }> = [
+      { path: `/${resource}`, method: 'get' },
+      { path: `/${resource}`, method: 'post' },
+      { path: `/${resource}/{id}`, method: 'get' },
+      { path: `/${resource}/{id}`, method: 'put' },
+      { path: `/${resource}/{id}`, method: 'delete' }
+    ];
+    return crud[operationIndex] ?? { path: `/${resource}/{id}/action-${this.pad(operationIndex - crud.length + 1)}`, method: 'post' };
+  }
+
+  private buildOperation(resource: string, schemaName: string, operationPath: string, method: string, operationIndex: number): Operation {
+    const schemaRef = { $ref: `#/components/schemas/${schemaName}` };
+    const isCollection = !operationPath.includes('{id}');
+    const summaries: Record<string, string> = isCollection
+      ? { get: `List ${resource}`, post: `Create ${resource}` }
+      : { get: `Get ${resource}`, put: `Update ${resource}`, delete: `Delete ${resource}` };
+    const summary = operationIndex < 5 ? summaries[method] : `Run ${path.basename(operationPath)} on ${resource}`;
+
+    const operation: Operation = {
+      tags: [resource],
+      summary,
+      description: `${summary} (generated operation ${operationIndex + 1})`,
+      operationId: `${method}${schemaName}${operationIndex + 1}`
+    };
+
+    const parameters = this.buildParameters(isCollection);
+    if (parameters.length > 0) {
+      operation.parameters = parameters;
+    }
+    if (method === 'post' || method === 'put') {
+      operation.requestBody = { required: true, content: { 'application/json': { schema: schemaRef } } };
+    }
+    operation.responses = method === 'delete'
+      ? { '204': { description: 'Deleted' } }
+      : {
+        [method === 'post' && isCollection ? '201' : '200']: {
+          description: 'Successful response',
+          content: { 'application/json': { schema: method === 'get' && isCollection ? { type: 'array', items: schemaRef } : schemaRef } }
+        }
+      };
+    if (!isCollection) {
+      operation.responses['404'] = { description: `${resource} not found` };
+    }
+    return operation;
+  }
+
+  private buildParameters(isCollection: boolean): Parameter[] {
+    const parameters: Parameter[] = [];
+    if (!isCollection) {
+      parameters.push({ name: 'id', in: 'path', required: true, description: 'Resource identifier', schema: { type: 'string' } });
+    }
+    while (parameters.length < this.size.parameterCount) {
+      const index = parameters.length + 1;
+      parameters.push({
+        name: `filter${index}`,
+        in: 'query',
+        required: false,
+        description: `Generated query parameter ${index}`,
+        schema: QUERY_PARAMETER_TYPES[(index - 1) % QUERY_PARAMETER_TYPES.length]
+      });
+    }
+    return parameters;
+  }
+
+  /**
+   * Object schema with a nested object under details for each remaining level of depth
+   */
+  private buildSchema(name: string, depth: number): SchemaObject {
+    const schema: SchemaObject = {
+      type: 'object',
+      description: `${name} object`,
+      required: ['id', 'name'],
+      properties: {
+        id: { type: 'string', description: 'Identifier', example: `${name.toLowerCase()}_123` },
+        name: { type: 'string', description: 'Display name', example: `Sample ${name}` },
+        createdAt: { type: 'string', format: 'date-time', description: 'Creation time' }
+      }
+    };
+    if (depth > 0) {
+      schema.properties!.details = this.buildSchema(`${name}Details`, depth - 1);
+    }
+    return schema;
+  }
+
+  private pad(index: number): string {
+    return String(index).padStart(2, '0');
+  }
+}
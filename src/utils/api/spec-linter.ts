@@ -0,0 +1,273 @@
+import { ApiSpecParser } from './api-spec-parser';
+import { HttpMethod } from './openapi-model';
+import { toJsonPointer } from './spec-source-map';
+import { loggers } from '../logging/logger-factory';
+
+/**
+ * Severity of a lint finding
+ */
+export enum LintSeverity {
+  ERROR = 'error',
+  WARNING = 'warning',
+  INFO = 'info'
+}
+
+/**
+ * A single lint finding, located by JSON pointer and (when known) its source position
+ */
+export interface LintFinding {
+  ruleId: string;
+  severity: LintSeverity;
+  message: string;
+  pointer: string;
+  path?: string;
+  method?: HttpMethod;
+  file?: string;
+  line?: number;
+  column?: number;
+}
+
+/**
+ * What a rule reports; rule id, severity and source position are filled in by the linter
+ */
+export interface LintReport {
+  message: string;
+  pointer: string;
+  path?: string;
+  method?: HttpMethod;
+}
+
+/**
+ * Context handed to each rule
+ */
+export interface LintRuleContext {
+  parser: ApiSpecParser;
+  report(finding: LintReport): void;
+}
+
+/**
+ * A lint rule - built-in or team defined
+ */
+export interface LintRule {
+  id: string;
+  description: string;
+  severity: LintSeverity;
+  check(context: LintRuleContext): void;
+}
+
+/**
+ * Options interface for SpecLinter configuration
+ */
+export interface SpecLinterOptions {
+  rules?: LintRule[];
+  disabledRules?: string[];
+  severityOverrides?: { [ruleId: string]: LintSeverity };
+  failOn?: LintSeverity;
+}
+
+/**
+ * Result of linting a specification
+ */
+export interface LintResult {
+  passed: boolean;
+  findings: LintFinding[];
+  errors: LintFinding[];
+  warnings: LintFinding[];
+  blocking: LintFinding[];
+}
+
+const SEVERITY_RANK: { [severity in LintSeverity]: number } = {
+  [LintSeverity.ERROR]: 2,
+  [LintSeverity.WARNING]: 1,
+  [LintSeverity.INFO]: 0
+};
+
+/**
+ * Operations without a summary show up in the navigation without a title (getOperationLink looks them up by summary)
+ */
+const operationSummaryRule: LintRule = {
+  id: 'operation-summary',
+  description: 'Operations must have a summary, the portal uses it as the operation title',
+  severity: LintSeverity.WARNING,
+  check({ parser, report }) {
+    for (const { path, method, operation } of parser.getOperations()) {
+      if (!operation.summary || operation.summary.trim() === '') {
+        report({ message: `${method.toUpperCase()} ${path} has no summary`, pointer: toJsonPointer('paths', path, method), path, method });
+      }
+    }
+  }
+};
+
+const operationIdUniqueRule: LintRule = {
+  id: 'operation-operationId-unique',
+  description: 'operationIds must be unique across the specification',
+  severity: LintSeverity.ERROR,
+  check({ parser, report }) {
+    const seen = new Map<string, string>();
+    for (const { path, method, operation } of parser.getOperations()) {
+      if (!operation.operationId) {
+        continue;
+      }
+      const first = seen.get(operation.operationId);
+      if (first) {
+        report({
+          message: `operationId '${operation.operationId}' of ${method.toUpperCase()} ${path} is already used by ${first}`,
+          pointer: toJsonPointer('paths', path, method, 'operationId'),
+          path,
+          method
+        });
+      } else {
+        seen.set(operation.operationId, `${method.toUpperCase()} ${path}`);
+      }
+    }
+  }
+};
+
+const operationTagsRule: LintRule = {
+  id: 'operation-tags',
+  description: 'Operations must have at least one tag, untagged operations are not grouped into a category',
+  severity: LintSeverity.WARNING,
+  check({ parser, report }) {
+    for (const { path, method, operation } of parser.getOperations()) {
+      if (!operation.tags || operation.tags.length === 0) {
+        report({ message: `${method.toUpperCase()} ${path} has no tags`, pointer: toJsonPointer('paths', path, method), path, method });
+      }
+    }
+  }
+};
+
+const noEmptyDescriptionsRule: LintRule = {
+  id: 'no-empty-descriptions',
+  description: 'Descriptions must not be empty, an empty description renders as a blank section',
+  severity: LintSeverity.WARNING,
+  check({ parser, report }) {
+    const visit = (node: any, pointer: string): void => {
+      if (!node || typeof node !== 'object') {
+        return;
+      }
+      for (const [key, value] of Object.entries(node)) {
+        // Example values are data, not documentation
+        if (key === 'example' || key === 'examples') {
+          continue;
+        }
+        const childPointer = `${pointer}${toJsonPointer(key)}`;
+        if (key === 'description' && typeof value === 'string' && value.trim() === '') {
+          report({ message: `Empty description at ${pointer || '/'}`, pointer: childPointer });
+        } else {
+          visit(value, childPointer);
+        }
+      }
+    };
+    visit(parser.parseApiSpec(), '');
+  }
+};
+
+/**
+ * Pluggable specification linter on top of ApiSpecParser
+ * Runs the built-in rules plus globally registered and per-instance team rules, reports through loggers.validation
+ */
+export class SpecLinter {
+  private static registeredRules: LintRule[] = [];
+  private rules: LintRule[];
+  private disabledRules: Set<string>;
+  private severityOverrides: { [ruleId: string]: LintSeverity };
+  private failOn: LintSeverity;
+
+  constructor(options: SpecLinterOptions = {}) {
+    this.rules = [...SpecLinter.getBuiltInRules(), ...SpecLinter.registeredRules, ...(options.rules || [])];
+    this.disabledRules = new Set(options.disabledRules || []);
+    this.severityOverrides = options.severityOverrides || {};
+    this.failOn = options.failOn ?? LintSeverity.ERROR;
+  }
+
+  /**
+   * Get the built-in rules
+   */
+  static getBuiltInRules(): LintRule[] {
+    return [operationSummaryRule, operationIdUniqueRule, operationTagsRule, noEmptyDescriptionsRule];
+  }
+
+  /**
+   * Register a team rule globally, for every linter created afterwards
+   */
+  static registerRule(rule: LintRule): void {
+    SpecLinter.registeredRules = [...SpecLinter.registeredRules.filter(existing => existing.id !== rule.id), rule];
+  }
+
+  /**
+   * Get the rules this linter runs (disabled rules excluded)
+   */
+  getRules(): LintRule[] {
+    return this.rules.filter(rule => !this.disabledRules.has(rule.id));
+  }
+
+  /**
+   * Lint a specification
+   */
+  lint(apiSpecParser: ApiSpecParser): LintResult {
+    const findings: LintFinding[] = [];
+
+    for (const rule of this.getRules()) {
+      const severity = this.severityOverrides[rule.id] ?? rule.severity;
+      const report = (finding: LintReport): void => {
+        const position = apiSpecParser.getSourcePosition(finding.pointer);
+        findings.push({
+          ruleId: rule.id,
+          severity,
+          ...finding,
+          ...(position ? { file: position.file, line: position.line, column: position.column } : {})
+        });
+      };
+
+      try {
+        rule.check({ parser: apiSpecParser, report });
+      } catch (error) {
+        findings.push({ ruleId: rule.id, severity: LintSeverity.ERROR, message: `Rule failed: ${(error as Error).message}`, pointer: '' });
+      }
+    }
+
+    const blocking = findings.filter(finding => SEVERITY_RANK[finding.severity] >= SEVERITY_RANK[this.failOn]);
+    return {
+      passed: blocking.length === 0,
+      findings,
+      errors: findings.filter(finding => finding.severity === LintSeverity.ERROR),
+      warnings: findings.filter(finding => finding.severity === LintSeverity.WARNING),
+      blocking
+    };
+  }
+
+  /**
+   * Lint a specification and log the findings on the validation channel
+   */
+  lintAndReport(apiSpecParser: ApiSpecParser): LintResult {
+    const result = this.lint(apiSpecParser);
+    const title = apiSpecParser.getApiTitle();
+
+    for (const finding of result.findings) {
+      const line = SpecLinter.formatFinding(finding);
+      if (finding.severity === LintSeverity.ERROR) {
+        loggers.validation.error(line);
+      } else if (finding.severity === LintSeverity.WARNING) {
+        loggers.validation.warn(line);
+      } else {
+        loggers.validation.info(line);
+      }
+    }
+
+    const summary = `${result.errors.length} errors, ${result.warnings.length} warnings`;
+    if (result.passed) {
+      loggers.validation.info(`✅ Lint passed for ${title}: ${summary}`);
+    } else {
+      loggers.validation.error(`❌ Lint failed for ${title}: ${summary}`);
+    }
+    return result;
+  }
+
+  /**
+   * Format a finding as a single line (file:line:column [rule] message)
+   */
+  static formatFinding(finding: LintFinding): string {
+    const location = finding.line !== undefined ? `${finding.file || '<content>'}:${finding.line}:${finding.column}` : finding.pointer || '/';
+    return `${location} [${finding.ruleId}] ${finding.severity}: ${finding.message}`;
+  }
+}
@@ -0,0 +1,320 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { parseDocument } from 'yaml';
+import { SpecStructureValidator } from './spec-structure-validator';
+import { unescapePointerToken } from './ref-resolver';
+
+/**
+ * Targeted corruptions applied to a valid fixture to produce a negative import fixture
+ */
+export enum SpecMutation {
+  DROP_INFO = 'drop-info',
+  BREAK_INDENTATION = 'break-indentation',
+  CIRCULAR_REF = 'circular-ref',
+  INVALID_UTF8 = 'invalid-utf8',
+  HUGE_FILE = 'huge-file',
+  DUPLICATE_KEYS = 'duplicate-keys',
+  UNSUPPORTED_VERSION = 'unsupported-version'
+}
+
+/**
+ * Check that rejects a broken file before it reaches the portal
+ */
+export type MutationStage = 'encoding' | 'size' | 'syntax' | 'structure' | 'reference';
+
+/**
+ * Problem found by the local checks of a file about to be imported
+ */
+export interface LocalImportError {
+  stage: MutationStage;
+  message: string;
+}
+
+/**
+ * Expected-error metadata of a mutant: the check that rejects it before upload and what that check reports
+ * How the portal surfaces the failed import (modal alert or error toast) is not part of it, nothing documents it per error
+ */
+export interface MutationExpectation {
+  stage: MutationStage;
+  messagePattern: RegExp;
+}
+
+/**
+ * A negative fixture written by SpecMutator
+ */
+export interface SpecMutant {
+  mutation: SpecMutation;
+  sourceFile: string;
+  filePath: string;
+  description: string;
+  expected: MutationExpectation;
+}
+
+/**
+ * Options interface for SpecMutator configuration
+ */
+export interface SpecMutatorOptions {
+  // Directory the mutants are written to (default: a d360-spec-mutants-* temp directory of this process)
+  outputDir?: string;
+  // Largest spec file accepted for upload; huge-file mutants are padded just past it
+  maxFileBytes?: number;
+}
+
+const DEFAULT_MAX_FILE_BYTES = 10 * 1024 * 1024;
+
+interface MutationDefinition {
+  description: string;
+  expected: MutationExpectation;
+}
+
+const MUTATIONS: Record<SpecMutation, MutationDefinition> = {
+  [SpecMutation.DROP_INFO]: {
+    description: 'info object removed',
+    expected: { stage: 'structure', messagePattern: /missing required property 'info'/ }
+  },
+  [SpecMutation.BREAK_INDENTATION]: {
+    description: 'info entry indented one column too deep',
+    expected: { stage: 'syntax', messagePattern: /^Invalid YAML/ }
+  },
+  [SpecMutation.CIRCULAR_REF]: {
+    description: 'response schema pointing into a $ref chain that loops back on itself',
+    expected: { stage: 'reference', messagePattern: /^Circular \$ref chain/ }
+  },
+  [SpecMutation.INVALID_UTF8]: {
+    description: 'invalid UTF-8 byte sequence in the API title',
+    expected: { stage: 'encoding', messagePattern: /not valid UTF-8/ }
+  },
+  [SpecMutation.HUGE_FILE]: {
+    description: 'description padded past the upload size limit',
+    expected: { stage: 'size', messagePattern: /exceeds the upload limit/ }
+  },
+  [SpecMutation.DUPLICATE_KEYS]: {
+    description: 'info title declared twice',
+    expected: { stage: 'syntax', messagePattern: /^Duplicate key/ }
+  },
+  [SpecMutation.UNSUPPORTED_VERSION]: {
+    description: 'openapi version set to 4.0.0',
+    expected: { stage: 'structure', messagePattern: /missing or unsupported openapi\/swagger version/ }
+  }
+};
+
+/**
+ * Mutation engine for negative import fixtures
+ * Takes a valid OpenAPI fixture and writes one broken copy per mutation, each with the error the import should end in
+ */
+export class SpecMutator {
+  // Shared by the mutators of one worker process, so parallel workers never write the same mutant file
+  private static processOutputDir: string | null = null;
+  private outputDir: string;
+  private maxFileBytes: number;
+
+  constructor(options: SpecMutatorOptions = {}) {
+    this.outputDir = options.outputDir ?? SpecMutator.getProcessOutputDir();
+    this.maxFileBytes = options.maxFileBytes ?? DEFAULT_MAX_FILE_BYTES;
+  }
+
+  /**
+   * Get all supported mutations
+   */
+  static getMutations(): SpecMutation[] {
+    return Object.values(SpecMutation);
+  }
+
+  /**
+   * Get the expected-error metadata of a mutation
+   */
+  static getExpectation(mutation: SpecMutation): MutationExpectation {
+    return MUTATIONS[mutation].expected;
+  }
+
+  /**
+   * Write a mutant of a fixture to the output directory
+   */
+  mutate(sourceFile: string, mutation: SpecMutation): SpecMutant {
+    const isJson = path.extname(sourceFile).toLowerCase() === '.json';
+    const document = yaml.load(fs.readFileSync(sourceFile, 'utf8')) as any;
+    if (!document || typeof document !== 'object') {
+      throw new Error(`Cannot mutate ${sourceFile}: not a YAML or JSON document`);
+    }
+
+    // Indentation only matters in YAML, JSON fixtures are broken as their YAML form
+    const format = isJson && mutation !== SpecMutation.BREAK_INDENTATION ? 'json' : 'yaml';
+    const content = this.applyMutation(document, mutation, format);
+
+    fs.mkdirSync(this.outputDir, { recursive: true });
+    const baseName = path.basename(sourceFile, path.extname(sourceFile));
+    const filePath = path.join(this.outputDir, `${baseName}.${mutation}.${format}`);
+    fs.writeFileSync(filePath, content);
+
+    return {
+      mutation,
+      sourceFile,
+      filePath,
+      description: MUTATIONS[mutation].description,
+      expected: MUTATIONS[mutation].expected
+    };
+  }
+
+  /**
+   * Delete a mutant file once its test is done (huge-file mutants are larger than the upload limit)
+   */
+  static removeMutant(filePath: string): void {
+    fs.rmSync(filePath, { force: true });
+  }
+
+  /**
+   * Write several (by default all) mutants of a fixture
+   */
+  mutateAll(sourceFile: string, mutations: SpecMutation[] = SpecMutator.getMutations()): SpecMutant[] {
+    return mutations.map(mutation => this.mutate(sourceFile, mutation));
+  }
+
+  /**
+   * Run the checks a file goes through before upload, in order: size, encoding, syntax (duplicate keys included),
+   * structure and $ref chains. Returns the first problem, or null for an importable file
+   */
+  checkLocally(filePath: string): LocalImportError | null {
+    const size = fs.statSync(filePath).size;
+    if (size > this.maxFileBytes) {
+      return { stage: 'size', message: `File size (${size} bytes) exceeds the upload limit (${this.maxFileBytes} bytes)` };
+    }
+
+    let content: string;
+    try {
+      content = new TextDecoder('utf-8', { fatal: true }).decode(fs.readFileSync(filePath));
+    } catch {
+      return { stage: 'encoding', message: `${path.basename(filePath)} is not valid UTF-8` };
+    }
+
+    const structure = SpecStructureValidator.validateContent(content, path.basename(filePath));
+    const syntaxError = structure.diagnostics.find(diagnostic => diagnostic.keyword === 'parse');
+    if (syntaxError) {
+      return { stage: 'syntax', message: syntaxError.message };
+    }
+
+    // The structure validator reads duplicate keys last-one-wins, the portal does not
+    const duplicateKey = parseDocument(content, { uniqueKeys: true }).errors.find(error => error.code === 'DUPLICATE_KEY');
+    if (duplicateKey) {
+      return { stage: 'syntax', message: `Duplicate key: ${duplicateKey.message.split('\n')[0]}` };
+    }
+
+    if (!structure.valid) {
+      return { stage: 'structure', message: SpecStructureValidator.formatDiagnostics(structure)[0] };
+    }
+
+    const circularChain = this.findCircularRefChain(parseDocument(content).toJS());
+    return circularChain ? { stage: 'reference', message: `Circular $ref chain: ${circularChain.join(' -> ')}` } : null;
+  }
+
+  private applyMutation(document: any, mutation: SpecMutation, format: 'yaml' | 'json'): string | Buffer {
+    switch (mutation) {
+      case SpecMutation.DROP_INFO: {
+        const { info, ...rest } = document;
+        return this.serialize(rest, format);
+      }
+
+      case SpecMutation.UNSUPPORTED_VERSION:
+        return this.serialize({ ...document, openapi: '4.0.0' }, format);
+
+      case SpecMutation.CIRCULAR_REF:
+        return this.serialize(this.addCircularRef(document), format);
+
+      case SpecMutation.HUGE_FILE: {
+        const padded = { ...document, info: { ...document.info, description: '' } };
+        const paddingBytes = this.maxFileBytes - Buffer.byteLength(this.serialize(padded, format)) + 1024;
+        padded.info.description = `${document.info?.description ?? ''} ${'lorem ipsum '.repeat(Math.ceil(paddingBytes / 12))}`;
+        return this.serialize(padded, format);
+      }
+
+      case SpecMutation.BREAK_INDENTATION:
+        return this.serialize(document, format).replace(/^info:\n( +)(\S[^\n]*)\n\1(?=\S)/m, 'info:\n$1$2\n$1 ');
+
+      case SpecMutation.DUPLICATE_KEYS:
+        return this.serialize(document, format).replace(/^( +)("?)title\2:[^\n]*\n/m, (line, indent, quote) =>
+          `${indent}${quote}title${quote}: ${format === 'json' ? '"Duplicate title",' : 'Duplicate title'}\n${line}`);
+
+      case SpecMutation.INVALID_UTF8: {
+        // 0xC3 starts a two byte sequence, 0x28 '(' cannot continue it
+        const text = this.serialize(document, format);
+        const match = /("?)title\1: *"?/.exec(text);
+        const offset = Buffer.byteLength(text.substring(0, match ? match.index + match[0].length : 0));
+        const bytes = Buffer.from(text);
+        return Buffer.concat([bytes.subarray(0, offset), Buffer.from([0xc3, 0x28]), bytes.subarray(offset)]);
+      }
+    }
+  }
+
+  /**
+   * Add two schemas referencing each other and point the first response schema at them
+   */
+  private addCircularRef(document: any): any {
+    const mutated = JSON.parse(JSON.stringify(document));
+    mutated.components = mutated.components || {};
+    mutated.components.schemas = {
+      ...mutated.components.schemas,
+      MutantLoopA: { $ref: '#/components/schemas/MutantLoopB' },
+      MutantLoopB: { $ref: '#/components/schemas/MutantLoopA' }
+    };
+
+    for (const pathItem of Object.values<any>(mutated.paths || {})) {
+      for (const operation of Object.values<any>(pathItem || {})) {
+        const response = Object.values<any>(operation?.responses || {})[0];
+        if (response && typeof response === 'object' && !response.$ref) {
+          response.content = { 'application/json': { schema: { $ref: '#/components/schemas/MutantLoopA' } } };
+          return mutated;
+        }
+      }
+    }
+    return mutated;
+  }
+
+  /**
+   * Find a chain of local $refs whose targets are only $refs again and that loops back on itself
+   * Recursive schemas (a Tree with Tree children) are fine, a chain without any schema in it cannot be resolved
+   */
+  private findCircularRefChain(document: any): string[] | null {
+    const resolve = (ref: string): any => ref.substring(2).split('/')
+      .map(unescapePointerToken)
+      .reduce((node: any, token: string) => node?.[token], document);
+    const isBareRef = (node: any): boolean =>
+      !!node && typeof node === 'object' && typeof node.$ref === 'string' && node.$ref.startsWith('#/') && Object.keys(node).length === 1;
+
+    const visit = (node: any): string[] | null => {
+      if (isBareRef(node)) {
+        const chain: string[] = [];
+        let current = node;
+        while (isBareRef(current)) {
+          if (chain.includes(current.$ref)) {
+            return [...chain.slice(chain.indexOf(current.$ref)), current.$ref];
+          }
+          chain.push(current.$ref);
+          current = resolve(current.$ref);
+        }
+        return null;
+      }
+      if (node && typeof node === 'object') {
+        for (const value of Object.values(node)) {
+          const found = visit(value);
+          if (found) {
+            return found;
+          }
+        }
+      }
+      return null;
+    };
+    return visit(document);
+  }
+
+  private serialize(document: any, format: 'yaml' | 'json'): string {
+    return format === 'json' ? JSON.stringify(document, null, 2) : yaml.dump(document, { noRefs: true, lineWidth: -1 });
+  }
+
+  private static getProcessOutputDir(): string {
+    if (!SpecMutator.processOutputDir || !fs.existsSync(SpecMutator.processOutputDir)) {
+      SpecMutator.processOutputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'd360-spec-mutants-'));
+    }
+    return SpecMutator.processOutputDir;
+  }
+}
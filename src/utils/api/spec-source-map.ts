@@ -0,0 +1,169 @@
+import { parseDocument, LineCounter, isMap, isSeq, isPair, isScalar, Node } from 'yaml';
+
+/**
+ * Location of a spec node in its source file (1-based line and column)
+ */
+export interface SourcePosition {
+  file?: string;
+  line: number;
+  column: number;
+}
+
+/**
+ * Build a JSON pointer from unescaped tokens, e.g. toJsonPointer('paths', '/pets', 'get') => '/paths/~1pets/get'
+ */
+export function toJsonPointer(...tokens: string[]): string {
+  return tokens.map(token => `/${token.replace(/~/g, '~0').replace(/\//g, '~1')}`).join('');
+}
+
+/**
+ * Maps JSON pointers of a YAML or JSON document to their line and column
+ * JSON is parsed as YAML 1.2, so both formats share the same position tracking
+ */
+export class SpecSourceMap {
+  private positions: Map<string, SourcePosition> = new Map();
+  private file?: string;
+  private document: unknown;
+
+  private constructor(file?: string) {
+    this.file = file;
+  }
+
+  /**
+   * Build a source map from raw YAML or JSON content
+   */
+  static fromContent(content: string, file?: string): SpecSourceMap {
+    const sourceMap = new SpecSourceMap(file);
+    const lineCounter = new LineCounter();
+    const document = parseDocument(content, { lineCounter, uniqueKeys: false });
+
+    if (document.contents) {
+      sourceMap.record('', document.contents, lineCounter);
+    }
+    sourceMap.document = document.toJS();
+    return sourceMap;
+  }
+
+  /**
+   * Get the source position of a pointer into the parsed (possibly dereferenced) specification
+   * Local $refs on the way are followed, so a pointer through an inlined schema lands on the component that defines it
+   */
+  locate(pointer: string): SourcePosition | undefined {
+    return this.getPosition(this.resolvePointer(pointer));
+  }
+
+  /**
+   * Rewrite a pointer into the parsed specification to the pointer of the node in the source document,
+   * following local $refs met along the way
+   */
+  resolvePointer(pointer: string): string {
+    const tokens = this.normalizePointer(pointer).split('/').slice(1).map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+    let resolved = '';
+    let node: any = this.document;
+    let hops = 0;
+
+    for (const token of tokens) {
+      // Jump to the $ref target when the token only exists in the inlined copy
+      while (node && typeof node === 'object' && typeof node.$ref === 'string' && node.$ref.startsWith('#/') && !(token in node) && hops++ < 32) {
+        resolved = this.normalizePointer(node.$ref);
+        node = this.nodeAt(resolved);
+      }
+      resolved = `${resolved}/${this.escapeToken(token)}`;
+      node = node && typeof node === 'object' ? node[token] : undefined;
+    }
+    return resolved;
+  }
+
+  /**
+   * Get the position of a JSON pointer, falling back to its nearest mapped ancestor
+   */
+  getPosition(pointer: string): SourcePosition | undefined {
+    let current = this.normalizePointer(pointer);
+
+    while (true) {
+      const position = this.positions.get(current);
+      if (position) {
+        return position;
+      }
+      if (current === '') {
+        return undefined;
+      }
+      current = current.substring(0, current.lastIndexOf('/'));
+    }
+  }
+
+  /**
+   * Get the exact position of a JSON pointer, without ancestor fallback
+   */
+  getExactPosition(pointer: string): SourcePosition | undefined {
+    return this.positions.get(this.normalizePointer(pointer));
+  }
+
+  /**
+   * Get all mapped JSON pointers
+   */
+  getPointers(): string[] {
+    return [...this.positions.keys()];
+  }
+
+  /**
+   * Get the file name this source map was built for
+   */
+  getFile(): string | undefined {
+    return this.file;
+  }
+
+  /**
+   * Format a pointer position as file:line:column
+   */
+  formatPosition(pointer: string): string {
+    const position = this.getPosition(pointer);
+    if (!position) {
+      return this.file || '<unknown>';
+    }
+    return `${this.file || '<content>'}:${position.line}:${position.column}`;
+  }
+
+  /**
+   * Record positions for a node and its children
+   * Map entries point at their key, so errors land on the line that names the field
+   */
+  private record(pointer: string, node: unknown, lineCounter: LineCounter, keyNode?: Node | null): void {
+    const anchor = keyNode && (keyNode as Node).range ? keyNode : node;
+    const range = (anchor as Node | undefined)?.range;
+    if (range && !this.positions.has(pointer)) {
+      const { line, col } = lineCounter.linePos(range[0]);
+      this.positions.set(pointer, { file: this.file, line, column: col });
+    }
+
+    if (isMap(node)) {
+      for (const item of node.items) {
+        if (!isPair(item)) {
+          continue;
+        }
+        const key = isScalar(item.key) ? String(item.key.value) : String(item.key);
+        this.record(`${pointer}/${this.escapeToken(key)}`, item.value, lineCounter, item.key as Node);
+      }
+    } else if (isSeq(node)) {
+      node.items.forEach((item, index) => {
+        this.record(`${pointer}/${index}`, item, lineCounter);
+      });
+    }
+  }
+
+  private nodeAt(pointer: string): unknown {
+    return pointer.split('/').slice(1).reduce<any>(
+      (node, token) => node && typeof node === 'object' ? node[token.replace(/~1/g, '/').replace(/~0/g, '~')] : undefined,
+      this.document
+    );
+  }
+
+  private normalizePointer(pointer: string): string {
+    const withoutHash = pointer.startsWith('#') ? pointer.substring(1) : pointer;
+    return withoutHash === '/' ? '' : withoutHash;
+  }
+
+  private escapeToken(token: string): string {
+    return token.replace(/~/g, '~0').replace(/\//g, '~1');
+  }
+}
@@ -0,0 +1,255 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseDocument, LineCounter } from 'yaml';
+import { ErrorObject, ValidateFunction } from 'ajv';
+import Ajv2020 from 'ajv/dist/2020';
+import AjvDraft04 from 'ajv-draft-04';
+import { openapi } from '@apidevtools/openapi-schemas';
+import { SpecSourceMap } from './spec-source-map';
+
+/**
+ * A single structural problem found in a specification
+ */
+export interface SpecDiagnostic {
+  pointer: string;
+  message: string;
+  keyword: string;
+  file?: string;
+  line?: number;
+  column?: number;
+}
+
+/**
+ * Result of validating a specification against the OpenAPI meta-schema
+ */
+export interface SpecValidationResult {
+  valid: boolean;
+  specVersion?: string;
+  diagnostics: SpecDiagnostic[];
+}
+
+type MetaSchemaVersion = 'swagger-2.0' | 'openapi-3.0' | 'openapi-3.1';
+
+/**
+ * Structural validator for OpenAPI 3.0/3.1 (and Swagger 2.0) specifications
+ * Validates against the official meta-schemas and reports each error with its JSON pointer
+ * and the line/column in the original YAML or JSON source
+ */
+export class SpecStructureValidator {
+  private static validators: Map<MetaSchemaVersion, ValidateFunction> = new Map();
+
+  /**
+   * Validate a specification file
+   */
+  static validateFile(filePath: string): SpecValidationResult {
+    const content = fs.readFileSync(filePath, 'utf8');
+    return SpecStructureValidator.validateContent(content, path.basename(filePath));
+  }
+
+  /**
+   * Validate raw YAML or JSON specification content
+   */
+  static validateContent(content: string, file?: string): SpecValidationResult {
+    if (content.trim() === '') {
+      return SpecStructureValidator.failure([{ pointer: '', message: 'Document is empty', keyword: 'parse', file, line: 1, column: 1 }]);
+    }
+
+    const syntaxError = SpecStructureValidator.findSyntaxError(content, file);
+    if (syntaxError) {
+      return SpecStructureValidator.failure([syntaxError]);
+    }
+
+    const document = parseDocument(content, { uniqueKeys: false }).toJS();
+    return SpecStructureValidator.validateDocument(document, SpecSourceMap.fromContent(content, file));
+  }
+
+  /**
+   * Validate an already parsed document, using the source map (if given) for positions
+   */
+  static validateDocument(document: any, sourceMap?: SpecSourceMap): SpecValidationResult {
+    const file = sourceMap?.getFile();
+    const version = SpecStructureValidator.detectVersion(document);
+
+    if (!version) {
+      return SpecStructureValidator.failure([{
+        pointer: '',
+        message: 'Document is not an OpenAPI 3.0/3.1 or Swagger 2.0 specification (missing or unsupported openapi/swagger version)',
+        keyword: 'version',
+        file,
+        ...SpecStructureValidator.positionOf('', sourceMap)
+      }]);
+    }
+
+    const validate = SpecStructureValidator.getValidator(version);
+    const specVersion = String(document.openapi ?? document.swagger);
+
+    if (validate(document)) {
+      return { valid: true, specVersion, diagnostics: [] };
+    }
+
+    const diagnostics = SpecStructureValidator.toDiagnostics(validate.errors || [], sourceMap);
+    return { valid: false, specVersion, diagnostics };
+  }
+
+  /**
+   * Format diagnostics as human readable lines (file:line:column pointer - message)
+   */
+  static formatDiagnostics(result: SpecValidationResult): string[] {
+    return result.diagnostics.map(diagnostic => {
+      const location = diagnostic.line !== undefined
+        ? `${diagnostic.file || '<content>'}:${diagnostic.line}:${diagnostic.column}`
+        : diagnostic.file || '<content>';
+      return `${location} ${diagnostic.pointer || '/'} - ${diagnostic.message}`;
+    });
+  }
+
+  private static detectVersion(document: any): MetaSchemaVersion | null {
+    if (!document || typeof document !== 'object') {
+      return null;
+    }
+    const openapiVersion = String(document.openapi ?? '');
+    if (/^3\.0\.\d+/.test(openapiVersion)) {
+      return 'openapi-3.0';
+    }
+    if (/^3\.1\.\d+/.test(openapiVersion)) {
+      return 'openapi-3.1';
+    }
+    if (String(document.swagger ?? '') === '2.0') {
+      return 'swagger-2.0';
+    }
+    return null;
+  }
+
+  private static getValidator(version: MetaSchemaVersion): ValidateFunction {
+    let validate = SpecStructureValidator.validators.get(version);
+    if (!validate) {
+      const options = { allErrors: true, strict: false, validateFormats: false };
+      switch (version) {
+        case 'openapi-3.1':
+          validate = new Ajv2020(options).compile(SpecStructureValidator.patchMetaSchema31(openapi.v31));
+          break;
+        case 'openapi-3.0':
+          validate = new AjvDraft04(options).compile(openapi.v3 as object);
+          break;
+        case 'swagger-2.0':
+          validate = new AjvDraft04(options).compile(openapi.v2 as object);
+          break;
+      }
+      SpecStructureValidator.validators.set(version, validate);
+    }
+    return validate;
+  }
+
+  /**
+   * Adapt the published 3.1 meta-schema for Ajv
+   * Ajv does not follow $dynamicRef '#meta' through nested $refs, so schema objects point at the plain schema definition
+   * (checked for object/boolean type, their JSON Schema keywords are left to the dialect), and path items get the
+   * $ref field the 3.1 specification allows but this meta-schema revision omits
+   */
+  private static patchMetaSchema31(metaSchema: any): object {
+    const patched = JSON.parse(JSON.stringify(metaSchema, (key, value) => {
+      if (value && typeof value === 'object' && value.$dynamicRef === '#meta') {
+        return { $ref: '#/$defs/schema' };
+      }
+      return key === '$dynamicAnchor' ? undefined : value;
+    }));
+
+    const pathItem = patched.$defs?.['path-item'];
+    if (pathItem?.properties && !pathItem.properties.$ref) {
+      pathItem.properties.$ref = { $ref: '#/$defs/uri' };
+    }
+    return patched;
+  }
+
+  /**
+   * Convert Ajv errors to diagnostics, pointing additionalProperties/required errors at the offending field
+   */
+  private static toDiagnostics(errors: ErrorObject[], sourceMap?: SpecSourceMap): SpecDiagnostic[] {
+    const seen = new Set<string>();
+    const diagnostics: SpecDiagnostic[] = [];
+
+    for (const error of errors) {
+      let pointer = error.instancePath;
+      let message = error.message || 'is invalid';
+
+      if (error.keyword === 'additionalProperties') {
+        const property = (error.params as { additionalProperty: string }).additionalProperty;
+        pointer = `${pointer}/${property.replace(/~/g, '~0').replace(/\//g, '~1')}`;
+        message = `unexpected property '${property}'`;
+      } else if (error.keyword === 'required') {
+        message = `missing required property '${(error.params as { missingProperty: string }).missingProperty}'`;
+      } else if (error.keyword === 'enum') {
+        message = `${message}: ${((error.params as { allowedValues: any[] }).allowedValues || []).join(', ')}`;
+      }
+
+      const key = `${pointer}|${message}`;
+      if (seen.has(key)) {
+        continue;
+      }
+      seen.add(key);
+
+      diagnostics.push({
+        pointer,
+        message,
+        keyword: error.keyword,
+        file: sourceMap?.getFile(),
+        ...SpecStructureValidator.positionOf(pointer, sourceMap)
+      });
+    }
+
+    return diagnostics;
+  }
+
+  /**
+   * Detect JSON or YAML syntax errors with their position
+   */
+  private static findSyntaxError(content: string, file?: string): SpecDiagnostic | null {
+    const trimmed = content.trim();
+    const looksLikeJson = (file ? path.extname(file).toLowerCase() === '.json' : false) || trimmed.startsWith('{');
+
+    if (looksLikeJson) {
+      try {
+        JSON.parse(content);
+        return null;
+      } catch (error) {
+        const message = (error as Error).message;
+        const position = message.match(/position (\d+)/);
+        const { line, column } = position
+          ? SpecStructureValidator.offsetToLineColumn(content, parseInt(position[1]))
+          : { line: 1, column: 1 };
+        return { pointer: '', message: `Invalid JSON: ${message}`, keyword: 'parse', file, line, column };
+      }
+    }
+
+    const lineCounter = new LineCounter();
+    const document = parseDocument(content, { lineCounter, uniqueKeys: false });
+    if (document.errors.length > 0) {
+      const error = document.errors[0];
+      const linePos = error.linePos?.[0] ?? lineCounter.linePos(error.pos[0]);
+      return {
+        pointer: '',
+        message: `Invalid YAML: ${error.message.split('\n')[0]}`,
+        keyword: 'parse',
+        file,
+        line: linePos.line,
+        column: linePos.col
+      };
+    }
+    return null;
+  }
+
+  private static offsetToLineColumn(content: string, offset: number): { line: number; column: number } {
+    const before = content.substring(0, offset);
+    const lines = before.split('\n');
+    return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+  }
+
+  private static positionOf(pointer: string, sourceMap?: SpecSourceMap): { line?: number; column?: number } {
+    const position = sourceMap?.getPosition(pointer);
+    return position ? { line: position.line, column: position.column } : {};
+  }
+
+  private static failure(diagnostics: SpecDiagnostic[]): SpecValidationResult {
+    return { valid: false, diagnostics };
+  }
+}
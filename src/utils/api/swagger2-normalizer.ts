@@ -0,0 +1,424 @@
+import { ApiSpec } from './api-spec-parser';
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch'];
+
+const PARAMETER_SCHEMA_KEYS = [
+  'type', 'format', 'items', 'enum', 'default', 'minimum', 'maximum', 'exclusiveMinimum',
+  'exclusiveMaximum', 'minLength', 'maxLength', 'pattern', 'minItems', 'maxItems', 'uniqueItems', 'multipleOf'
+];
+
+// Schema keywords holding instance data rather than schemas, copied as they are
+const SCHEMA_VALUE_KEYS = ['example', 'examples', 'default', 'enum', 'const'];
+
+/**
+ * Swagger 2.0 to OpenAPI 3.0 normalizer
+ * Converts swagger: "2.0" documents into the OpenAPI 3 shape expected by ApiSpecParser getters
+ */
+export class Swagger2Normalizer {
+  private bodyParameterNames: Set<string> = new Set();
+
+  /**
+   * Check if a parsed document is a Swagger 2.0 specification
+   */
+  static isSwagger2(document: any): boolean {
+    return !!document && typeof document === 'object' && String(document.swagger).startsWith('2');
+  }
+
+  /**
+   * Convert a Swagger 2.0 document into an OpenAPI 3.0 document
+   */
+  normalize(swagger: any): ApiSpec {
+    this.bodyParameterNames = new Set(
+      Object.entries(swagger.parameters || {})
+        .filter(([, param]: [string, any]) => param.in === 'body')
+        .map(([name]) => name)
+    );
+
+    const globalConsumes: string[] = swagger.consumes || ['application/json'];
+    const globalProduces: string[] = swagger.produces || ['application/json'];
+
+    const spec: any = {
+      openapi: '3.0.3',
+      info: swagger.info,
+      servers: this.convertServers(swagger),
+      tags: swagger.tags,
+      paths: this.convertPaths(swagger.paths || {}, globalConsumes, globalProduces),
+      components: this.convertComponents(swagger, globalConsumes, globalProduces)
+    };
+
+    if (swagger.security) {
+      spec.security = swagger.security;
+    }
+    if (swagger.externalDocs) {
+      spec.externalDocs = swagger.externalDocs;
+    }
+    this.copyExtensions(swagger, spec);
+
+    return spec as ApiSpec;
+  }
+
+  /**
+   * Build servers from host, basePath and schemes
+   */
+  private convertServers(swagger: any): Array<{ url: string; description?: string }> {
+    const basePath = swagger.basePath || '';
+    if (!swagger.host) {
+      return basePath ? [{ url: basePath }] : [];
+    }
+
+    const schemes: string[] = swagger.schemes && swagger.schemes.length > 0 ? swagger.schemes : ['https'];
+    return schemes.map(scheme => ({ url: `${scheme}://${swagger.host}${basePath}` }));
+  }
+
+  /**
+   * Move definitions, parameters, responses and securityDefinitions under components
+   */
+  private convertComponents(swagger: any, globalConsumes: string[], globalProduces: string[]): any {
+    const components: any = {};
+
+    if (swagger.definitions) {
+      components.schemas = this.mapValues(swagger.definitions, schema => this.convertSchema(schema));
+    }
+
+    const parameters: Record<string, any> = {};
+    const requestBodies: Record<string, any> = {};
+    for (const [name, param] of Object.entries<any>(swagger.parameters || {})) {
+      if (param.in === 'body') {
+        requestBodies[name] = this.convertBodyParameter(param, globalConsumes);
+      } else {
+        parameters[name] = this.convertParameter(param);
+      }
+    }
+    if (Object.keys(parameters).length > 0) {
+      components.parameters = parameters;
+    }
+    if (Object.keys(requestBodies).length > 0) {
+      components.requestBodies = requestBodies;
+    }
+
+    if (swagger.responses) {
+      components.responses = this.mapValues(swagger.responses, response => this.convertResponse(response, globalProduces));
+    }
+
+    if (swagger.securityDefinitions) {
+      components.securitySchemes = this.mapValues(swagger.securityDefinitions, scheme => this.convertSecurityScheme(scheme));
+    }
+
+    return components;
+  }
+
+  /**
+   * Convert every path item and its operations
+   */
+  private convertPaths(paths: any, globalConsumes: string[], globalProduces: string[]): any {
+    const result: any = {};
+
+    for (const [pathKey, pathItem] of Object.entries<any>(paths)) {
+      if (pathItem.$ref) {
+        result[pathKey] = { ...pathItem };
+        continue;
+      }
+
+      // Path-level body and formData parameters apply to the requestBody of every operation
+      const pathBodyParams = (pathItem.parameters || []).filter((param: any) => this.isBodyLike(param));
+      const convertedItem: any = {};
+      for (const [key, value] of Object.entries<any>(pathItem)) {
+        if (HTTP_METHODS.includes(key)) {
+          convertedItem[key] = this.convertOperation(value, globalConsumes, globalProduces, pathBodyParams);
+        } else if (key === 'parameters') {
+          convertedItem.parameters = value
+            .filter((param: any) => !this.isBodyLike(param))
+            .map((param: any) => this.convertParameterOrRef(param));
+        } else {
+          convertedItem[key] = value;
+        }
+      }
+      result[pathKey] = convertedItem;
+    }
+
+    return result;
+  }
+
+  /**
+   * Convert a single operation, moving body and formData parameters into requestBody
+   * Path-level body and formData parameters are included unless the operation redefines them
+   */
+  private convertOperation(operation: any, globalConsumes: string[], globalProduces: string[], pathBodyParams: any[] = []): any {
+    const consumes: string[] = operation.consumes || globalConsumes;
+    const produces: string[] = operation.produces || globalProduces;
+    const { parameters = [], responses = {}, consumes: _consumes, produces: _produces, schemes: _schemes, ...rest } = operation;
+
+    const converted: any = { ...rest };
+    const regularParams: any[] = [];
+    const formDataParams: any[] = [];
+
+    const operationKeys = new Set(parameters.filter((param: any) => this.isBodyLike(param)).map((param: any) => this.getBodyParameterKey(param)));
+    const inheritedParams = pathBodyParams.filter(param => !operationKeys.has(this.getBodyParameterKey(param)));
+    for (const param of [...inheritedParams, ...parameters]) {
+      if (param.$ref && this.isBodyParameterRef(param.$ref)) {
+        converted.requestBody = { $ref: this.rewriteRef(param.$ref) };
+      } else if (param.in === 'body') {
+        converted.requestBody = this.convertBodyParameter(param, consumes);
+      } else if (param.in === 'formData') {
+        formDataParams.push(param);
+      } else {
+        regularParams.push(this.convertParameterOrRef(param));
+      }
+    }
+
+    if (formDataParams.length > 0) {
+      converted.requestBody = this.convertFormDataParameters(formDataParams, consumes);
+    }
+    if (regularParams.length > 0) {
+      converted.parameters = regularParams;
+    }
+
+    converted.responses = this.mapValues(responses, response => this.convertResponse(response, produces));
+    return converted;
+  }
+
+  private convertParameterOrRef(param: any): any {
+    return param.$ref ? { $ref: this.rewriteRef(param.$ref) } : this.convertParameter(param);
+  }
+
+  /**
+   * Convert a non-body parameter, moving type information under schema
+   */
+  private convertParameter(param: any): any {
+    const converted: any = { name: param.name, in: param.in };
+    if (param.description !== undefined) converted.description = param.description;
+    if (param.required !== undefined) converted.required = param.required;
+    if (param.allowEmptyValue !== undefined) converted.allowEmptyValue = param.allowEmptyValue;
+    this.copyExtensions(param, converted);
+
+    converted.schema = this.convertSchema(this.pick(param, PARAMETER_SCHEMA_KEYS));
+    if (param['x-example'] !== undefined) {
+      converted.example = param['x-example'];
+    }
+
+    switch (param.collectionFormat) {
+      case 'multi':
+        converted.style = 'form';
+        converted.explode = true;
+        break;
+      case 'csv':
+        converted.style = param.in === 'query' || param.in === 'cookie' ? 'form' : 'simple';
+        converted.explode = false;
+        break;
+      case 'ssv':
+        converted.style = 'spaceDelimited';
+        converted.explode = false;
+        break;
+      case 'pipes':
+        converted.style = 'pipeDelimited';
+        converted.explode = false;
+        break;
+    }
+
+    return converted;
+  }
+
+  /**
+   * Convert an in: body parameter into a requestBody
+   */
+  private convertBodyParameter(param: any, consumes: string[]): any {
+    const schema = this.convertSchema(param.schema || {});
+    const requestBody: any = {
+      content: Object.fromEntries(consumes.map(mediaType => [mediaType, { schema }]))
+    };
+    if (param.description !== undefined) requestBody.description = param.description;
+    if (param.required !== undefined) requestBody.required = param.required;
+    if (param.name) requestBody['x-body-name'] = param.name;
+    return requestBody;
+  }
+
+  /**
+   * Combine in: formData parameters into a single object schema requestBody
+   */
+  private convertFormDataParameters(params: any[], consumes: string[]): any {
+    const hasFile = params.some(param => param.type === 'file');
+    const formMediaTypes = consumes.filter(mediaType =>
+      mediaType === 'multipart/form-data' || mediaType === 'application/x-www-form-urlencoded'
+    );
+    const mediaTypes = formMediaTypes.length > 0
+      ? formMediaTypes
+      : [hasFile ? 'multipart/form-data' : 'application/x-www-form-urlencoded'];
+
+    const schema: any = { type: 'object', properties: {} };
+    const required: string[] = [];
+    for (const param of params) {
+      const propertySchema = this.convertSchema(this.pick(param, PARAMETER_SCHEMA_KEYS));
+      if (param.description !== undefined) propertySchema.description = param.description;
+      schema.properties[param.name] = propertySchema;
+      if (param.required) required.push(param.name);
+    }
+    if (required.length > 0) {
+      schema.required = required;
+    }
+
+    return {
+      required: required.length > 0,
+      content: Object.fromEntries(mediaTypes.map(mediaType => [mediaType, { schema }]))
+    };
+  }
+
+  /**
+   * Convert a response, wrapping schema in content and headers in schema
+   */
+  private convertResponse(response: any, produces: string[]): any {
+    if (response.$ref) {
+      return { $ref: this.rewriteRef(response.$ref) };
+    }
+
+    const converted: any = { description: response.description ?? '' };
+    this.copyExtensions(response, converted);
+
+    if (response.headers) {
+      converted.headers = this.mapValues(response.headers, header => {
+        const { description, ...schema } = header;
+        return description !== undefined
+          ? { description, schema: this.convertSchema(schema) }
+          : { schema: this.convertSchema(schema) };
+      });
+    }
+
+    if (response.schema) {
+      const schema = this.convertSchema(response.schema);
+      converted.content = Object.fromEntries(produces.map(mediaType => {
+        const media: any = { schema };
+        if (response.examples?.[mediaType] !== undefined) {
+          media.example = response.examples[mediaType];
+        }
+        return [mediaType, media];
+      }));
+    }
+
+    return converted;
+  }
+
+  /**
+   * Convert a security definition into an OpenAPI 3 security scheme
+   */
+  private convertSecurityScheme(scheme: any): any {
+    const base: any = scheme.description !== undefined ? { description: scheme.description } : {};
+    this.copyExtensions(scheme, base);
+
+    switch (scheme.type) {
+      case 'basic':
+        return { ...base, type: 'http', scheme: 'basic' };
+      case 'apiKey':
+        return { ...base, type: 'apiKey', name: scheme.name, in: scheme.in };
+      case 'oauth2': {
+        const scopes = scheme.scopes || {};
+        const flows: any = {};
+        switch (scheme.flow) {
+          case 'implicit':
+            flows.implicit = { authorizationUrl: scheme.authorizationUrl, scopes };
+            break;
+          case 'password':
+            flows.password = { tokenUrl: scheme.tokenUrl, scopes };
+            break;
+          case 'application':
+            flows.clientCredentials = { tokenUrl: scheme.tokenUrl, scopes };
+            break;
+          case 'accessCode':
+            flows.authorizationCode = { authorizationUrl: scheme.authorizationUrl, tokenUrl: scheme.tokenUrl, scopes };
+            break;
+        }
+        return { ...base, type: 'oauth2', flows };
+      }
+      default:
+        return { ...base, ...scheme };
+    }
+  }
+
+  /**
+   * Convert a schema, rewriting $refs and Swagger-only keywords
+   */
+  private convertSchema(schema: any): any {
+    if (Array.isArray(schema)) {
+      return schema.map(item => this.convertSchema(item));
+    }
+    if (!schema || typeof schema !== 'object') {
+      return schema;
+    }
+
+    const converted: any = {};
+    for (const [key, value] of Object.entries<any>(schema)) {
+      if (SCHEMA_VALUE_KEYS.includes(key) || (key.startsWith('x-') && key !== 'x-nullable')) {
+        converted[key] = value;
+      } else if (key === '$ref' && typeof value === 'string') {
+        converted.$ref = this.rewriteRef(value);
+      } else if (key === 'x-nullable') {
+        converted.nullable = value;
+      } else if (key === 'type' && value === 'file') {
+        converted.type = 'string';
+        converted.format = 'binary';
+      } else if (key === 'discriminator' && typeof value === 'string') {
+        converted.discriminator = { propertyName: value };
+      } else if (key === 'properties' || key === 'definitions') {
+        converted[key] = this.mapValues(value, property => this.convertSchema(property));
+      } else {
+        converted[key] = this.convertSchema(value);
+      }
+    }
+    return converted;
+  }
+
+  /**
+   * Point Swagger 2.0 $refs at their OpenAPI 3 component locations
+   */
+  private rewriteRef(ref: string): string {
+    const hashIndex = ref.indexOf('#');
+    if (hashIndex === -1) {
+      return ref;
+    }
+
+    const file = ref.substring(0, hashIndex);
+    const pointer = ref.substring(hashIndex);
+
+    if (pointer.startsWith('#/definitions/')) {
+      return `${file}#/components/schemas/${pointer.substring('#/definitions/'.length)}`;
+    }
+    if (pointer.startsWith('#/parameters/')) {
+      const name = pointer.substring('#/parameters/'.length);
+      const target = !file && this.bodyParameterNames.has(name) ? 'requestBodies' : 'parameters';
+      return `${file}#/components/${target}/${name}`;
+    }
+    if (pointer.startsWith('#/responses/')) {
+      return `${file}#/components/responses/${pointer.substring('#/responses/'.length)}`;
+    }
+    return ref;
+  }
+
+  private isBodyParameterRef(ref: string): boolean {
+    return ref.startsWith('#/parameters/') && this.bodyParameterNames.has(ref.substring('#/parameters/'.length));
+  }
+
+  /**
+   * Key an operation's parameter overrides a path-level one by: an operation has a single body, form fields go by name
+   */
+  private getBodyParameterKey(param: any): string {
+    return param.in === 'formData' ? `formData:${param.name}` : 'body';
+  }
+
+  private isBodyLike(param: any): boolean {
+    return param.in === 'body' || param.in === 'formData' || (!!param.$ref && this.isBodyParameterRef(param.$ref));
+  }
+
+  private mapValues(source: Record<string, any>, mapper: (value: any) => any): Record<string, any> {
+    return Object.fromEntries(Object.entries(source).map(([key, value]) => [key, mapper(value)]));
+  }
+
+  private pick(source: any, keys: string[]): any {
+    return Object.fromEntries(keys.filter(key => source[key] !== undefined).map(key => [key, source[key]]));
+  }
+
+  private copyExtensions(source: any, target: any): void {
+    for (const [key, value] of Object.entries(source)) {
+      if (key.startsWith('x-')) {
+        target[key] = value;
+      }
+    }
+  }
+}
@@ -0,0 +1,144 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConfigManager } from '../config/config-manager';
+import { loggers } from '../logging/logger-factory';
+
+/**
+ * Content fetched for a URL source, either live or from the disk cache
+ */
+export interface UrlSpecContent {
+  url: string;
+  content: string;
+  contentType: string;
+  fetchedAt: string;
+  fromCache: boolean;
+}
+
+/**
+ * Options interface for UrlSpecLoader configuration
+ */
+export interface UrlSpecLoaderOptions {
+  cacheDir?: string;
+  offline?: boolean;
+  timeoutMs?: number;
+}
+
+/**
+ * Loads API specifications over HTTP and caches them on disk
+ * Cached entries are replayed when the network is unavailable or offline mode is enabled,
+ * so fixtures recorded against a local HTTP stand-in can be reused without it
+ */
+export class UrlSpecLoader {
+  private cacheDir: string;
+  private offline: boolean;
+  private timeoutMs: number;
+
+  constructor(options: UrlSpecLoaderOptions = {}) {
+    const configManager = ConfigManager.getInstance();
+    this.cacheDir = options.cacheDir ?? configManager.get<string>('SPEC_CACHE_DIR');
+    this.offline = options.offline ?? configManager.get<boolean>('SPEC_CACHE_OFFLINE');
+    this.timeoutMs = options.timeoutMs ?? configManager.get<number>('SPEC_FETCH_TIMEOUT');
+  }
+
+  /**
+   * Load specification content from a URL, falling back to the disk cache
+   */
+  async load(url: string): Promise<UrlSpecContent> {
+    if (this.offline) {
+      const cached = this.readCache(url);
+      if (!cached) {
+        throw new Error(`Offline mode enabled and no cached spec found for ${url}`);
+      }
+      loggers.api.debug(`📦 Using cached spec for ${url}`);
+      return cached;
+    }
+
+    try {
+      const fetched = await this.fetchSpec(url);
+      this.writeCache(fetched);
+      return fetched;
+    } catch (error) {
+      const cached = this.readCache(url);
+      if (cached) {
+        loggers.api.warn(`⚠️ Fetching ${url} failed, using cached spec from ${cached.fetchedAt}`, error);
+        return cached;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Check if a cached copy exists for a URL
+   */
+  hasCached(url: string): boolean {
+    return fs.existsSync(this.getCachePath(url));
+  }
+
+  /**
+   * Remove the cached copy of a URL, or the whole cache when no URL is given
+   */
+  clearCache(url?: string): void {
+    if (url) {
+      fs.rmSync(this.getCachePath(url), { force: true });
+    } else {
+      fs.rmSync(this.cacheDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Get the cache file path for a URL
+   */
+  getCachePath(url: string): string {
+    const hash = crypto.createHash('sha256').update(url).digest('hex').substring(0, 16);
+    return path.join(this.cacheDir, `${hash}.json`);
+  }
+
+  private async fetchSpec(url: string): Promise<UrlSpecContent> {
+    loggers.api.debug(`📤 GET ${url}`);
+
+    const response = await fetch(url, {
+      headers: { accept: 'application/json, application/yaml, application/x-yaml, text/yaml, */*' },
+      signal: AbortSignal.timeout(this.timeoutMs)
+    });
+
+    loggers.api.debug(`📥 GET ${url} - Status: ${response.status}`);
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch API specification from ${url}: ${response.status} ${response.statusText}`);
+    }
+
+    return {
+      url,
+      content: await response.text(),
+      contentType: response.headers.get('content-type') || '',
+      fetchedAt: new Date().toISOString(),
+      fromCache: false
+    };
+  }
+
+  private readCache(url: string): UrlSpecContent | null {
+    const cachePath = this.getCachePath(url);
+    if (!fs.existsSync(cachePath)) {
+      return null;
+    }
+
+    try {
+      const entry = JSON.parse(fs.readFileSync(cachePath, 'utf8'));
+      return { ...entry, fromCache: true };
+    } catch (error) {
+      loggers.api.debug(`Ignoring unreadable spec cache entry ${cachePath}:`, error);
+      return null;
+    }
+  }
+
+  private writeCache(entry: UrlSpecContent): void {
+    try {
+      fs.mkdirSync(this.cacheDir, { recursive: true });
+      const { fromCache, ...cacheEntry } = entry;
+      fs.writeFileSync(this.getCachePath(entry.url), JSON.stringify(cacheEntry, null, 2));
+    } catch (error) {
+      loggers.api.warn(`⚠️ Failed to cache spec for ${entry.url}`, error);
+    }
+  }
+}
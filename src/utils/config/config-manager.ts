@@ -28,7 +28,13 @@ export class ConfigManager {
     this.config.set('BASE_URL', process.env.TEST_URL || 'https://portal.document360.io/1bff9bc5-3c41-43fe-852a-5442d48212ca/api-documentation');
     this.config.set('PROJECT_ID', process.env.PROJECT_ID || '1bff9bc5-3c41-43fe-852a-5442d48212ca');
     this.config.set('PROJECT_VERSION_ID', process.env.PROJECT_VERSION_ID || 'e5cfdc47-43fe-42ac-b3ab-372dae118da5');
-    this.config.set('API_BASE_URL', process.env.API_BASE_URL || 'https://portal.document360.io');
+    // Local Document360 stand-in (src/mock-server); API_BASE_URL points at it unless set explicitly, global setup then starts none
+    this.config.set('MOCK_SERVER_ENABLED', process.env.MOCK_SERVER_ENABLED === 'true');
+    this.config.set('MOCK_SERVER_PORT', parseInt(process.env.MOCK_SERVER_PORT || '4360'));
+    this.config.set('MOCK_SERVER_TRIAL_API_LIMIT', parseInt(process.env.MOCK_SERVER_TRIAL_API_LIMIT || '3'));
+    this.config.set('API_BASE_URL', process.env.API_BASE_URL || (this.config.get('MOCK_SERVER_ENABLED')
+      ? `http://127.0.0.1:${this.config.get('MOCK_SERVER_PORT')}`
+      : 'https://portal.document360.io'));
     this.config.set('CUSTOMER_PORTAL_URL', process.env.CUSTOMER_PORTAL_URL || 'https://your-customer-portal.com');
     this.config.set('FALLBACK_URL', process.env.FALLBACK_URL || 'https://portal.document360.io');
     this.config.set('DASHBOARD_URL', process.env.DASHBOARD_URL || 'https://portal.document360.io/dashboard');
@@ -46,6 +52,15 @@ export class ConfigManager {
     this.config.set('UI_TIMEOUT', parseInt(process.env.UI_TIMEOUT || '5000'));
     this.config.set('ACTION_TIMEOUT', parseInt(process.env.ACTION_TIMEOUT || '30000'));
     
+    // API retry policy (transient statuses and network errors on backend calls)
+    this.config.set('API_RETRY_MAX_ATTEMPTS', parseInt(process.env.API_RETRY_MAX_ATTEMPTS || '3'));
+    this.config.set('API_RETRY_BASE_DELAY', parseInt(process.env.API_RETRY_BASE_DELAY || '1000'));
+    this.config.set('API_RETRY_MAX_DELAY', parseInt(process.env.API_RETRY_MAX_DELAY || '15000'));
+    
+    // HTTP record/replay of API factory calls ('off', 'record' or 'replay')
+    this.config.set('API_RECORD_MODE', process.env.API_RECORD_MODE || 'off');
+    this.config.set('API_FIXTURES_DIR', process.env.API_FIXTURES_DIR || 'test-data/http-fixtures');
+    
     // Validation limits
     this.config.set('MAX_SERVERS_TO_VALIDATE', parseInt(process.env.MAX_SERVERS_TO_VALIDATE || '3'));
     this.config.set('MAX_TAGS_TO_VALIDATE', parseInt(process.env.MAX_TAGS_TO_VALIDATE || '5'));
@@ -57,15 +72,25 @@ export class ConfigManager {
     // Authentication
     this.config.set('USERNAME', process.env.USERNAME || 'calvin@rocketlane.com');
     this.config.set('PASSWORD', process.env.PASSWORD || 'Abcd1234@');
+    // Bearer token for API calls when no browser login captures one (set by global setup against the mock server)
+    this.config.set('API_AUTH_TOKEN', process.env.API_AUTH_TOKEN || '');
     
     // External URLs
     this.config.set('PETSTORE_API_URL', process.env.PETSTORE_API_URL || 'https://petstore.swagger.io/v2/swagger.json');
     this.config.set('INVALID_API_URL', process.env.INVALID_API_URL || 'https://invalid-url.com/api');
     this.config.set('EXAMPLE_SUPPORT_URL', process.env.EXAMPLE_SUPPORT_URL || 'https://example.com/support');
     
+    // Remote spec cache
+    this.config.set('SPEC_CACHE_DIR', process.env.SPEC_CACHE_DIR || 'test-results/spec-cache');
+    this.config.set('SPEC_CACHE_OFFLINE', process.env.SPEC_CACHE_OFFLINE === 'true');
+    this.config.set('SPEC_FETCH_TIMEOUT', parseInt(process.env.SPEC_FETCH_TIMEOUT || '30000'));
+    
     // Test data
     this.config.set('API_SPEC_FILE', process.env.API_SPEC_FILE || 'comprehensive-api.yaml');
     
+    // Pre-import lint gate: lowest finding severity that blocks seeding ('error', 'warning', 'info' or 'off')
+    this.config.set('SPEC_LINT_GATE', process.env.SPEC_LINT_GATE || 'error');
+    
     // Screenshot configuration
     this.config.set('SCREENSHOT_FULL_PAGE', process.env.SCREENSHOT_FULL_PAGE === 'true');
     this.config.set('SCREENSHOT_TYPE', process.env.SCREENSHOT_TYPE || 'png');
@@ -1,8 +1,13 @@
 import { Page } from '@playwright/test';
-import { ApiFactory, ApiDefinitionApi, AuthApi, FileUploadApi } from '../../api-factory';
-import { TestDataFile } from '../data/test-data-provider';
+import { ApiFactory, ApiDefinitionApi, AuthApi, AuthError, FileUploadApi, QuotaExceededError } from '../../api-factory';
+import { TestDataFile, getTestDataProvider } from '../data/test-data-provider';
 import { loggers } from '../logging/logger-factory';
 import { ApiSpecParser } from '../api/api-spec-parser';
+import { LintResult, LintSeverity, SpecLinter, SpecLinterOptions } from '../api/spec-linter';
+import { SpecCanonicalizer } from '../api/spec-canonicalizer';
+import { ConfigManager } from '../config/config-manager';
+import { PROJECT_LINT_RULES } from '../../config/lint-rules.config';
+import { TestDataInterface } from '../../config/test-data.config';
 import * as path from 'path';
 
 /**
@@ -17,6 +22,8 @@ export class ApiDataSeeder {
   private auth: AuthApi;
   private fileUpload: FileUploadApi;
   private createdApiDefinitions: string[] = [];
+  // File URLs of the specs this seeder uploaded, by content hash; dropped on cleanup, as nothing says the CDN file outlives its API definitions
+  private uploadedSpecs: Map<string, string> = new Map();
 
   constructor(page: Page, authToken?: string) {
     this.page = page;
@@ -89,16 +96,20 @@ export class ApiDataSeeder {
     try {
       loggers.setup.info(`🌱 [Category 2] Seeding API definition: ${testDataFile.file}`);
 
+      // Refuse specs that would render poorly before anything is uploaded
+      await this.lintBeforeImport(testDataFile);
+
       // Wait for auth token
       const token = await this.apiDefinition.waitForAuthToken(15000);
       if (!token) {
         throw new Error('Authentication token not available after waiting');
       }
 
-      const filePath = path.join(__dirname, '../../../test-data', testDataFile.file);
+      // Collections are uploaded as the OpenAPI document they convert to
+      const filePath = getTestDataProvider().getImportFilePath(testDataFile);
 
       // Step 1: Upload -> Step 2: Create (no publishing)
-      const fileUrl = await this.apiDefinition.uploadSpecFile(filePath);
+      const fileUrl = await this.uploadSpecOnce(filePath);
       const result = await this.apiDefinition.createApiDefinition(fileUrl, false);
 
       // Track for cleanup
@@ -109,6 +120,7 @@ export class ApiDataSeeder {
 
     } catch (error) {
       loggers.setup.error(`❌ [Category 2] Failed to seed API definition:`, error);
+      this.logSeedingFailureHint(error);
       throw error;
     }
   }
@@ -120,16 +132,20 @@ export class ApiDataSeeder {
     try {
       loggers.setup.info(`🌱 [Category 3] Seeding and publishing API definition: ${testDataFile.file}`);
 
+      // Refuse specs that would render poorly before anything is uploaded
+      await this.lintBeforeImport(testDataFile);
+
       // Wait for auth token
       const token = await this.apiDefinition.waitForAuthToken(15000);
       if (!token) {
         throw new Error('Authentication token not available after waiting');
       }
 
-      const filePath = path.join(__dirname, '../../../test-data', testDataFile.file);
+      // Collections are uploaded as the OpenAPI document they convert to
+      const filePath = getTestDataProvider().getImportFilePath(testDataFile);
 
       // Step 1: Upload -> Step 2: Create -> Step 3: Publish
-      const fileUrl = await this.apiDefinition.uploadSpecFile(filePath);
+      const fileUrl = await this.uploadSpecOnce(filePath);
       const result = await this.apiDefinition.createApiDefinition(fileUrl, false);
       
       await this.apiDefinition.publishApiDefinitionExact(
@@ -146,6 +162,7 @@ export class ApiDataSeeder {
 
     } catch (error) {
       loggers.setup.error(`❌ [Category 3] Failed to seed and publish API definition:`, error);
+      this.logSeedingFailureHint(error);
       throw error;
     }
   }
@@ -162,9 +179,8 @@ export class ApiDataSeeder {
     loggers.setup.info(`🧹 Cleaning up ${this.createdApiDefinitions.length} API definitions`);
     
     try {
-      // Get project info for cleanup
+      // Get project version for cleanup
       const configManager = this.apiDefinition['configManager'];
-      const projectId = configManager.get<string>('PROJECT_ID');
       const projectVersionId = (globalThis as any).__capturedProjectVersionId || configManager.get<string>('PROJECT_VERSION_ID');
       
       if (!projectVersionId) {
@@ -173,43 +189,8 @@ export class ApiDataSeeder {
       }
 
       // Use the bulk delete API with all API definition IDs
-      const requestBody = {
-        apiDefinitionList: this.createdApiDefinitions,
-        projectDocumentVersionId: projectVersionId
-      };
-
-      // Get base URL from config
-      const baseUrl = configManager.get<string>('API_BASE_URL');
-      
-      const response = await this.page.request.post(`${baseUrl}/api/v2/apidefinitions/bulkdelete`, {
-        headers: {
-          'accept': 'application/json, text/plain, */*',
-          'accept-language': 'en-US,en;q=0.9',
-          'authorization': `Bearer ${this.apiDefinition.getAuthToken()}`,
-          'content-type': 'application/json',
-          'origin': 'https://portal.document360.io',
-          'priority': 'u=1, i',
-          'projectid': projectId,
-          'referer': `https://portal.document360.io/${projectId}/api-documentation`,
-          'request-context': 'appId=cid-v1:4902addb-5aa7-47de-91d3-6476474b5e05',
-          'sec-ch-ua': '"Chromium";v="140", "Not=A?Brand";v="24", "Google Chrome";v="140"',
-          'sec-ch-ua-mobile': '?0',
-          'sec-ch-ua-platform': '"macOS"',
-          'sec-fetch-dest': 'empty',
-          'sec-fetch-mode': 'cors',
-          'sec-fetch-site': 'same-origin',
-          'user-agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/140.0.0.0 Safari/537.36',
-          'versiontype': '1'
-        },
-        data: JSON.stringify(requestBody)
-      });
-
-      if (response.ok()) {
-        loggers.setup.info(`🗑️ Bulk deleted ${this.createdApiDefinitions.length} API definitions`);
-      } else {
-        const errorText = await response.text();
-        loggers.setup.warn(`⚠️ Bulk delete failed: ${response.status()} - ${errorText}`);
-      }
+      await this.apiDefinition.bulkDeleteApiDefinitions(this.createdApiDefinitions, projectVersionId);
+      loggers.setup.info(`🗑️ Bulk deleted ${this.createdApiDefinitions.length} API definitions`);
 
     } catch (error) {
       loggers.setup.warn(`⚠️ Failed to cleanup API definitions:`, error);
@@ -217,9 +198,21 @@ export class ApiDataSeeder {
     
     // Clear the tracking array regardless of success/failure
     this.createdApiDefinitions = [];
+    this.uploadedSpecs.clear();
     loggers.setup.info('✅ API cleanup completed');
   }
 
+  /**
+   * Tell apart the seeding failures a re-run alone does not fix
+   */
+  private logSeedingFailureHint(error: unknown): void {
+    if (error instanceof QuotaExceededError && !error.retryable) {
+      loggers.setup.warn(`⚠️ The project is at its API definition limit - delete leftover API definitions before re-running (request ${error.requestId || 'n/a'})`);
+    } else if (error instanceof AuthError) {
+      loggers.setup.warn(`⚠️ The portal rejected the auth token (${error.status}) - remove ${ConfigManager.getInstance().get<string>('STORAGE_STATE_FILE')} to force a fresh login`);
+    }
+  }
+
   /**
    * Get list of created API definitions for tracking
    */
@@ -234,21 +227,53 @@ export class ApiDataSeeder {
     this.apiFactory.setAuthToken(token);
   }
 
+  /**
+   * Pre-import lint gate: lint the spec with the built-in and project rules and throw when a finding
+   * reaches the SPEC_LINT_GATE severity ('off' skips the gate)
+   * Only OpenAPI documents and the collections converted to them can be linted
+   */
+  async lintBeforeImport(testDataFile: TestDataFile, options: SpecLinterOptions = {}): Promise<LintResult | null> {
+    const gate = ConfigManager.getInstance().get<string>('SPEC_LINT_GATE');
+    const severities: string[] = Object.values(LintSeverity);
+    if (gate !== 'off' && !severities.includes(gate)) {
+      throw new Error(`Invalid SPEC_LINT_GATE '${gate}': expected one of ${[...severities, 'off'].join(', ')}`);
+    }
+    if (gate === 'off' && !options.failOn) {
+      return null;
+    }
+    if (testDataFile.sourceFormat === 'asyncapi') {
+      throw new Error(`Cannot lint ${testDataFile.file}: the lint gate only supports OpenAPI documents, not ${testDataFile.sourceFormat} sources`);
+    }
+
+    const linter = new SpecLinter({
+      failOn: gate === 'off' ? LintSeverity.ERROR : gate as LintSeverity,
+      ...options,
+      rules: [...PROJECT_LINT_RULES, ...(options.rules || [])]
+    });
+    const result = linter.lintAndReport(await this.getApiSpecParser(testDataFile));
+
+    if (!result.passed) {
+      throw new Error(`Lint gate failed for ${testDataFile.file}:\n${result.blocking.map(SpecLinter.formatFinding).join('\n')}`);
+    }
+    return result;
+  }
+
   /**
    * Get API spec parser for a test data file
+   * $ref pointers are expanded so validators see the full schema tree rendered by the portal
    */
-  async getApiSpecParser(testDataFile: TestDataFile): Promise<any> {
-    const filePath = path.join(__dirname, '../../../test-data', testDataFile.file);
-    return ApiSpecParser.fromFile(filePath);
+  async getApiSpecParser(testDataFile: TestDataFile): Promise<ApiSpecParser> {
+    const filePath = getTestDataProvider().getTestDataPath(testDataFile.file);
+    return ApiSpecParser.fromFile(filePath, { dereferenceEnabled: true });
   }
 
   /**
    * Get parsed test data from a test data file
    */
-  async getTestData(testDataFile: TestDataFile): Promise<any> {
+  async getTestData(testDataFile: TestDataFile): Promise<TestDataInterface> {
     const apiSpecParser = await this.getApiSpecParser(testDataFile);
     
-    const testData = {
+    const testData: TestDataInterface = {
       apiTitle: apiSpecParser.getApiTitle(),
       apiVersion: apiSpecParser.getApiVersion(),
       apiDescription: apiSpecParser.getApiDescription(),
@@ -258,21 +283,33 @@ export class ApiDataSeeder {
       servers: apiSpecParser.getServers(),
       tags: apiSpecParser.getTags(),
       endpointPaths: apiSpecParser.getEndpointPaths(),
-      endpoints: apiSpecParser.getEndpointPaths().map((path: string) => ({
+      endpoints: apiSpecParser.getEndpointPaths().map(path => ({
         path,
-        methods: apiSpecParser.getEndpointMethods(path).map((method: string) => ({
-          method,
-          summary: apiSpecParser.getEndpointSummary(path, method),
-          description: apiSpecParser.getEndpointDescription(path, method),
-          parameters: apiSpecParser.getEndpointParameters(path, method),
-          responses: apiSpecParser.getEndpointResponses(path, method),
-          security: apiSpecParser.getEndpointSecurity(path, method)
-        }))
+        methods: apiSpecParser.getEndpointMethods(path)
       })),
+      operations: apiSpecParser.getOperations(),
       schemas: apiSpecParser.getSchemas(),
       securitySchemes: apiSpecParser.getSecuritySchemes()
     };
     
     return testData;
   }
-}
\ No newline at end of file
+
+  /**
+   * Upload a spec file, reusing the file URL of an earlier upload of the same canonical content by this seeder
+   * The file format is part of the key: cross-format tests upload one API as YAML and as JSON on purpose
+   */
+  private async uploadSpecOnce(filePath: string): Promise<string> {
+    const format = path.extname(filePath).toLowerCase() === '.json' ? 'json' : 'yaml';
+    const hash = `${format}:${new SpecCanonicalizer().fingerprintFile(filePath)}`;
+    const uploadedUrl = this.uploadedSpecs.get(hash);
+    if (uploadedUrl) {
+      loggers.setup.info(`♻️ Identical spec already uploaded, reusing ${uploadedUrl} for ${path.basename(filePath)}`);
+      return uploadedUrl;
+    }
+
+    const fileUrl = await this.apiDefinition.uploadSpecFile(filePath);
+    this.uploadedSpecs.set(hash, fileUrl);
+    return fileUrl;
+  }
+}
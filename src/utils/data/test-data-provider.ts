@@ -1,5 +1,15 @@
 import path from 'path';
 import fs from 'fs';
+import os from 'os';
+import * as yaml from 'js-yaml';
+import { CollectionConversionReport, CollectionConversionResult } from '../api/collection-conversion';
+import { PostmanCollectionConverter } from '../api/postman-collection-parser';
+import { InsomniaExportConverter } from '../api/insomnia-export-parser';
+import { AsyncApiParser } from '../api/asyncapi-parser';
+import { SpecCanonicalizer } from '../api/spec-canonicalizer';
+import { MutationExpectation, SpecMutation, SpecMutator, SpecMutatorOptions } from '../api/spec-mutator';
+import { SpecGenerator, SpecGeneratorOptions } from '../api/spec-generator';
+import { loggers } from '../logging/logger-factory';
 
 /**
  * Test Data Provider - Manages data-driven testing with multiple test data files
@@ -11,12 +21,28 @@ export interface TestDataFile {
   expectedTitle: string;
   expectedVersion: string;
   format: 'yaml' | 'json' | 'yml';
-  category: 'simple' | 'comprehensive' | 'domain-specific' | 'minimal';
+  category: 'simple' | 'comprehensive' | 'domain-specific' | 'minimal' | 'collection' | 'event-driven' | 'negative';
   complexity: 'low' | 'medium' | 'high';
   hasAuth?: boolean;
   hasServers?: boolean;
   hasExternalDocs?: boolean;
   tags: string[];
+  sourceFormat?: 'openapi' | 'postman' | 'insomnia' | 'asyncapi';
+  expectedOperations?: number;
+  expectedChannels?: string[];
+  importFormat?: 'yaml' | 'json';
+  mutation?: SpecMutation;
+  expectedError?: MutationExpectation;
+}
+
+/**
+ * Conversion fidelity of a collection test data file: converted operations against the requests it holds
+ */
+export interface ConversionFidelity {
+  report: CollectionConversionReport;
+  expectedOperations: number;
+  convertedOperations: number;
+  ratio: number;
 }
 
 /**
@@ -174,6 +200,132 @@ export const TEST_DATA_REGISTRY: Record<string, TestDataFile> = {
     hasServers: true,
     hasExternalDocs: true,
     tags: ['banking', 'financial', 'secure', 'multi-auth']
+  },
+
+  // OpenAPI 3.1 APIs
+  OPENAPI_31: {
+    file: 'valid-apis/openapi-31/webhooks-api.yaml',
+    description: 'Order Events API v1.0.0 - OpenAPI 3.1 with webhooks, type arrays, const and $defs',
+    expectedTitle: 'Order Events API',
+    expectedVersion: '1.0.0',
+    format: 'yaml',
+    category: 'simple',
+    complexity: 'medium',
+    hasAuth: false,
+    hasServers: true,
+    hasExternalDocs: false,
+    tags: ['openapi-3.1', 'webhooks']
+  },
+
+  // Swagger 2.0 documents, read through the OpenAPI 3 normalizer
+  SWAGGER_2: {
+    file: 'valid-apis/swagger-2/pet-clinic-swagger2.yaml',
+    description: 'Pet Clinic API v1.0.0 - Swagger 2.0 with path-level body and formData parameters',
+    expectedTitle: 'Pet Clinic API',
+    expectedVersion: '1.0.0',
+    format: 'yaml',
+    category: 'simple',
+    complexity: 'low',
+    hasAuth: true,
+    hasServers: true,
+    hasExternalDocs: false,
+    tags: ['swagger-2.0']
+  },
+
+  // Document360 vendor extensions (x-logo, x-codeSamples, x-hidden)
+  VENDOR_EXTENSIONS: {
+    file: 'valid-apis/extensions/vendor-extensions-api.yaml',
+    description: 'Vendor Extensions API v1.0.0 - Logo, code samples and hidden operations declared with x-* extensions',
+    expectedTitle: 'Vendor Extensions API',
+    expectedVersion: '1.0.0',
+    format: 'yaml',
+    category: 'simple',
+    complexity: 'medium',
+    hasAuth: false,
+    hasServers: true,
+    hasExternalDocs: false,
+    tags: ['vendor-extensions', 'document360']
+  },
+
+  // Multi-file APIs bundled before upload
+  MULTI_FILE: {
+    file: 'valid-apis/multi-file/library-api.yaml',
+    description: 'Multi-File Library API v1.0.0 - Paths and schemas split across files with relative $refs',
+    expectedTitle: 'Multi-File Library API',
+    expectedVersion: '1.0.0',
+    format: 'yaml',
+    category: 'comprehensive',
+    complexity: 'medium',
+    hasAuth: false,
+    hasServers: true,
+    hasExternalDocs: false,
+    tags: ['multi-file', 'external-refs']
+  },
+
+  // Collections converted to OpenAPI before import
+  POSTMAN_COLLECTION: {
+    file: 'valid-apis/collections/bookstore.postman_collection.json',
+    description: 'Bookstore Collection API v1.2.0 - Postman v2.1 collection with folders, saved responses and bearer auth',
+    expectedTitle: 'Bookstore Collection API',
+    expectedVersion: '1.2.0',
+    format: 'json',
+    category: 'collection',
+    complexity: 'medium',
+    hasAuth: true,
+    hasServers: true,
+    hasExternalDocs: false,
+    tags: ['collection-conversion', 'postman'],
+    sourceFormat: 'postman',
+    expectedOperations: 8
+  },
+  INSOMNIA_EXPORT: {
+    file: 'valid-apis/collections/bookstore.insomnia.json',
+    description: 'Bookstore Workspace API v1.0.0 - Insomnia v4 export with request groups and environments',
+    expectedTitle: 'Bookstore Workspace API',
+    expectedVersion: '1.0.0',
+    format: 'json',
+    category: 'collection',
+    complexity: 'medium',
+    hasAuth: true,
+    hasServers: true,
+    hasExternalDocs: false,
+    tags: ['collection-conversion', 'insomnia'],
+    sourceFormat: 'insomnia',
+    expectedOperations: 8
+  },
+
+  // AsyncAPI documents, read with AsyncApiParser (channels instead of paths)
+  ASYNCAPI_2: {
+    file: 'valid-apis/asyncapi/user-events.asyncapi.yaml',
+    description: 'User Events API v1.0.0 - AsyncAPI 2.6 Kafka events with publish/subscribe channels',
+    expectedTitle: 'User Events API',
+    expectedVersion: '1.0.0',
+    format: 'yaml',
+    category: 'event-driven',
+    complexity: 'medium',
+    hasAuth: false,
+    hasServers: true,
+    hasExternalDocs: false,
+    tags: ['asyncapi', 'asyncapi-2', 'kafka'],
+    sourceFormat: 'asyncapi',
+    expectedOperations: 3,
+    expectedChannels: ['user/signedup', 'user/{userId}/updated', 'user/closed']
+  },
+  ASYNCAPI_3: {
+    file: 'valid-apis/asyncapi/user-events-v3.asyncapi.yaml',
+    description: 'User Events API v2.0.0 - AsyncAPI 3.0 Kafka and WebSocket events with send/receive operations',
+    expectedTitle: 'User Events API',
+    expectedVersion: '2.0.0',
+    format: 'yaml',
+    category: 'event-driven',
+    complexity: 'medium',
+    hasAuth: false,
+    hasServers: true,
+    hasExternalDocs: false,
+    tags: ['asyncapi', 'asyncapi-3', 'kafka', 'websocket'],
+    sourceFormat: 'asyncapi',
+    expectedOperations: 3,
+    expectedChannels: ['user/signedup', 'user/{userId}/updated', 'user/closed']
   }
 };
 
@@ -183,6 +335,10 @@ export const TEST_DATA_REGISTRY: Record<string, TestDataFile> = {
 export class TestDataProvider {
   private static instance: TestDataProvider;
   private testDataDir: string;
+  private contentHashes: Map<string, string> = new Map();
+  private generatedTestData: Map<string, TestDataFile> = new Map();
+  // Temp directories of this process by prefix, so parallel workers never write the same file
+  private tempDirs: Map<string, string> = new Map();
 
   private constructor() {
     this.testDataDir = path.join(__dirname, '../../../test-data');
@@ -209,7 +365,7 @@ export class TestDataProvider {
    */
   public getTestDataBy(criteria: {
     format?: 'yaml' | 'json' | 'yml' | 'all';
-    category?: 'simple' | 'comprehensive' | 'domain-specific' | 'minimal' | 'all';
+    category?: 'simple' | 'comprehensive' | 'domain-specific' | 'minimal' | 'collection' | 'event-driven' | 'negative' | 'all';
     complexity?: 'low' | 'medium' | 'high' | 'all';
     hasAuth?: boolean;
     hasServers?: boolean;
@@ -258,6 +414,34 @@ export class TestDataProvider {
     return this.getTestDataBy({ tags: ['format-testing'] });
   }
 
+  /**
+   * Get test data for OpenAPI 3.1 testing
+   */
+  public getOpenApi31TestData(): TestDataFile[] {
+    return this.getTestDataBy({ tags: ['openapi-3.1'] });
+  }
+
+  /**
+   * Get test data declaring Document360 vendor extensions
+   */
+  public getVendorExtensionTestData(): TestDataFile[] {
+    return this.getTestDataBy({ tags: ['vendor-extensions'] });
+  }
+
+  /**
+   * Get Postman and Insomnia test data that is converted to OpenAPI before import
+   */
+  public getCollectionTestData(): TestDataFile[] {
+    return this.getTestDataBy({ category: 'collection' });
+  }
+
+  /**
+   * Get AsyncAPI test data, read with AsyncApiParser instead of ApiSpecParser
+   */
+  public getAsyncApiTestData(): TestDataFile[] {
+    return this.getTestDataBy({ category: 'event-driven' });
+  }
+
   /**
    * Get test data for comprehensive testing
    */
@@ -294,17 +478,216 @@ export class TestDataProvider {
   }
 
   /**
-   * Get a specific test data file by key
+   * Get a specific test data file by key (registered mutants use SOURCE_KEY:mutation, synthetic specs SYNTHETIC:<size>)
    */
   public getTestDataByKey(key: string): TestDataFile | null {
-    return TEST_DATA_REGISTRY[key] || null;
+    return TEST_DATA_REGISTRY[key] || this.generatedTestData.get(key) || null;
+  }
+
+  /**
+   * Generate negative fixtures from a valid OpenAPI test data file and register them as SOURCE_KEY:mutation
+   * Each mutant is written to a temp directory and carries the error its import is expected to end in
+   */
+  public registerMutants(sourceKey: string, mutations: SpecMutation[] = SpecMutator.getMutations(), options?: SpecMutatorOptions): TestDataFile[] {
+    const source = TEST_DATA_REGISTRY[sourceKey];
+    if (!source || (source.sourceFormat && source.sourceFormat !== 'openapi')) {
+      throw new Error(`Mutants can only be generated from an OpenAPI test data file: ${sourceKey}`);
+    }
+
+    const mutator = new SpecMutator(options);
+    return mutator.mutateAll(this.getTestDataPath(source.file), mutations).map(mutant => {
+      const testData: TestDataFile = {
+        ...source,
+        file: mutant.filePath,
+        description: `${source.description} - ${mutant.description}`,
+        format: path.extname(mutant.filePath).substring(1) as TestDataFile['format'],
+        category: 'negative',
+        tags: [...source.tags, 'negative', mutant.mutation],
+        mutation: mutant.mutation,
+        expectedError: mutant.expected
+      };
+      this.generatedTestData.set(`${sourceKey}:${mutant.mutation}`, testData);
+      loggers.test.debug(`Registered ${mutant.mutation} mutant of ${source.file}: ${mutant.filePath}`);
+      return testData;
+    });
+  }
+
+  /**
+   * Get all registered mutants
+   */
+  public getNegativeTestData(): TestDataFile[] {
+    return [...this.generatedTestData.values()].filter(testData => testData.category === 'negative');
   }
 
   /**
-   * Get the full path to a test data file
+   * Generate a large synthetic OpenAPI document and register it as SYNTHETIC:<tags>x<operationsPerTag>-d<depth>-p<parameters>
+   * Used to measure import time and category tree rendering at the scale of the biggest production APIs
+   */
+  public registerSyntheticSpec(options: SpecGeneratorOptions = {}): TestDataFile {
+    const generator = new SpecGenerator(options);
+    const size = generator.getSize();
+    const key = `SYNTHETIC:${size.tags}x${size.operationsPerTag}-d${size.schemaDepth}-p${size.parameterCount}`;
+
+    const testData: TestDataFile = {
+      file: generator.writeToFile(),
+      description: `${generator.getTitle()} - ${generator.getOperationCount()} generated operations, schema depth ${size.schemaDepth}`,
+      expectedTitle: generator.getTitle(),
+      expectedVersion: options.version ?? '1.0.0',
+      format: 'yaml',
+      category: 'comprehensive',
+      complexity: 'high',
+      hasAuth: false,
+      hasServers: true,
+      hasExternalDocs: false,
+      tags: ['synthetic', 'scale'],
+      expectedOperations: generator.getOperationCount()
+    };
+    this.generatedTestData.set(key, testData);
+    loggers.test.debug(`Registered synthetic spec ${key}: ${testData.file}`);
+    return testData;
+  }
+
+  /**
+   * Get all registered synthetic specs
+   */
+  public getSyntheticTestData(): TestDataFile[] {
+    return [...this.generatedTestData.values()].filter(testData => testData.tags.includes('synthetic'));
+  }
+
+  /**
+   * Get the full path to a test data file (generated files are already absolute temp paths)
    */
   public getTestDataPath(filename: string): string {
-    return path.join(this.testDataDir, filename);
+    return path.isAbsolute(filename) ? filename : path.join(this.testDataDir, filename);
+  }
+
+  /**
+   * Get the path of the file to upload for a test data entry
+   * Collections are converted and written as an OpenAPI JSON file, since Document360 cannot import them directly
+   */
+  public getImportFilePath(testData: TestDataFile): string {
+    if (testData.importFormat && testData.importFormat !== this.getFormatFamily(testData)) {
+      return this.writeFormatVariant(testData, testData.importFormat);
+    }
+    if (!this.isCollection(testData)) {
+      return this.getTestDataPath(testData.file);
+    }
+
+    const convertedDir = this.getTempDir('d360-converted-specs');
+    const convertedPath = path.join(convertedDir, `${path.basename(testData.file, '.json')}.openapi.json`);
+    fs.writeFileSync(convertedPath, JSON.stringify(this.convertCollection(testData).spec, null, 2));
+    return convertedPath;
+  }
+
+  /**
+   * Get the same test data file imported in another format (the YAML document uploaded as JSON and vice versa)
+   * Used by cross-format tests, which need one API in two formats rather than two different APIs
+   */
+  public getFormatVariant(testData: TestDataFile, importFormat: 'yaml' | 'json'): TestDataFile {
+    return {
+      ...testData,
+      description: `${testData.description} (imported as ${importFormat.toUpperCase()})`,
+      format: importFormat,
+      importFormat
+    };
+  }
+
+  /**
+   * Measure how many requests of a collection test data file survived conversion
+   */
+  public measureConversionFidelity(testData: TestDataFile): ConversionFidelity {
+    if (!this.isCollection(testData)) {
+      throw new Error(`Test data file is not a collection: ${testData.file}`);
+    }
+
+    const { report } = this.convertCollection(testData);
+    const expectedOperations = testData.expectedOperations ?? report.requestCount;
+    return {
+      report,
+      expectedOperations,
+      convertedOperations: report.operationCount,
+      ratio: expectedOperations === 0 ? 1 : report.operationCount / expectedOperations
+    };
+  }
+
+  /**
+   * Get the content hash of a test data file: the canonical form of the API it describes
+   * simple-doc.yaml and a JSON copy of it hash the same; collections hash as the OpenAPI document they convert to
+   */
+  public getContentHash(testData: TestDataFile): string {
+    const cached = this.contentHashes.get(testData.file);
+    if (cached) {
+      return cached;
+    }
+
+    const canonicalizer = new SpecCanonicalizer();
+    const filePath = this.getTestDataPath(testData.file);
+    let hash: string;
+    try {
+      if (this.isCollection(testData)) {
+        hash = canonicalizer.hash(this.convertCollection(testData).spec);
+      } else if (testData.sourceFormat === 'asyncapi') {
+        hash = canonicalizer.hash(AsyncApiParser.fromFile(filePath, { validationEnabled: false }).parseAsyncApi());
+      } else {
+        hash = canonicalizer.fingerprintFile(filePath);
+      }
+    } catch {
+      // Files that do not parse (negative fixtures) are only identical byte for byte
+      hash = canonicalizer.hash(fs.readFileSync(filePath, 'utf8'));
+    }
+
+    this.contentHashes.set(testData.file, hash);
+    return hash;
+  }
+
+  /**
+   * Drop test data files that describe the same API as an earlier file in the list
+   */
+  public dedupeTestData(testData: TestDataFile[]): TestDataFile[] {
+    const seen = new Map<string, TestDataFile>();
+    return testData.filter(data => {
+      const hash = this.getContentHash(data);
+      const original = seen.get(hash);
+      if (original) {
+        loggers.test.info(`Skipping ${data.file}: same API as ${original.file}`);
+        return false;
+      }
+      seen.set(hash, data);
+      return true;
+    });
+  }
+
+  private getFormatFamily(testData: TestDataFile): 'yaml' | 'json' {
+    return ['.yaml', '.yml'].includes(path.extname(testData.file).toLowerCase()) ? 'yaml' : 'json';
+  }
+
+  private writeFormatVariant(testData: TestDataFile, importFormat: 'yaml' | 'json'): string {
+    const document = yaml.load(fs.readFileSync(this.getTestDataPath(testData.file), 'utf8'));
+    const variantDir = this.getTempDir('d360-format-variants');
+
+    const variantPath = path.join(variantDir, `${path.basename(testData.file, path.extname(testData.file))}.${importFormat}`);
+    fs.writeFileSync(variantPath, importFormat === 'json' ? JSON.stringify(document, null, 2) : yaml.dump(document, { noRefs: true }));
+    return variantPath;
+  }
+
+  private getTempDir(prefix: string): string {
+    let tempDir = this.tempDirs.get(prefix);
+    if (!tempDir || !fs.existsSync(tempDir)) {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), `${prefix}-`));
+      this.tempDirs.set(prefix, tempDir);
+    }
+    return tempDir;
+  }
+
+  private isCollection(testData: TestDataFile): boolean {
+    return testData.sourceFormat === 'postman' || testData.sourceFormat === 'insomnia';
+  }
+
+  private convertCollection(testData: TestDataFile): CollectionConversionResult {
+    const document = JSON.parse(fs.readFileSync(this.getTestDataPath(testData.file), 'utf8'));
+    return testData.sourceFormat === 'postman'
+      ? new PostmanCollectionConverter().convert(document)
+      : new InsomniaExportConverter().convert(document);
   }
 
   /**
@@ -352,8 +735,8 @@ export class TestDataProvider {
    * Get test data combinations for data-driven testing
    * Returns an array of test data files suitable for parameterized tests
    */
-  public async getTestDataCombinations(testType: 'import' | 'validation' | 'customer-portal' | 'all'): Promise<TestDataFile[]> {
-    const validatedData = await this.getValidatedTestData();
+  public async getTestDataCombinations(testType: 'import' | 'validation' | 'customer-portal' | 'conversion' | 'event-driven' | 'all'): Promise<TestDataFile[]> {
+    const validatedData = this.dedupeTestData(await this.getValidatedTestData());
     
     switch (testType) {
       case 'import':
@@ -366,8 +749,9 @@ export class TestDataProvider {
       case 'validation':
         // For validation tests, focus on well-structured APIs
         return validatedData.filter(data => 
-          data.complexity === 'medium' || 
-          (data.complexity === 'high' && data.category === 'comprehensive')
+          data.category !== 'event-driven' &&
+          (data.complexity === 'medium' || 
+          (data.complexity === 'high' && data.category === 'comprehensive'))
         );
       
       case 'customer-portal':
@@ -378,6 +762,14 @@ export class TestDataProvider {
           data.complexity !== 'low'
         );
       
+      case 'conversion':
+        // For conversion tests, use collections that are converted before import
+        return validatedData.filter(data => data.category === 'collection');
+
+      case 'event-driven':
+        // For event-driven tests, use AsyncAPI documents
+        return validatedData.filter(data => data.category === 'event-driven');
+
       case 'all':
       default:
         return validatedData;
@@ -404,7 +796,7 @@ export function getTestDataProvider(): TestDataProvider {
 /**
  * Decorator for data-driven tests
  */
-export function withTestData(testType: 'import' | 'validation' | 'customer-portal' | 'all' = 'all') {
+export function withTestData(testType: 'import' | 'validation' | 'customer-portal' | 'conversion' | 'event-driven' | 'all' = 'all') {
   const provider = getTestDataProvider();
   return provider.getTestDataCombinations(testType);
 }
@@ -16,11 +16,103 @@ export {
   ApiSpecParserOptions,
   ApiSpec
 } from './api/api-spec-parser';
+export {
+  ApiOperation,
+  CodeSampleExtension,
+  Components,
+  EffectiveOperation,
+  Extensible,
+  HttpMethod,
+  LogoExtension,
+  Operation,
+  Parameter,
+  PathItem,
+  ReferenceObject,
+  Referenceable,
+  RequestBody,
+  RequestBodyMediaType,
+  ResponseObject,
+  SchemaObject,
+  SchemaVariant,
+  SecurityRequirement,
+  SecurityScheme,
+  HTTP_METHODS,
+  isHttpMethod,
+  isReference
+} from './api/openapi-model';
+export { RefResolver, CircularRef } from './api/ref-resolver';
+export { Swagger2Normalizer } from './api/swagger2-normalizer';
+export { UrlSpecLoader, UrlSpecContent, UrlSpecLoaderOptions } from './api/url-spec-loader';
+export { SpecStructureValidator, SpecDiagnostic, SpecValidationResult } from './api/spec-structure-validator';
+export { SpecSourceMap, SourcePosition, toJsonPointer } from './api/spec-source-map';
+export {
+  SpecDiff,
+  SpecChange,
+  SpecChangeset,
+  SpecChangeType,
+  SpecChangeSeverity,
+  SpecChangeScope,
+  AffectedOperation
+} from './api/spec-diff';
+export { ExampleGenerator, ExampleGeneratorOptions, ExampleDirection } from './api/example-generator';
+export { IApiSpecFormatParser } from './api/spec-format-parser';
+export { SpecBundler, SpecBundle } from './api/spec-bundler';
+export { SpecCanonicalizer, CanonicalizeOptions } from './api/spec-canonicalizer';
+export { SpecGenerator, SpecGeneratorOptions, GeneratedSpecSize } from './api/spec-generator';
+export { HttpRecorder, HttpRecordMode, HttpRecorderOptions, HttpFixture, RecordedRequest, RecordedResponse } from './api/http-recorder';
+export {
+  SpecMutator,
+  SpecMutatorOptions,
+  SpecMutation,
+  SpecMutant,
+  MutationExpectation,
+  MutationStage,
+  LocalImportError
+} from './api/spec-mutator';
+export {
+  RenderedDocDiff,
+  RenderedDocTree,
+  RenderedTreeNode,
+  RenderedOperation,
+  RenderedParameter,
+  RenderedResponse,
+  RenderedDivergence,
+  RenderedDivergenceScope,
+  CrossFormatReport
+} from './api/rendered-doc-diff';
+export {
+  SpecLinter,
+  SpecLinterOptions,
+  LintRule,
+  LintRuleContext,
+  LintReport,
+  LintFinding,
+  LintResult,
+  LintSeverity
+} from './api/spec-linter';
+export {
+  CollectionSpecBuilder,
+  CollectionConversionReport,
+  CollectionConversionResult,
+  SkippedRequest
+} from './api/collection-conversion';
+export { PostmanCollectionConverter, PostmanCollectionFormatParser } from './api/postman-collection-parser';
+export { InsomniaExportConverter, InsomniaExportFormatParser } from './api/insomnia-export-parser';
+export { AsyncApiParser, AsyncApiParserOptions, AsyncApiFormatParser } from './api/asyncapi-parser';
+export {
+  AsyncApiSpec,
+  AsyncApiAction,
+  AsyncApiChannel,
+  AsyncApiMessage,
+  AsyncApiOperation,
+  AsyncApiServer
+} from './api/asyncapi-model';
 
 // Data Management
 export {
   TestDataProvider,
   TestDataFile,
+  ConversionFidelity,
   getTestDataProvider
 } from './data/test-data-provider';
 